@@ -0,0 +1,186 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Escrow Deadline Watcher
+ *
+ * Warns before the program's timers run out: the seller's deposit deadline,
+ * the buyer's fiat deadline, the dispute response window and the arbitration
+ * window. Open escrows are read from the program's accounts, or from the
+ * event listener's database (which also knows when disputes were answered,
+ * so arbitration deadlines are only watched with --db).
+ *
+ * Usage:
+ *   npm run deadline-watcher -- [options]
+ *   # or
+ *   ts-node scripts/deadline-watcher.ts [options]
+ *
+ * Options:
+ *   --cluster <name>          localnet | devnet | mainnet (default: $CLUSTER, else devnet)
+ *   --db <file>               Read open escrows from the listener's SQLite database
+ *                             instead of the program's accounts
+ *   --interval <sec>          Seconds between checks (default: 30)
+ *   --lead <kind>=<times>     Lead times for one deadline kind (repeatable), e.g.
+ *                             fiat=10m,5m or disputeResponse=24h,2h,0 (0: announce the
+ *                             expiry). Kinds: deposit, fiat, disputeResponse, arbitration
+ *   --format <format>         pretty | ndjson for stdout (default: pretty)
+ *   --quiet                   Do not write warnings to stdout
+ *   --file <file>             Append warnings to this JSON lines file
+ *   --webhook <url>           POST warnings to this endpoint (repeatable)
+ *   --webhook-secret <key>    HMAC-SHA256 signing key (default: $WEBHOOK_SECRET)
+ *
+ * Examples:
+ *   npm run deadline-watcher
+ *   npm run deadline-watcher -- --db events.db --lead fiat=15m,5m,0 --file warnings.jsonl
+ *   WEBHOOK_SECRET=... npm run deadline-watcher -- --webhook http://localhost:8080/deadlines
+ */
+
+import * as anchor from "@coral-xyz/anchor";
+import { BorshCoder } from "@coral-xyz/anchor";
+import { Connection } from "@solana/web3.js";
+import * as dotenv from "dotenv";
+import { parseArgs } from "util";
+import { LocalsolanaContracts } from "../target/types/localsolana_contracts";
+import {
+  DEFAULT_CLUSTER,
+  loadNetworkProfile,
+  NetworkProfile,
+  parseClusterName,
+} from "../sdk/networks";
+import {
+  databaseSource,
+  DeadlineWatcher,
+  FileChannel,
+  LeadTimes,
+  NotificationChannel,
+  parseLeadTimes,
+  StdoutChannel,
+  WatchedEscrow,
+  WebhookChannel,
+} from "./listener/deadline-watcher";
+import { SqliteEventStore } from "./listener/sqlite-store";
+
+dotenv.config();
+
+const DEFAULT_INTERVAL_SECONDS = 30;
+
+const idl = require("../target/idl/localsolana_contracts.json");
+
+interface CliOptions {
+  network: NetworkProfile;
+  dbFile: string | null;
+  interval: number;
+  leadTimes: Partial<LeadTimes>;
+  channels: NotificationChannel[];
+}
+
+function parseCliOptions(args: string[]): CliOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      cluster: { type: "string" },
+      db: { type: "string" },
+      interval: { type: "string" },
+      lead: { type: "string", multiple: true },
+      format: { type: "string" },
+      quiet: { type: "boolean" },
+      file: { type: "string" },
+      webhook: { type: "string", multiple: true },
+      "webhook-secret": { type: "string" },
+    },
+  });
+
+  const interval = Number(values.interval ?? DEFAULT_INTERVAL_SECONDS);
+  if (!(interval > 0)) {
+    throw new Error(`Invalid interval: ${values.interval}`);
+  }
+  const format = values.format ?? "pretty";
+  if (format !== "pretty" && format !== "ndjson") {
+    throw new Error(`Unknown format: ${format} (expected pretty, ndjson)`);
+  }
+
+  const channels: NotificationChannel[] = [];
+  if (!values.quiet) channels.push(new StdoutChannel(format));
+  if (values.file) channels.push(new FileChannel(values.file));
+  const secret = values["webhook-secret"] ?? process.env.WEBHOOK_SECRET;
+  for (const url of values.webhook ?? []) {
+    channels.push(new WebhookChannel(url, { secret }));
+  }
+
+  return {
+    network: loadNetworkProfile(
+      parseClusterName(values.cluster ?? process.env.CLUSTER ?? DEFAULT_CLUSTER)
+    ),
+    dbFile: values.db ?? null,
+    interval,
+    leadTimes: Object.fromEntries((values.lead ?? []).map(parseLeadTimes)),
+    channels,
+  };
+}
+
+/**
+ * Open escrows from the program's accounts; closed escrows have no account
+ */
+function accountSource(
+  network: NetworkProfile
+): () => Promise<WatchedEscrow[]> {
+  const program = new anchor.Program<LocalsolanaContracts>(
+    { ...idl, address: network.programId.toBase58() },
+    { connection: new Connection(network.rpcUrl, "confirmed") }
+  );
+  return async () =>
+    (await program.account.escrow.all()).map(({ publicKey, account }) => ({
+      ...account,
+      address: publicKey,
+    }));
+}
+
+async function main() {
+  let options: CliOptions;
+  try {
+    options = parseCliOptions(process.argv.slice(2));
+  } catch (error) {
+    console.error(
+      `❌ Error: ${error instanceof Error ? error.message : error}`
+    );
+    console.error(
+      "Usage: npm run deadline-watcher -- [--cluster localnet|devnet|mainnet] [--db <file>] [--interval <sec>] [--lead <kind>=<times> ...] [--format pretty|ndjson] [--quiet] [--file <file>] [--webhook <url> ...] [--webhook-secret <key>]"
+    );
+    process.exit(1);
+  }
+
+  const { network } = options;
+  console.error("⏰ Escrow Deadline Watcher");
+  console.error(`🌐 Cluster: ${network.cluster} (${network.rpcUrl})`);
+  console.error(`📋 Program ID: ${network.programId.toBase58()}`);
+  console.error(`📚 Source: ${options.dbFile ?? "program accounts"}`);
+  console.error(`🔁 Interval: ${options.interval}s`);
+
+  const watcher = new DeadlineWatcher(
+    options.dbFile
+      ? databaseSource(
+          new SqliteEventStore(options.dbFile),
+          new BorshCoder(idl)
+        )
+      : accountSource(network),
+    options.channels,
+    {
+      leadTimes: options.leadTimes,
+      onError: (error) => console.error("❌ Deadline watcher error:", error),
+    }
+  );
+
+  process.on("SIGINT", async () => {
+    console.error("\n🛑 Shutting down deadline watcher...");
+    await watcher.stop();
+    process.exit(0);
+  });
+
+  watcher.start(options.interval * 1000);
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error("Script failed:", error);
+    process.exit(1);
+  });
+}
@@ -7,9 +7,12 @@
  * wallet address and token mint address.
  *
  * Usage:
- *   npm run derive-token-address <wallet_address> [token_mint]
+ *   npm run derive-token-address <wallet_address> [token_mint] [--cluster <name>]
  *   # or
- *   ts-node scripts/deriveTokenAddress.ts <wallet_address> [token_mint]
+ *   ts-node scripts/deriveTokenAddress.ts <wallet_address> [token_mint] [--cluster <name>]
+ *
+ * The token mint defaults to the cluster's USDC mint; the cluster defaults to
+ * $CLUSTER, else devnet.
  *
  * Examples:
  *   ts-node scripts/deriveTokenAddress.ts 2ozy4RSqXbVvrE1kptN3UG4cseGcUEdKLjUQNtTULim8
@@ -18,39 +21,54 @@
 
 import { PublicKey } from '@solana/web3.js';
 import { getAssociatedTokenAddress } from '@solana/spl-token';
+import {
+  DEFAULT_CLUSTER,
+  loadNetworkProfile,
+  NetworkProfile,
+  parseClusterName,
+  USDC_MINTS,
+} from '../sdk/networks';
 
 // Common token mints
 export const COMMON_TOKENS = {
-  USDC_DEVNET: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
-  USDC_MAINNET: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+  USDC_DEVNET: USDC_MINTS.devnet.toBase58(),
+  USDC_MAINNET: USDC_MINTS.mainnet.toBase58(),
   USDT_DEVNET: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
   USDT_MAINNET: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
   SOL_WRAPPED: 'So11111111111111111111111111111111111111112'
-} as const;
+};
 
 interface DeriveTokenOptions {
   walletAddress: string;
   tokenMint: string;
+  network: NetworkProfile;
 }
 
 function parseArgs(): DeriveTokenOptions {
   const args = process.argv.slice(2);
+  let cluster = process.env.CLUSTER ?? DEFAULT_CLUSTER;
+  const clusterFlag = args.indexOf('--cluster');
+  if (clusterFlag !== -1) {
+    cluster = args[clusterFlag + 1] ?? '';
+    args.splice(clusterFlag, 2);
+  }
 
   // Check for help flag
   if (args.includes('--help') || args.includes('-h') || args.length === 0) {
     console.log(`
 Token Address Derivation Script
 
-Usage: ts-node scripts/deriveTokenAddress.ts <wallet_address> [token_mint]
+Usage: ts-node scripts/deriveTokenAddress.ts <wallet_address> [token_mint] [--cluster <name>]
 
 Arguments:
   wallet_address    The Solana wallet address (base58 string)
-  token_mint        The token mint address (optional, defaults to USDC Devnet)
+  token_mint        The token mint address (optional, defaults to the cluster's USDC)
 
 Examples:
   ts-node scripts/deriveTokenAddress.ts 2ozy4RSqXbVvrE1kptN3UG4cseGcUEdKLjUQNtTULim8
   ts-node scripts/deriveTokenAddress.ts 2ozy4RSqXbVvrE1kptN3UG4cseGcUEdKLjUQNtTULim8 4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU
   ts-node scripts/deriveTokenAddress.ts 2ozy4RSqXbVvrE1kptN3UG4cseGcUEdKLjUQNtTULim8 USDC_MAINNET
+  ts-node scripts/deriveTokenAddress.ts 2ozy4RSqXbVvrE1kptN3UG4cseGcUEdKLjUQNtTULim8 --cluster mainnet
 
 Common Token Mints:
   USDC_DEVNET      4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU
@@ -60,23 +78,29 @@ Common Token Mints:
   SOL_WRAPPED      So11111111111111111111111111111111111111112
 
 Options:
+  --cluster <name>  localnet | devnet | mainnet (default: $CLUSTER, else devnet)
   --help, -h        Show this help message
 `);
     process.exit(0);
   }
 
+  const network = loadNetworkProfile(parseClusterName(cluster));
   const walletAddress = args[0];
-  let tokenMint = args[1] || COMMON_TOKENS.USDC_DEVNET;
+  let tokenMint = args[1] || network.usdcMint.toBase58();
 
   // Handle common token shortcuts
   if (COMMON_TOKENS[tokenMint as keyof typeof COMMON_TOKENS]) {
     tokenMint = COMMON_TOKENS[tokenMint as keyof typeof COMMON_TOKENS];
   }
 
-  return { walletAddress, tokenMint };
+  return { walletAddress, tokenMint, network };
 }
 
-export async function deriveTokenAddress(walletAddress: string, tokenMint: string): Promise<string> {
+export async function deriveTokenAddress(
+  walletAddress: string,
+  tokenMint: string,
+  network: NetworkProfile = loadNetworkProfile(DEFAULT_CLUSTER)
+): Promise<string> {
   try {
     // Validate inputs
     const walletPubkey = new PublicKey(walletAddress);
@@ -100,7 +124,7 @@ export async function deriveTokenAddress(walletAddress: string, tokenMint: strin
     // Additional information
     console.log('\n📋 Additional Information:');
     console.log(`Token Mint Name: ${getTokenName(tokenMint)}`);
-    console.log(`Network: ${isDevnetToken(tokenMint) ? 'Devnet' : 'Mainnet'}`);
+    console.log(`Network: ${network.cluster}`);
 
     return tokenAccountAddress.toBase58();
 
@@ -123,25 +147,20 @@ function getTokenName(tokenMint: string): string {
   return found ? found[0] : 'Unknown Token';
 }
 
-function isDevnetToken(tokenMint: string): boolean {
-  return tokenMint === COMMON_TOKENS.USDC_DEVNET ||
-         tokenMint === COMMON_TOKENS.USDT_DEVNET;
-}
-
 async function main(): Promise<void> {
   console.log('🚀 Token Address Derivation Script');
   console.log('=' .repeat(50));
 
-  const { walletAddress, tokenMint } = parseArgs();
+  const { walletAddress, tokenMint, network } = parseArgs();
 
   try {
-    const tokenAddress = await deriveTokenAddress(walletAddress, tokenMint);
+    const tokenAddress = await deriveTokenAddress(walletAddress, tokenMint, network);
 
     console.log('\n🎯 Usage Examples:');
     console.log('  # Check USDC balance:');
-    console.log(`  spl-token balance --address ${tokenAddress} --url devnet`);
+    console.log(`  spl-token balance --address ${tokenAddress} --url ${network.rpcUrl}`);
     console.log('  # Transfer USDC:');
-    console.log(`  spl-token transfer ${tokenMint} <amount> ${walletAddress} --url devnet`);
+    console.log(`  spl-token transfer ${tokenMint} <amount> ${walletAddress} --url ${network.rpcUrl}`);
 
   } catch (error) {
     console.error('Script failed:', error);
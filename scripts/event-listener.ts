@@ -4,520 +4,749 @@
  * Solana Event Listener for Escrow Contract
  *
  * This script listens for events from the escrow contract and outputs them to console.
- * It can catch both past events (by scanning recent transactions) and upcoming events
- * (by subscribing to program logs).
+ * It can catch both past events (by backfilling the program's transaction signatures)
+ * and upcoming events (by subscribing to program logs). The subscription watches a
+ * slot heartbeat, resubscribes with backoff when the socket goes silent, and
+ * backfills whatever landed while it was down.
  *
  * Usage:
- *   npm run event-listener [hours]
+ *   npm run event-listener [hours] [options]
  *   # or
- *   ts-node scripts/event-listener.ts [hours]
+ *   ts-node scripts/event-listener.ts [hours] [options]
+ *
+ * Network options:
+ *   --cluster <name>          localnet | devnet | mainnet (default: $CLUSTER, else devnet).
+ *                             The program id comes from Anchor.toml; set RPC_URL_<CLUSTER>
+ *                             (e.g. RPC_URL_DEVNET) to use another RPC endpoint
+ *
+ * Backfill options (default: resume from the checkpoint, else the last [hours], 1 if omitted):
+ *   --since <time>            Start of the time range (ISO date or unix seconds)
+ *   --until <time>            End of the time range (ISO date or unix seconds)
+ *   --from-slot <slot>        First slot to include
+ *   --to-slot <slot>          Last slot to include
+ *   --from-signature <sig>    Only transactions after this signature
+ *
+ * Events are delivered at "confirmed" and tagged with their commitment. Each
+ * transaction is then promoted to "finalized" once its slot finalizes, or retracted
+ * if it never does (its fork was dropped). The checkpoint only advances past
+ * finalized transactions, the database keeps the commitment per event, and
+ * webhooks only deliver finalized events.
+ *
+ * Output options:
+ *   --format <format>         ndjson | json | pretty (default: pretty). Machine formats
+ *                             normalize every event (camelCase keys, base58 addresses,
+ *                             decimal-string u64s, ISO timestamps) and write only events
+ *                             to stdout; status messages go to stderr
+ *
+ * Filter options (repeatable; print only matching events, storage and webhooks are unaffected):
+ *   --escrow-id <id>          Escrow id
+ *   --trade-id <id>           Trade id
+ *   --escrow <address>        Escrow PDA (the events' object_id)
+ *   --participant <pubkey>    Seller, buyer, disputing/responding/defaulting party or winner
+ *   --event <name>            Event name (comma-separated list allowed)
+ *
+ * Checkpoint options:
+ *   --checkpoint <file>       Checkpoint file (default: event-listener-checkpoint.json)
+ *   --no-checkpoint           Neither resume from nor write a checkpoint
+ *
+ * Storage options:
+ *   --db <file>               Also write every event to this SQLite database; the
+ *                             checkpoint is then kept in the database too
+ *
+ * Webhook options:
+ *   --webhook <url>           POST every event to this endpoint (repeatable)
+ *   --webhook-secret <key>    HMAC-SHA256 signing key (default: $WEBHOOK_SECRET)
+ *   --webhook-events <names>  Comma-separated event names to deliver (default: all)
+ *   --dead-letter <file>      Failed deliveries file (default: webhook-dead-letters.jsonl)
+ *
+ * Read model options:
+ *   --verify-interval <sec>   Keep an event-sourced projection of every escrow (rebuilt
+ *                             from --db on startup) and compare open escrows with their
+ *                             on-chain accounts at this interval
+ *
+ * Monitoring options:
+ *   --metrics-port <port>     Serve Prometheus metrics on http://0.0.0.0:<port>/metrics
+ *                             (default: $METRICS_PORT); keeps the projection like
+ *                             --verify-interval for the open escrow gauges
+ *
+ * Streaming options:
+ *   --sse-port <port>         Push live events as Server-Sent Events on
+ *                             http://0.0.0.0:<port>/events?escrow=<pda> | ?tradeId=<id> |
+ *                             ?participant=<pubkey> (default: $SSE_PORT). With --db,
+ *                             reconnecting clients resume after their Last-Event-ID
  *
  * Examples:
- *   npm run event-listener 1    # Scan last 1 hour of blocks
- *   npm run event-listener 24   # Scan last 24 hours of blocks
- *   npm run event-listener      # Default: scan last 1 hour of blocks
+ *   npm run event-listener 1    # Backfill the last hour
+ *   npm run event-listener 24   # Backfill the last 24 hours
+ *   npm run event-listener 1 -- --cluster localnet
+ *   npm run event-listener -- --from-slot 380000000 --to-slot 380100000
+ *   npm run event-listener 24 -- --trade-id 42 --event DisputeOpened,DisputeResolved
+ *   npm run event-listener -- --format ndjson | jq 'select(.event == "EscrowReleased")'
+ *   npm run event-listener -- --db events.db --sse-port 8788
+ *   npm run event-listener -- --since 2025-06-01T00:00:00Z --until 2025-06-02T00:00:00Z
+ *   WEBHOOK_SECRET=... npm run event-listener -- --webhook http://localhost:8080/escrow \
+ *     --webhook-events FundsDeposited,FiatMarkedPaid,EscrowReleased
  */
 
 import * as anchor from "@coral-xyz/anchor";
-import { Connection, PublicKey, ParsedTransactionWithMeta } from "@solana/web3.js";
+import { Connection, PublicKey } from "@solana/web3.js";
 import * as dotenv from "dotenv";
-import { BorshCoder, EventParser } from "@coral-xyz/anchor";
+import { BorshCoder } from "@coral-xyz/anchor";
 import { LocalsolanaContracts } from "../target/types/localsolana_contracts";
+import {
+  ClusterName,
+  DEFAULT_CLUSTER,
+  loadNetworkProfile,
+  NetworkProfile,
+  parseClusterName,
+} from "../sdk/networks";
+import { BackfillRange, BackfillTransaction, backfillTransactions } from "./listener/backfill";
+import {
+  CheckpointStore,
+  CheckpointTracker,
+  DedupCache,
+  FileCheckpointStore,
+} from "./listener/checkpoint";
+import {
+  CommitmentUpdate,
+  decodeProgramEvents,
+  ESCROW_EVENT_NAMES,
+  EventCommitment,
+  EscrowEventName,
+  EventSink,
+  ListenerEvent,
+} from "./listener/events";
+import { SqliteCheckpointStore, SqliteEventStore } from "./listener/sqlite-store";
+import { EventFilter, EventFilterCriteria } from "./listener/filter";
+import { FinalityTracker } from "./listener/finality";
+import {
+  collectProjectionMetrics,
+  createListenerMetrics,
+  ListenerMetrics,
+  MetricsRegistry,
+  startMetricsServer,
+} from "./listener/metrics";
+import { formatCommitmentUpdate, formatEvent, OUTPUT_FORMATS, OutputFormat, StatusLogger, statusLogger } from "./listener/format";
+import { EscrowProjection } from "./listener/projection";
+import { EventStreamHub, startEventStreamServer } from "./listener/event-stream";
+import { ResilientLogSubscription, SubscriptionEvent } from "./listener/subscription";
+import { FileDeadLetterQueue, WebhookDispatcher, WebhookEndpoint } from "./listener/webhooks";
+import { parseArgs } from "util";
 
 dotenv.config();
 
-// Program configuration
-const PROGRAM_ID = new PublicKey("4PonUp1nPEzDPnRMPjTqufLT3f37QuBJGk1CVnsTXx7x");
-const RPC_ENDPOINT = process.env.ANCHOR_PROVIDER_URL || "https://api.devnet.solana.com";
-
-// Block timing configuration
-const BLOCKS_PER_SECOND = 2; // 0.5 seconds per block = 2 blocks per second
 const SECONDS_PER_HOUR = 3600;
-
-// Event discriminators from the IDL
-const EVENT_DISCRIMINATORS = {
-  EscrowCreated: Buffer.from([70, 127, 105, 102, 92, 97, 7, 173]),
-  FiatMarkedPaid: Buffer.from([38, 159, 7, 17, 32, 79, 143, 184]),
-  EscrowReleased: Buffer.from([131, 7, 138, 104, 166, 190, 113, 112]),
-  EscrowCancelled: Buffer.from([98, 241, 195, 122, 213, 0, 162, 161]),
-  FundsDeposited: Buffer.from([157, 209, 100, 95, 59, 100, 3, 68]),
-  DisputeOpened: Buffer.from([239, 222, 102, 235, 193, 85, 1, 214]),
-  DisputeResponseSubmitted: Buffer.from([22, 179, 0, 219, 181, 109, 45, 5]),
-  DisputeResolved: Buffer.from([121, 64, 249, 153, 139, 128, 236, 187]),
-  DisputeDefaultJudgment: Buffer.from([194, 12, 130, 224, 60, 204, 39, 194]),
-  EscrowBalanceChanged: Buffer.from([169, 241, 33, 44, 253, 206, 89, 168]),
-  SequentialAddressUpdated: Buffer.from([205, 6, 123, 144, 102, 253, 81, 133])
-};
-
-/**
- * Convert hours to number of blocks
- */
-function hoursToBlocks(hours: number): number {
-  return Math.ceil(hours * SECONDS_PER_HOUR * BLOCKS_PER_SECOND);
+const FINALITY_POLL_SECONDS = 10;
+
+const DEFAULT_CHECKPOINT_FILE = process.env.LISTENER_CHECKPOINT_FILE || "event-listener-checkpoint.json";
+const DEFAULT_DEAD_LETTER_FILE = process.env.WEBHOOK_DEAD_LETTER_FILE || "webhook-dead-letters.jsonl";
+
+interface EventListenerOptions {
+  /** Cluster to listen on (default: the devnet profile) */
+  network?: NetworkProfile;
+  /** Where to persist the last processed transaction; none if omitted */
+  checkpointStore?: CheckpointStore;
+  /** Number of recent signatures remembered for duplicate suppression */
+  dedupCapacity?: number;
+  /** Receive every decoded event, in order, after it is displayed */
+  sinks?: EventSink[];
+  /** How events are written to stdout (default "pretty") */
+  format?: OutputFormat;
+  /** Only print matching events; sinks still receive every event */
+  filter?: EventFilterCriteria;
+  metrics?: ListenerMetrics;
+  /** Where status messages go (default: statusLogger(format)) */
+  logger?: StatusLogger;
 }
 
 class EventListener {
+  private network: NetworkProfile;
   private connection: Connection;
-  private eventParser: EventParser;
   private borshCoder: BorshCoder;
-  private isListening: boolean = false;
-  private subscriptionId: number | null = null;
-  private processedEvents: Set<string> = new Set();
-  private scanHours: number;
-
-  constructor(scanHours: number = 1) {
-    this.connection = new Connection(RPC_ENDPOINT, "confirmed");
-    this.scanHours = scanHours;
+  private subscription: ResilientLogSubscription | null = null;
+  private processedEvents: DedupCache;
+  /** Transactions being processed, not yet in `processedEvents` */
+  private inFlight = new Set<string>();
+  private checkpoints: CheckpointTracker | null;
+  private sinks: EventSink[];
+  private verifyTimer: NodeJS.Timeout | null = null;
+  private format: OutputFormat;
+  private filter: EventFilter;
+  private finality: FinalityTracker;
+  private finalityTimer: NodeJS.Timeout | null = null;
+  /** Confirmed transactions that emitted events, awaiting finality; true if any were printed */
+  private unsettled = new Map<string, boolean>();
+  private metrics: ListenerMetrics | null;
+  private lastProcessedSlot: number | null = null;
+  private logger: StatusLogger;
+
+  constructor(options: EventListenerOptions = {}) {
+    this.network = options.network ?? loadNetworkProfile(DEFAULT_CLUSTER);
+    this.connection = new Connection(this.network.rpcUrl, "confirmed");
+    this.processedEvents = new DedupCache(options.dedupCapacity);
+    this.sinks = options.sinks ?? [];
+    this.format = options.format ?? "pretty";
+    this.logger = options.logger ?? statusLogger(this.format);
+    this.filter = new EventFilter(options.filter);
+    this.finality = new FinalityTracker(this.connection);
+    this.metrics = options.metrics ?? null;
+    this.checkpoints = options.checkpointStore
+      ? new CheckpointTracker(options.checkpointStore)
+      : null;
 
     // Create event parser using the program's IDL
     const idl = require("../target/idl/localsolana_contracts.json");
     this.borshCoder = new BorshCoder(idl);
-    this.eventParser = new EventParser(PROGRAM_ID, this.borshCoder);
   }
 
   /**
-   * Format USDC amounts for display
+   * Replace the output filter. The database, projection and webhooks are not
+   * filtered, so the store and checkpoint stay complete.
    */
-  private formatUsdcAmount(amount: number): string {
-    return (amount / 1_000_000).toFixed(2) + " USDC";
+  setFilter(criteria: EventFilterCriteria) {
+    this.filter = new EventFilter(criteria);
   }
 
   /**
-   * Format timestamp for display
+   * Backfill past events from the program's transaction signatures
    */
-  private formatTimestamp(timestamp: number): string {
-    return new Date(timestamp * 1000).toISOString();
+  async backfill(range: BackfillRange) {
+    this.logger.log(`🔍 Backfilling events ${describeRange(range)}...`);
+
+    let transactions = 0;
+    try {
+      for await (const tx of backfillTransactions(this.connection, this.network.programId, range)) {
+        transactions++;
+        await this.parseTransactionLogs(tx.logs, tx.signature, tx.slot, tx.blockTime, tx.commitment);
+      }
+      this.logger.log(`✅ Backfill complete: ${transactions} transaction(s) scanned`);
+    } catch (error) {
+      this.metrics?.rpcErrors.inc({ operation: "backfill" });
+      this.logger.error("❌ Error backfilling events:", error);
+    }
   }
 
   /**
-   * Convert value to number (handles both decimal strings and hex strings)
+   * Process one transaction obtained elsewhere (e.g. a recorded log fixture)
+   * exactly as backfill would; nothing is fetched
    */
-  private hexToNumber(value: string | number): number {
-    if (!value) return 0;
-    if (typeof value === 'number') return value;
+  async processTransaction(tx: BackfillTransaction) {
+    await this.parseTransactionLogs(tx.logs, tx.signature, tx.slot, tx.blockTime, tx.commitment);
+  }
 
-    // If it's already a decimal number as string, parse it directly
-    if (/^\d+$/.test(value)) {
-      return parseInt(value, 10);
+  /**
+   * Parse transaction logs for events
+   */
+  private async parseTransactionLogs(
+    logs: string[],
+    signature: string,
+    slot: number,
+    blockTime: number | null = null,
+    commitment: EventCommitment = "confirmed"
+  ) {
+    this.logger.log(`🔍 Parsing transaction ${signature} with ${logs.length} logs`);
+
+    // Backfill, gap fill and the live subscription can all deliver a
+    // transaction, possibly concurrently, so it is claimed before any await.
+    // It only counts as processed once every sink has taken its events; after
+    // a sink error the next delivery (or a restart) tries it again.
+    if (this.processedEvents.has(signature) || this.inFlight.has(signature)) {
+      this.logger.log(`⚠️  Transaction already processed, skipping`);
+      return;
     }
-
-    // If it's a hex string, convert it
-    if (/^[0-9a-fA-F]+$/.test(value)) {
-      // Convert hex to buffer, reverse for little-endian, then parse
-      const buffer = Buffer.from(value, 'hex');
-      const reversed = Buffer.from(buffer.reverse());
-      return parseInt(reversed.toString('hex'), 16);
+    this.inFlight.add(signature);
+    try {
+      await this.processLogs(logs, signature, slot, blockTime, commitment);
+      this.processedEvents.add(signature);
+    } catch (error) {
+      this.logger.error(`❌ Error processing transaction ${signature}:`, error);
+    } finally {
+      this.inFlight.delete(signature);
     }
-
-    return 0;
   }
 
   /**
-   * Parse and display an event
+   * Decode the transaction's events and hand them to the output and sinks
    */
-  private displayEvent(eventName: string, eventData: any, signature: string, slot: number) {
-    console.log("\n" + "=".repeat(80));
-    console.log(`🎯 EVENT: ${eventName}`);
-    console.log(`📝 Signature: ${signature}`);
-    console.log(`🎰 Slot: ${slot}`);
-    console.log(`⏰ Time: ${new Date().toISOString()}`);
-    console.log("-".repeat(80));
-
-    // Handle different event data structures - some have nested 'data' property
-    const data = eventData.data || eventData;
-
-    switch (eventName) {
-      case "EscrowCreated":
-        // Convert hex strings to numbers for amounts and IDs
-        const escrowId = this.hexToNumber(data.escrow_id);
-        const tradeId = this.hexToNumber(data.trade_id);
-        const amount = this.hexToNumber(data.amount);
-        const fee = this.hexToNumber(data.fee);
-        const depositDeadline = this.hexToNumber(data.deposit_deadline);
-        const timestamp = this.hexToNumber(data.timestamp);
-
-
-        console.log(`🆔 Escrow ID: ${escrowId}`);
-        console.log(`🔄 Trade ID: ${tradeId}`);
-        console.log(`👤 Seller: ${data.seller}`);
-        console.log(`👤 Buyer: ${data.buyer}`);
-        console.log(`⚖️  Arbitrator: ${data.arbitrator}`);
-        console.log(`💰 Amount: ${this.formatUsdcAmount(amount)}`);
-        console.log(`💸 Fee: ${this.formatUsdcAmount(fee)}`);
-        console.log(`⏳ Deposit Deadline: ${this.formatTimestamp(depositDeadline)}`);
-        console.log(`🔄 Sequential: ${data.sequential ? "Yes" : "No"}`);
-        if (data.sequential_escrow_address) {
-          console.log(`🔗 Sequential Address: ${data.sequential_escrow_address}`);
-        }
-        console.log(`⏰ Timestamp: ${this.formatTimestamp(timestamp)}`);
-        break;
-
-      case "FiatMarkedPaid":
-        console.log(`🆔 Escrow ID: ${eventData.escrowId.toString()}`);
-        console.log(`🔄 Trade ID: ${eventData.tradeId.toString()}`);
-        console.log(`✅ Fiat payment marked as completed`);
-        break;
-
-      case "EscrowReleased":
-        console.log(`🆔 Escrow ID: ${eventData.escrowId.toString()}`);
-        console.log(`🔄 Trade ID: ${eventData.tradeId.toString()}`);
-        console.log(`👤 Buyer: ${eventData.buyer.toBase58()}`);
-        console.log(`💰 Amount: ${this.formatUsdcAmount(eventData.amount.toNumber())}`);
-        console.log(`💸 Fee: ${this.formatUsdcAmount(eventData.fee.toNumber())}`);
-        console.log(`🎯 Destination: ${eventData.destination.toBase58()}`);
-        break;
-
-      case "EscrowCancelled":
-        console.log(`🆔 Escrow ID: ${eventData.escrowId.toString()}`);
-        console.log(`🔄 Trade ID: ${eventData.tradeId.toString()}`);
-        console.log(`👤 Seller: ${eventData.seller.toBase58()}`);
-        console.log(`💰 Amount: ${this.formatUsdcAmount(eventData.amount.toNumber())}`);
-        console.log(`💸 Fee: ${this.formatUsdcAmount(eventData.fee.toNumber())}`);
-        break;
-
-      case "FundsDeposited":
-        console.log(`🆔 Escrow ID: ${eventData.escrowId.toString()}`);
-        console.log(`🔄 Trade ID: ${eventData.tradeId.toString()}`);
-        console.log(`💰 Amount: ${this.formatUsdcAmount(eventData.amount.toNumber())}`);
-        console.log(`💸 Fee: ${this.formatUsdcAmount(eventData.fee.toNumber())}`);
-        console.log(`🔢 Counter: ${eventData.counter.toString()}`);
-        break;
-
-      case "DisputeOpened":
-        console.log(`🆔 Escrow ID: ${eventData.escrowId.toString()}`);
-        console.log(`🔄 Trade ID: ${eventData.tradeId.toString()}`);
-        console.log(`👤 Disputing Party: ${eventData.disputingParty.toBase58()}`);
-        console.log(`🔐 Evidence Hash: ${Buffer.from(eventData.evidenceHash).toString('hex')}`);
-        console.log(`💰 Bond Amount: ${this.formatUsdcAmount(eventData.bondAmount.toNumber())}`);
-        break;
-
-      case "DisputeResponseSubmitted":
-        console.log(`🆔 Escrow ID: ${eventData.escrowId.toString()}`);
-        console.log(`🔄 Trade ID: ${eventData.tradeId.toString()}`);
-        console.log(`👤 Responding Party: ${eventData.respondingParty.toBase58()}`);
-        console.log(`🔐 Evidence Hash: ${Buffer.from(eventData.evidenceHash).toString('hex')}`);
-        console.log(`💰 Bond Amount: ${this.formatUsdcAmount(eventData.bondAmount.toNumber())}`);
-        break;
-
-      case "DisputeResolved":
-        console.log(`🆔 Escrow ID: ${eventData.escrowId.toString()}`);
-        console.log(`🔄 Trade ID: ${eventData.tradeId.toString()}`);
-        console.log(`⚖️  Decision: ${eventData.decision ? "Buyer Wins" : "Seller Wins"}`);
-        console.log(`👑 Winner: ${eventData.winner.toBase58()}`);
-        console.log(`💸 Fee: ${this.formatUsdcAmount(eventData.fee.toNumber())}`);
-        console.log(`🔐 Resolution Hash: ${Buffer.from(eventData.resolutionHash).toString('hex')}`);
-        break;
-
-      case "DisputeDefaultJudgment":
-        console.log(`🆔 Escrow ID: ${eventData.escrowId.toString()}`);
-        console.log(`🔄 Trade ID: ${eventData.tradeId.toString()}`);
-        console.log(`👤 Defaulting Party: ${eventData.defaultingParty.toBase58()}`);
-        console.log(`⚖️  Decision: ${eventData.decision ? "Buyer Wins" : "Seller Wins"}`);
-        break;
-
-      case "EscrowBalanceChanged":
-        console.log(`🆔 Escrow ID: ${eventData.escrowId.toString()}`);
-        console.log(`🔄 Trade ID: ${eventData.tradeId.toString()}`);
-        console.log(`💰 New Balance: ${this.formatUsdcAmount(eventData.newBalance.toNumber())}`);
-        console.log(`📝 Reason: ${eventData.reason}`);
-        break;
+  private async processLogs(
+    logs: string[],
+    signature: string,
+    slot: number,
+    blockTime: number | null,
+    commitment: EventCommitment
+  ) {
+    const { events, failures } = decodeProgramEvents(this.borshCoder, this.network.programId, logs);
+    for (const failure of failures) {
+      this.metrics?.decodeFailures.inc();
+      this.logger.log(`⚠️  Could not decode event at log ${failure.logIndex}: ${failure.error}`);
+    }
 
-      case "SequentialAddressUpdated":
-        console.log(`🆔 Escrow ID: ${eventData.escrowId.toString()}`);
-        console.log(`🔄 Trade ID: ${eventData.tradeId.toString()}`);
-        if (eventData.oldAddress) {
-          console.log(`🔗 Old Address: ${eventData.oldAddress.toBase58()}`);
-        }
-        console.log(`🔗 New Address: ${eventData.newAddress.toBase58()}`);
-        break;
+    let printed = false;
+    for (const { name, data, logIndex, raw } of events) {
+      const event: ListenerEvent = { name, data, signature, slot, logIndex, blockTime, raw, commitment };
+      this.metrics?.events.inc({ event: name });
+      if (this.filter.matches(event)) {
+        this.logger.log(`✅ Found event: ${name}`);
+        process.stdout.write(formatEvent(event, this.format) + "\n");
+        printed = true;
+      }
+      for (const sink of this.sinks) {
+        await sink.handle(event);
+      }
+    }
 
-      default:
-        console.log("📊 Raw Event Data:", JSON.stringify(eventData, null, 2));
+    if (this.lastProcessedSlot === null || slot > this.lastProcessedSlot) {
+      this.lastProcessedSlot = slot;
+      this.metrics?.lastProcessedSlot.set(slot);
     }
 
-    console.log("=".repeat(80));
+    // Transactions without events still count as processed for the checkpoint,
+    // but only once final: resuming after a retracted signature would fail
+    if (commitment === "finalized") {
+      await this.checkpoints?.advance(slot, signature);
+    } else {
+      this.finality.track(signature, slot);
+      if (events.length > 0) this.unsettled.set(signature, printed);
+    }
   }
 
   /**
-   * Scan recent blocks for past events
+   * Promote or retract confirmed transactions whose fate is now known
    */
-  async scanRecentBlocks() {
-    const blockCount = hoursToBlocks(this.scanHours);
-    console.log(`🔍 Scanning last ${this.scanHours} hour(s) (${blockCount} blocks) for events...`);
-
+  async pollFinality() {
+    let updates: CommitmentUpdate[];
     try {
-      const currentSlot = await this.connection.getSlot();
-      console.log(`🎰 Current slot: ${currentSlot}`);
-
-      for (let i = 0; i < blockCount; i++) {
-        const slot = currentSlot - i;
-        try {
-          console.log(`📥 Fetching block ${i + 1}/${blockCount} (slot: ${slot})`);
-
-          const block = await this.connection.getBlock(slot, {
-            commitment: "confirmed",
-            maxSupportedTransactionVersion: 0
-          });
-
-          if (block && block.transactions) {
-            console.log(`📋 Block ${slot} has ${block.transactions.length} transactions`);
-
-            for (const tx of block.transactions) {
-              if (tx.transaction && tx.meta && tx.meta.logMessages) {
-                // Check if this transaction involves our program
-                const hasOurProgram = tx.meta.logMessages.some(log =>
-                  log.includes("4PonUp1nPEzDPnRMPjTqufLT3f37QuBJGk1CVnsTXx7x")
-                );
-
-                if (hasOurProgram) {
-                  const signature = tx.transaction.signatures[0];
-                  console.log(`🎯 Found transaction with our program: ${signature.substring(0, 16)}...`);
-                  this.parseTransactionLogs(tx as any, signature);
-                }
-              }
-            }
-          }
+      updates = await this.finality.poll();
+    } catch (error) {
+      this.metrics?.rpcErrors.inc({ operation: "finality" });
+      this.logger.error("❌ Error polling finality:", error);
+      return;
+    }
 
-          // Add delay to avoid rate limits
-          if (i < blockCount - 1) {
-            await new Promise(resolve => setTimeout(resolve, 300));
-          }
-        } catch (error) {
-          console.log(`⚠️  Error fetching block ${slot}:`, error);
-        }
+    for (const update of updates) {
+      if (update.status === "finalized") {
+        await this.checkpoints?.advance(update.slot, update.signature);
+      }
+      const printed = this.unsettled.get(update.signature);
+      if (printed === undefined) continue;
+      this.unsettled.delete(update.signature);
+      if (printed) {
+        process.stdout.write(formatCommitmentUpdate(update, this.format) + "\n");
+      }
+      for (const sink of this.sinks) {
+        await sink.commitmentChanged?.(update);
       }
-    } catch (error) {
-      console.error("❌ Error scanning recent blocks:", error);
     }
   }
 
   /**
-   * Parse transaction logs for events
+   * Start listening for new events. With `fromSlot`, transactions from that
+   * slot on are backfilled once subscribed, closing the gap after a backfill.
    */
-  private parseTransactionLogs(tx: ParsedTransactionWithMeta, signature: string) {
-    if (!tx.meta || !tx.meta.logMessages) return;
-
-    const logs = tx.meta.logMessages;
-    const slot = tx.slot;
-
-    console.log(`🔍 Parsing transaction ${signature} with ${logs.length} logs`);
-
-    // Create unique key for this transaction to prevent duplicate processing
-    const eventKey = `${signature}-${slot}`;
-    if (this.processedEvents.has(eventKey)) {
-      console.log(`⚠️  Transaction already processed, skipping`);
+  async startListening(fromSlot?: number) {
+    if (this.subscription) {
+      this.logger.log("⚠️  Already listening for events");
       return;
     }
 
-    let eventFound = false;
-
-    // Try to parse all logs first with the event parser
-    try {
-      const events = this.eventParser.parseLogs(logs);
+    this.logger.log("🎧 Starting event listener...");
+    this.subscription = new ResilientLogSubscription(
+      () => new Connection(this.network.rpcUrl, "confirmed"),
+      this.network.programId,
+      (tx) => this.parseTransactionLogs(tx.logs, tx.signature, tx.slot, tx.blockTime, tx.commitment),
+      { onEvent: (event) => this.logSubscriptionEvent(event) }
+    );
+    await this.subscription.start(fromSlot);
+    this.finalityTimer = setInterval(() => this.pollFinality(), FINALITY_POLL_SECONDS * 1000);
+
+    this.logger.log("✅ Event listener started successfully");
+    this.logger.log(`📡 Listening for events from program: ${this.network.programId.toBase58()}`);
+    this.logger.log("🔄 Waiting for new events... (Press Ctrl+C to stop)");
+  }
 
-      for (const event of events) {
-        console.log(`✅ Found event: ${event.name}`);
-        this.displayEvent(event.name, event.data, signature, slot);
-        eventFound = true;
-      }
-    } catch (error) {
-      console.log(`⚠️  Error parsing events from logs: ${error}`);
+  private logSubscriptionEvent(event: SubscriptionEvent) {
+    switch (event.type) {
+      case "subscribed":
+        if (event.attempt > 1) this.logger.log(`🔌 Resubscribed (attempt ${event.attempt})`);
+        break;
+      case "stale":
+        this.metrics?.reconnects.inc();
+        this.logger.log(`💤 No notifications for ${Math.round(event.silentMs / 1000)}s, resubscribing...`);
+        break;
+      case "gap-filled":
+        this.logger.log(`🧩 Gap fill from slot ${event.fromSlot}: ${event.transactions} transaction(s)`);
+        break;
+      case "error":
+        this.metrics?.rpcErrors.inc({ operation: "subscription" });
+        this.logger.error("❌ Subscription error:", event.error);
+        break;
     }
+  }
 
-    // If no events found with Anchor parser, try manual Borsh parsing
-    if (!eventFound) {
-      for (const log of logs) {
-        if (log.includes("Program data:")) {
-          console.log(`📋 Found program data log: ${log.substring(0, 100)}...`);
-          const manualEvent = this.tryBorshEventParsing(log, signature, slot);
-          if (manualEvent) {
-            eventFound = true;
-          }
-        }
-      }
+  /**
+   * Stop listening for events
+   */
+  async stopListening() {
+    if (!this.subscription) {
+      this.logger.log("⚠️  Not currently listening");
+      return;
     }
 
-    // Mark as processed if we found any events
-    if (eventFound) {
-      this.processedEvents.add(eventKey);
-    }
+    await this.subscription.stop();
+    this.subscription = null;
+    this.logger.log("🛑 Event listener stopped");
   }
 
   /**
-   * Borsh-based event parsing
+   * Periodically compare the projection's open escrows with their on-chain
+   * accounts and report any divergence
    */
-  private tryBorshEventParsing(log: string, signature: string, slot: number): boolean {
-    try {
-      const base64Data = log.split("Program data: ")[1];
-      if (!base64Data) return false;
-
-      const eventData = Buffer.from(base64Data, 'base64');
-      console.log(`🔍 Borsh parsing event data (${eventData.length} bytes): ${eventData.toString('hex').substring(0, 32)}...`);
-
-      // Check for EscrowCreated discriminator
-      if (eventData.length >= 8) {
-        const discriminator = eventData.subarray(0, 8);
-        const escrowCreatedDiscriminator = EVENT_DISCRIMINATORS.EscrowCreated;
-
-        if (discriminator.equals(escrowCreatedDiscriminator)) {
-          console.log(`✅ Found EscrowCreated event via Borsh parsing`);
-
-          try {
-            // Parse the event data using Borsh
-            const parsedEvent = this.parseEscrowCreatedEvent(eventData);
-            this.displayEvent("EscrowCreated", parsedEvent, signature, slot);
-            return true;
-          } catch (parseError) {
-            console.log(`⚠️  Borsh parsing failed: ${parseError}`);
-            // Fallback to simple display
-            this.displaySimpleEvent("EscrowCreated", signature, slot, eventData.length, discriminator);
-            return true;
-          }
+  startVerifying(projection: EscrowProjection, intervalSeconds: number) {
+    const idl = require("../target/idl/localsolana_contracts.json");
+    const program = new anchor.Program<LocalsolanaContracts>(
+      { ...idl, address: this.network.programId.toBase58() },
+      { connection: this.connection }
+    );
+
+    const verify = async () => {
+      try {
+        const divergences = await projection.verify((address) =>
+          program.account.escrow.fetchNullable(address)
+        );
+        for (const d of divergences) {
+          this.logger.log(`🚩 Divergence on ${d.address.toBase58()}: ${d.field} projected ${d.projected}, on chain ${d.onChain}`);
         }
+        this.logger.log(`🔎 Verified ${projection.open().length} open escrow(s), ${divergences.length} divergence(s)`);
+      } catch (error) {
+        this.metrics?.rpcErrors.inc({ operation: "verify" });
+        this.logger.error("❌ Error verifying projection:", error);
       }
-    } catch (error) {
-      console.log(`⚠️  Borsh parsing failed: ${error}`);
-    }
-    return false;
+    };
+    this.verifyTimer = setInterval(verify, intervalSeconds * 1000);
   }
 
   /**
-   * Parse EscrowCreated event using BorshCoder
+   * Stop listening and release sinks (database handles, queues)
    */
-  private parseEscrowCreatedEvent(eventData: Buffer): any {
-    try {
-      // BorshCoder expects the full event data including discriminator
-      const decoded = this.borshCoder.events.decode(eventData.toString('base64'));
-
-      return decoded;
-    } catch (error) {
-      console.log(`⚠️  BorshCoder decoding failed: ${error}`);
-      throw error;
+  async close() {
+    if (this.verifyTimer) {
+      clearInterval(this.verifyTimer);
+      this.verifyTimer = null;
+    }
+    if (this.finalityTimer) {
+      clearInterval(this.finalityTimer);
+      this.finalityTimer = null;
+    }
+    if (this.subscription) {
+      await this.stopListening();
+    }
+    for (const sink of this.sinks) {
+      await sink.close?.();
     }
   }
 
   /**
-   * Display a simple event when full parsing fails
+   * Load the persisted checkpoint; returns the backfill range that resumes
+   * right after it, or null if there is none
    */
-  private displaySimpleEvent(eventName: string, signature: string, slot: number, dataLength: number, discriminator: Buffer) {
-    console.log("\n" + "=".repeat(80));
-    console.log(`🎯 EVENT: ${eventName} (Simple Parse)`);
-    console.log(`📝 Signature: ${signature}`);
-    console.log(`🎰 Slot: ${slot}`);
-    console.log(`⏰ Time: ${new Date().toISOString()}`);
-    console.log("-".repeat(80));
-    console.log(`🔍 Event detected but full parsing failed`);
-    console.log(`📊 Raw data length: ${dataLength} bytes`);
-    console.log(`🔐 Discriminator: ${discriminator.toString('hex')}`);
-    console.log("=".repeat(80));
+  async resumeRange(): Promise<BackfillRange | null> {
+    const checkpoint = this.checkpoints ? await this.checkpoints.load() : null;
+    if (!checkpoint) return null;
+    this.logger.log(`📍 Checkpoint at slot ${checkpoint.slot} (${checkpoint.signature})`);
+    return { afterSignature: checkpoint.signature };
   }
 
   /**
-   * Start listening for new events
+   * Newest slot the listener is known to be caught up to: the latest
+   * processed transaction, or the live subscription's heartbeat if newer
    */
-  async startListening() {
-    if (this.isListening) {
-      console.log("⚠️  Already listening for events");
-      return;
-    }
+  get caughtUpSlot(): number | null {
+    const slots = [this.lastProcessedSlot, this.subscription?.tip ?? null].filter(
+      (slot): slot is number => slot !== null
+    );
+    return slots.length > 0 ? Math.max(...slots) : null;
+  }
 
-    console.log("🎧 Starting event listener...");
-    this.isListening = true;
+  /**
+   * Get current slot for reference
+   */
+  async getCurrentSlot(): Promise<number> {
+    return await this.connection.getSlot();
+  }
+}
 
-    try {
-      this.subscriptionId = this.connection.onLogs(
-        PROGRAM_ID,
-        (logs, context) => {
-          this.parseTransactionLogs(
-            { slot: context.slot, meta: { logMessages: logs.logs } } as any,
-            logs.signature
-          );
-        },
-        "confirmed"
-      );
+/**
+ * Parse a time argument: ISO date or unix seconds
+ */
+function parseTime(value: string): number {
+  const seconds = /^\d+$/.test(value) ? Number(value) : Date.parse(value) / 1000;
+  if (isNaN(seconds)) {
+    throw new Error(`Invalid time: ${value}`);
+  }
+  return Math.floor(seconds);
+}
 
-      console.log("✅ Event listener started successfully");
-      console.log(`📡 Listening for events from program: ${PROGRAM_ID.toBase58()}`);
-      console.log("🔄 Waiting for new events... (Press Ctrl+C to stop)");
-    } catch (error) {
-      console.error("❌ Error starting event listener:", error);
-      this.isListening = false;
+function describeRange(range: BackfillRange): string {
+  const parts: string[] = [];
+  if (range.startTime !== undefined) parts.push(`since ${new Date(range.startTime * 1000).toISOString()}`);
+  if (range.endTime !== undefined) parts.push(`until ${new Date(range.endTime * 1000).toISOString()}`);
+  if (range.startSlot !== undefined) parts.push(`from slot ${range.startSlot}`);
+  if (range.endSlot !== undefined) parts.push(`to slot ${range.endSlot}`);
+  if (range.afterSignature) parts.push(`after ${range.afterSignature}`);
+  return parts.join(", ") || "for all history";
+}
+
+interface CliOptions {
+  cluster: ClusterName;
+  /** Explicit backfill range, or null to resume from the checkpoint */
+  range: BackfillRange | null;
+  checkpointFile: string | null;
+  dbFile: string | null;
+  verifyInterval: number | null;
+  metricsPort: number | null;
+  ssePort: number | null;
+  webhooks: WebhookEndpoint[];
+  deadLetterFile: string;
+  format: OutputFormat;
+  filter: EventFilterCriteria;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseCliOptions(args: string[]): CliOptions {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      cluster: { type: "string" },
+      since: { type: "string" },
+      until: { type: "string" },
+      "from-slot": { type: "string" },
+      "to-slot": { type: "string" },
+      "from-signature": { type: "string" },
+      checkpoint: { type: "string" },
+      "no-checkpoint": { type: "boolean" },
+      db: { type: "string" },
+      "verify-interval": { type: "string" },
+      "metrics-port": { type: "string" },
+      "sse-port": { type: "string" },
+      webhook: { type: "string", multiple: true },
+      "webhook-secret": { type: "string" },
+      "webhook-events": { type: "string" },
+      "dead-letter": { type: "string" },
+      format: { type: "string" },
+      "escrow-id": { type: "string", multiple: true },
+      "trade-id": { type: "string", multiple: true },
+      escrow: { type: "string", multiple: true },
+      participant: { type: "string", multiple: true },
+      event: { type: "string", multiple: true },
+    },
+  });
+
+  const range: BackfillRange = {};
+  if (values.since) range.startTime = parseTime(values.since);
+  if (values.until) range.endTime = parseTime(values.until);
+  if (values["from-slot"]) range.startSlot = parseInt(values["from-slot"], 10);
+  if (values["to-slot"]) range.endSlot = parseInt(values["to-slot"], 10);
+  if (values["from-signature"]) range.afterSignature = values["from-signature"];
+
+  if (positionals.length > 0) {
+    const scanHours = parseFloat(positionals[0]);
+    if (isNaN(scanHours) || scanHours <= 0) {
+      throw new Error("Hours must be a positive number");
     }
+    range.startTime = hoursAgo(scanHours);
   }
 
-  /**
-   * Stop listening for events
-   */
-  async stopListening() {
-    if (!this.isListening || this.subscriptionId === null) {
-      console.log("⚠️  Not currently listening");
-      return;
+  const webhookUrls = values.webhook ?? [];
+  const secret = values["webhook-secret"] ?? process.env.WEBHOOK_SECRET;
+  if (webhookUrls.length > 0 && !secret) {
+    throw new Error("--webhook requires --webhook-secret or WEBHOOK_SECRET");
+  }
+  const format = (values.format ?? "pretty") as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`Unknown format: ${format} (expected ${OUTPUT_FORMATS.join(", ")})`);
+  }
+  for (const id of [...(values["escrow-id"] ?? []), ...(values["trade-id"] ?? [])]) {
+    if (!/^\d+$/.test(id)) {
+      throw new Error(`Invalid id: ${id}`);
     }
+  }
+  const metricsPort = values["metrics-port"] ?? process.env.METRICS_PORT;
+  if (metricsPort && !/^\d+$/.test(metricsPort)) {
+    throw new Error(`Invalid metrics port: ${metricsPort}`);
+  }
+  const ssePort = values["sse-port"] ?? process.env.SSE_PORT;
+  if (ssePort && !/^\d+$/.test(ssePort)) {
+    throw new Error(`Invalid SSE port: ${ssePort}`);
+  }
+  const events = values["webhook-events"] ? parseEventNames(values["webhook-events"]) : undefined;
+
+  return {
+    cluster: parseClusterName(values.cluster ?? process.env.CLUSTER ?? DEFAULT_CLUSTER),
+    range: Object.keys(range).length > 0 ? range : null,
+    checkpointFile: values["no-checkpoint"] ? null : values.checkpoint ?? DEFAULT_CHECKPOINT_FILE,
+    dbFile: values.db ?? process.env.LISTENER_DB_FILE ?? null,
+    verifyInterval: values["verify-interval"] ? parseFloat(values["verify-interval"]) : null,
+    metricsPort: metricsPort ? parseInt(metricsPort, 10) : null,
+    ssePort: ssePort ? parseInt(ssePort, 10) : null,
+    webhooks: webhookUrls.map((url) => ({ url, secret: secret!, events })),
+    deadLetterFile: values["dead-letter"] ?? DEFAULT_DEAD_LETTER_FILE,
+    format,
+    filter: {
+      escrowIds: values["escrow-id"],
+      tradeIds: values["trade-id"],
+      objectIds: values.escrow?.map((address) => new PublicKey(address)),
+      participants: values.participant?.map((address) => new PublicKey(address)),
+      events: values.event ? parseEventNames(values.event.join(",")) : undefined,
+    },
+  };
+}
 
-    try {
-      await this.connection.removeOnLogsListener(this.subscriptionId);
-      this.subscriptionId = null;
-      this.isListening = false;
-      console.log("🛑 Event listener stopped");
-    } catch (error) {
-      console.error("❌ Error stopping event listener:", error);
+function parseEventNames(list: string): EscrowEventName[] {
+  return list.split(",").map((name) => {
+    const trimmed = name.trim();
+    if (!ESCROW_EVENT_NAMES.includes(trimmed as EscrowEventName)) {
+      throw new Error(`Unknown event: ${trimmed}`);
     }
-  }
+    return trimmed as EscrowEventName;
+  });
+}
 
-  /**
-   * Get current slot for reference
-   */
-  async getCurrentSlot(): Promise<number> {
-    return await this.connection.getSlot();
-  }
+function hoursAgo(hours: number): number {
+  return Math.floor(Date.now() / 1000 - hours * SECONDS_PER_HOUR);
 }
 
 async function main() {
   // Parse command line arguments
-  const args = process.argv.slice(2);
-  const scanHours = args.length > 0 ? parseFloat(args[0]) : 1;
-
-  // Validate input
-  if (isNaN(scanHours) || scanHours <= 0) {
-    console.error("❌ Error: Hours must be a positive number");
-    console.log("Usage: npm run event-listener [hours]");
-    console.log("Example: npm run event-listener 24  # Scan last 24 hours");
+  let options: CliOptions;
+  try {
+    options = parseCliOptions(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+    console.error("Usage: npm run event-listener [hours] [--cluster localnet|devnet|mainnet] [--since <time>] [--until <time>] [--from-slot <slot>] [--to-slot <slot>] [--from-signature <sig>] [--checkpoint <file> | --no-checkpoint] [--db <file>] [--verify-interval <sec>] [--metrics-port <port>] [--sse-port <port>] [--webhook <url> ...] [--webhook-secret <key>] [--webhook-events <names>] [--dead-letter <file>] [--format ndjson|json|pretty] [--escrow-id <id>] [--trade-id <id>] [--escrow <address>] [--participant <pubkey>] [--event <name>]");
+    console.error("Example: npm run event-listener 24  # Backfill the last 24 hours");
     process.exit(1);
   }
 
-  const blockCount = hoursToBlocks(scanHours);
+  // Keep stdout for events only, so it can be piped into jq; status messages
+  // go through the logger
+  const logger = statusLogger(options.format);
 
-  console.log("🚀 Solana Escrow Event Listener");
-  console.log("=" .repeat(50));
-  console.log(`🌐 RPC Endpoint: ${RPC_ENDPOINT}`);
-  console.log(`📋 Program ID: ${PROGRAM_ID.toBase58()}`);
-  console.log(`⏰ Scanning: ${scanHours} hour(s) (${blockCount} blocks)`);
-  console.log("=" .repeat(50));
+  const network = loadNetworkProfile(options.cluster);
+  const store = options.dbFile ? new SqliteEventStore(options.dbFile) : null;
+  let checkpointStore: CheckpointStore | undefined;
+  if (options.checkpointFile) {
+    checkpointStore = store ? new SqliteCheckpointStore(store) : new FileCheckpointStore(options.checkpointFile);
+  }
 
-  const listener = new EventListener(scanHours);
+  const sinks: EventSink[] = store ? [store] : [];
+  // After the store, so a stream resuming from it never misses an event
+  let eventStream: EventStreamHub | null = null;
+  if (options.ssePort) {
+    eventStream = store
+      ? new EventStreamHub({ store, coder: new BorshCoder(require("../target/idl/localsolana_contracts.json")) })
+      : new EventStreamHub();
+    sinks.push(eventStream);
+  }
+  let projection: EscrowProjection | null = null;
+  if (options.verifyInterval || options.metricsPort) {
+    projection = new EscrowProjection();
+    if (store) {
+      const coder = new BorshCoder(require("../target/idl/localsolana_contracts.json"));
+      for (const event of store.replay(coder)) {
+        projection.handle(event);
+      }
+      logger.log(`🧮 Rebuilt projection of ${projection.all().length} escrow(s) from ${options.dbFile}`);
+    }
+    sinks.push(projection);
+  }
 
-  // Handle graceful shutdown
-  process.on('SIGINT', async () => {
-    console.log("\n🛑 Shutting down event listener...");
-    await listener.stopListening();
+  if (options.webhooks.length > 0) {
+    sinks.push(
+      new WebhookDispatcher(options.webhooks, {
+        deadLetters: new FileDeadLetterQueue(options.deadLetterFile),
+        onResult: (result) => {
+          if (!result.delivered) {
+            logger.error(`❌ Webhook ${result.url} failed for ${result.idempotencyKey} after ${result.attempts} attempt(s): ${result.error}`);
+          }
+        },
+        onError: (error) => logger.error("❌ Webhook delivery error:", error),
+      })
+    );
+  }
+
+  const registry = new MetricsRegistry();
+  const metrics = options.metricsPort ? createListenerMetrics(registry) : undefined;
+
+  const listener = new EventListener({ network, checkpointStore, sinks, format: options.format, filter: options.filter, metrics, logger });
+
+  if (metrics && options.metricsPort) {
+    if (projection) collectProjectionMetrics(registry, metrics, projection);
+    registry.addCollector(async () => {
+      const caughtUp = listener.caughtUpSlot;
+      try {
+        const tip = await listener.getCurrentSlot();
+        if (caughtUp !== null) metrics.slotLag.set(Math.max(0, tip - caughtUp));
+      } catch (error) {
+        metrics.rpcErrors.inc({ operation: "getSlot" });
+      }
+    });
+    await startMetricsServer(registry, options.metricsPort);
+  }
+  if (eventStream && options.ssePort) {
+    await startEventStreamServer(eventStream, options.ssePort);
+  }
+
+  // An explicit range wins; otherwise resume, or fall back to the last hour.
+  // The checkpoint is loaded either way, so backfilling an older range
+  // cannot move it back.
+  const resume = await listener.resumeRange();
+  const range = options.range ?? resume ?? { startTime: hoursAgo(1) };
+
+  logger.log("🚀 Solana Escrow Event Listener");
+  logger.log("=" .repeat(50));
+  logger.log(`🌐 Cluster: ${network.cluster} (${network.rpcUrl})`);
+  logger.log(`📋 Program ID: ${network.programId.toBase58()}`);
+  logger.log(`⏰ Backfill: ${describeRange(range)}`);
+  logger.log(`📍 Checkpoint: ${!options.checkpointFile ? "disabled" : store ? options.dbFile : options.checkpointFile}`);
+  logger.log(`🗄️  Database: ${options.dbFile ?? "disabled"}`);
+  logger.log(`🔎 Filter: ${Object.values(options.filter).some((v) => v) ? JSON.stringify(options.filter) : "none"}`);
+  logger.log(`📈 Metrics: ${options.metricsPort ? `http://0.0.0.0:${options.metricsPort}/metrics` : "disabled"}`);
+  logger.log(`📡 SSE: ${options.ssePort ? `http://0.0.0.0:${options.ssePort}/events${store ? " (resumable)" : ""}` : "disabled"}`);
+  logger.log(`🪝 Webhooks: ${options.webhooks.map((w) => w.url).join(", ") || "disabled"}`);
+  logger.log("=" .repeat(50));
+
+
+  // Handle graceful shutdown; closing flushes queued webhook deliveries,
+  // which the checkpoint may already have moved past
+  const shutdown = async () => {
+    logger.log("\n🛑 Shutting down event listener...");
+    await listener.close();
     process.exit(0);
-  });
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
 
   try {
     // Get current slot
     const currentSlot = await listener.getCurrentSlot();
-    console.log(`🎰 Current Slot: ${currentSlot}`);
+    logger.log(`🎰 Current Slot: ${currentSlot}`);
 
-    // Scan for recent events first
-    await listener.scanRecentBlocks();
+    // Backfill past events first
+    await listener.backfill(range);
 
-    // Start listening for new events
-    await listener.startListening();
+    // Start listening for new events, filling in whatever landed during the backfill
+    await listener.startListening(currentSlot);
+    if (projection && options.verifyInterval) {
+      listener.startVerifying(projection, options.verifyInterval);
+    }
 
     // Keep the process alive
     await new Promise(() => {}); // This will run indefinitely
   } catch (error) {
-    console.error("❌ Fatal error:", error);
+    logger.error("❌ Fatal error:", error);
     process.exit(1);
   }
 }
@@ -0,0 +1,163 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Arbitrator Fee Report
+ *
+ * Accounting export from the event listener's SQLite database: fee revenue,
+ * forfeited dispute bonds, principal volume and refunded fees per UTC day or
+ * month, with the signature of every settlement counted (rules in
+ * scripts/listener/fee-report.ts). Amounts are in base units (6 decimals for
+ * USDC). Runs fully offline; the report goes to stdout.
+ *
+ * Usage:
+ *   npm run fee-report -- --db <file> [options]
+ *   # or
+ *   ts-node scripts/fee-report.ts --db <file> [options]
+ *
+ * Options:
+ *   --db <file>               Listener database (required)
+ *   --period <period>         day | month (default: day)
+ *   --format <format>         csv | json (default: csv)
+ *   --from <YYYY-MM-DD>       First UTC day to include
+ *   --to <YYYY-MM-DD>         Last UTC day to include
+ *   --entries                 CSV of the individual settlements instead of the
+ *                             per-period summary (JSON always has both)
+ *   --include-confirmed       Count events not finalized yet
+ *
+ * Examples:
+ *   npm run fee-report -- --db events.db --period month > fees-monthly.csv
+ *   npm run fee-report -- --db events.db --from 2025-06-01 --to 2025-06-30 --entries
+ *   npm run fee-report -- --db events.db --format json | jq '.totals'
+ */
+
+import { BorshCoder } from "@coral-xyz/anchor";
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import { parseArgs } from "util";
+import {
+  buildFeeReport,
+  feeLedgerCsv,
+  feeReportCsv,
+  REPORT_PERIODS,
+  ReportPeriod,
+} from "./listener/fee-report";
+import { SqliteEventStore } from "./listener/sqlite-store";
+
+dotenv.config();
+
+const REPORT_FORMATS = ["csv", "json"] as const;
+
+type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+interface CliOptions {
+  dbFile: string;
+  period: ReportPeriod;
+  format: ReportFormat;
+  from: string | null;
+  to: string | null;
+  entries: boolean;
+  includeConfirmed: boolean;
+}
+
+function parseChoice<T extends string>(
+  value: string,
+  choices: readonly T[],
+  what: string
+): T {
+  if (!choices.includes(value as T)) {
+    throw new Error(
+      `Unknown ${what}: ${value} (expected ${choices.join(", ")})`
+    );
+  }
+  return value as T;
+}
+
+function parseDay(value: string | undefined, flag: string): string | null {
+  if (value === undefined) return null;
+  if (
+    !/^\d{4}-\d{2}-\d{2}$/.test(value) ||
+    isNaN(Date.parse(`${value}T00:00:00Z`))
+  ) {
+    throw new Error(`Invalid ${flag} date: ${value} (expected YYYY-MM-DD)`);
+  }
+  return value;
+}
+
+function parseCliOptions(args: string[]): CliOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      db: { type: "string" },
+      period: { type: "string" },
+      format: { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      entries: { type: "boolean" },
+      "include-confirmed": { type: "boolean" },
+    },
+  });
+
+  const dbFile = values.db;
+  if (!dbFile) throw new Error("--db is required");
+  if (!fs.existsSync(dbFile)) throw new Error(`Database not found: ${dbFile}`);
+
+  const options: CliOptions = {
+    dbFile,
+    period: parseChoice(values.period ?? "day", REPORT_PERIODS, "period"),
+    format: parseChoice(values.format ?? "csv", REPORT_FORMATS, "format"),
+    from: parseDay(values.from, "--from"),
+    to: parseDay(values.to, "--to"),
+    entries: values.entries ?? false,
+    includeConfirmed: values["include-confirmed"] ?? false,
+  };
+  if (options.from && options.to && options.from > options.to) {
+    throw new Error("--from is after --to");
+  }
+  if (options.entries && options.format === "json") {
+    throw new Error("--entries applies to CSV; JSON always lists entries");
+  }
+  return options;
+}
+
+function main() {
+  let options: CliOptions;
+  try {
+    options = parseCliOptions(process.argv.slice(2));
+  } catch (error) {
+    console.error(
+      `❌ Error: ${error instanceof Error ? error.message : error}`
+    );
+    console.error(
+      "Usage: npm run fee-report -- --db <file> [--period day|month] [--format csv|json] [--from <date>] [--to <date>] [--entries] [--include-confirmed]"
+    );
+    process.exit(1);
+  }
+
+  const store = new SqliteEventStore(options.dbFile);
+  const idl = require("../target/idl/localsolana_contracts.json");
+  try {
+    const report = buildFeeReport(store.replay(new BorshCoder(idl)), options);
+    if (options.format === "json") {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      process.stdout.write(
+        options.entries ? feeLedgerCsv(report.entries) : feeReportCsv(report)
+      );
+    }
+    // Summary on stderr, so redirected output stays clean
+    console.error(
+      `📊 ${report.totals.settlements} settlement(s), fee revenue ${report.totals.feeRevenue}`
+    );
+  } finally {
+    store.close();
+  }
+}
+
+if (require.main === module) {
+  try {
+    main();
+  } catch (error) {
+    console.error("Script failed:", error);
+    process.exit(1);
+  }
+}
@@ -8,15 +8,28 @@
  * 2. FiatMarkedPaid - Updates a boolean flag
  *
  * These are the most lightweight events that require minimal setup.
+ *
+ * Usage:
+ *   npm run generate-events -- [--cluster localnet|devnet|mainnet]
+ *
+ * The cluster defaults to $CLUSTER, else devnet. The seller pays the fees.
  */
 
 import * as anchor from "@coral-xyz/anchor";
 import { Program, BN } from "@coral-xyz/anchor";
-import { Keypair, PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { Connection, Keypair, PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.js";
 import * as dotenv from "dotenv";
 import * as fs from "fs";
-import * as path from "path";
+import { parseArgs } from "util";
 import { LocalsolanaContracts } from "../target/types/localsolana_contracts";
+import { parseEscrowError } from "../sdk/errors";
+import {
+  DEFAULT_CLUSTER,
+  explorerLink,
+  loadNetworkProfile,
+  parseClusterName,
+} from "../sdk/networks";
+import { deriveEscrowPDA } from "../sdk/pda";
 
 dotenv.config();
 
@@ -30,28 +43,13 @@ const loadKeypair = (filePath: string): Keypair => {
   return Keypair.fromSecretKey(new Uint8Array(keypairData));
 };
 
-// PDA derivation functions
-const deriveEscrowPDA = (escrowId: any, tradeId: any): [any, number] =>
-  PublicKey.findProgramAddressSync(
-    [Buffer.from("escrow"), escrowId.toArrayLike(Buffer, "le", 8), tradeId.toArrayLike(Buffer, "le", 8)],
-    new PublicKey("4PonUp1nPEzDPnRMPjTqufLT3f37QuBJGk1CVnsTXx7x")
-  );
-
 async function main() {
   console.log("🚀 Starting Simple Event Generator");
 
-  // Setup
-  const provider = anchor.AnchorProvider.env();
-  anchor.setProvider(provider);
-  const program = anchor.workspace.LocalsolanaContracts as any;
-
-  // Check if we're on devnet
-  const isDevnet = provider.connection.rpcEndpoint.includes('devnet') ||
-                   provider.connection.rpcEndpoint.includes('api.mainnet-beta.com') === false;
-
-  console.log("🌐 Network Configuration:");
-  console.log("  RPC Endpoint:", provider.connection.rpcEndpoint);
-  console.log("  Network:", isDevnet ? "Devnet" : "Mainnet");
+  const { values } = parseArgs({ options: { cluster: { type: "string" } } });
+  const network = loadNetworkProfile(
+    parseClusterName(values.cluster ?? process.env.CLUSTER ?? DEFAULT_CLUSTER)
+  );
 
   // Load existing accounts from environment variables
   const seller = loadKeypair(process.env.SELLER_KEYPAIR!);
@@ -61,6 +59,24 @@ async function main() {
   const sellerTokenAddress = new PublicKey(process.env.SELLER_TOKEN_ADDRESS!);
   const buyerTokenAddress = new PublicKey(process.env.BUYER_TOKEN_ADDRESS!);
 
+  // Setup
+  const provider = new anchor.AnchorProvider(
+    new Connection(network.rpcUrl, "confirmed"),
+    new anchor.Wallet(seller),
+    { commitment: "confirmed" }
+  );
+  anchor.setProvider(provider);
+  const idl = require("../target/idl/localsolana_contracts.json");
+  const program = new Program<LocalsolanaContracts>(
+    { ...idl, address: network.programId.toBase58() },
+    provider
+  );
+
+  console.log("🌐 Network Configuration:");
+  console.log("  Cluster:", network.cluster);
+  console.log("  RPC Endpoint:", network.rpcUrl);
+  console.log("  Program ID:", network.programId.toBase58());
+
   console.log("📋 Using existing accounts:");
   console.log("  Seller:", sellerAddress.toBase58());
   console.log("  Buyer:", buyerAddress.toBase58());
@@ -93,7 +109,7 @@ async function main() {
   console.log("  Amount: 1 USDC");
 
   // Derive escrow PDA
-  const [escrowPDA] = deriveEscrowPDA(escrowId, tradeId);
+  const [escrowPDA] = deriveEscrowPDA(escrowId, tradeId, network.programId);
   console.log("  Escrow PDA:", escrowPDA.toBase58());
 
   try {
@@ -155,16 +171,15 @@ async function main() {
     }
 
     // Create block explorer link
-    const baseExplorerUrl = process.env.BLOCK_EXPLORER_DEVNET || "https://explorer.solana.com";
-    const transactionUrl = `${baseExplorerUrl}/tx/${createTx}?cluster=devnet`;
-    const escrowUrl = `${baseExplorerUrl}/address/${escrowPDA.toBase58()}?cluster=devnet`;
+    const transactionUrl = explorerLink(network, "tx", createTx);
+    const escrowUrl = explorerLink(network, "address", escrowPDA);
 
     console.log("\n📝 Summary:");
     console.log("✅ EscrowCreated event generated successfully");
     console.log("🔍 Check your event listener for the EscrowCreated event!");
-    console.log("\n🌐 Devnet Information:");
-    console.log("  RPC Endpoint:", provider.connection.rpcEndpoint);
-    console.log("  Program ID: 4PonUp1nPEzDPnRMPjTqufLT3f37QuBJGk1CVnsTXx7x");
+    console.log(`\n🌐 ${network.cluster} Information:`);
+    console.log("  RPC Endpoint:", network.rpcUrl);
+    console.log("  Program ID:", network.programId.toBase58());
     console.log("  Transaction:", createTx);
     console.log("\n🔗 Block Explorer Links:");
     console.log("  Transaction:", transactionUrl);
@@ -175,12 +190,16 @@ async function main() {
     console.log("   3. Find the 'Program data:' log (this contains the event)");
     console.log("   4. The event data is base64 encoded - your listener should decode it");
     console.log("\n🎯 Event Listener Info:");
-    console.log("   - Program ID: 4PonUp1nPEzDPnRMPjTqufLT3f37QuBJGk1CVnsTXx7x");
+    console.log("   - Program ID:", network.programId.toBase58());
     console.log("   - Event Type: EscrowCreated");
     console.log("   - Look for 'Program data:' logs in transaction details");
 
   } catch (error) {
     console.error("❌ Error generating events:", error);
+    const escrowError = parseEscrowError(error);
+    if (escrowError) {
+      console.error(`💡 ${escrowError.errorName}: ${escrowError.hint}`);
+    }
     throw error;
   }
 }
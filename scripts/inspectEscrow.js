@@ -1,12 +1,14 @@
-// node scripts/inspectEscrow.js [--escrow <escrowPDA>]
+// yarn inspect-escrow [--escrow <escrowPDA>]
+// Runs under ts-node (with allowJs) so it can share the seeds in sdk/pda.ts
 // Examples:
-//   node scripts/inspectEscrow.js                    # Inspect all escrow accounts
-//   node scripts/inspectEscrow.js --escrow <PDA>     # Inspect specific escrow account
+//   yarn inspect-escrow                    # Inspect all escrow accounts
+//   yarn inspect-escrow --escrow <PDA>     # Inspect specific escrow account
 
 import * as anchor from "@coral-xyz/anchor";
 import { PublicKey } from '@solana/web3.js';
 import * as token from "@solana/spl-token";
 import * as dotenv from 'dotenv';
+import { deriveEscrowTokenPDA } from "../sdk/pda";
 
 dotenv.config();
 
@@ -20,16 +22,16 @@ function parseArgs() {
   // Check for help flag
   if (args.includes('--help') || args.includes('-h')) {
     console.log(`
-Usage: node scripts/inspectEscrow.js [options]
+Usage: yarn inspect-escrow [options]
 
 Options:
   --escrow <PDA>    Inspect a specific escrow account by its PDA
   --help, -h        Show this help message
 
 Examples:
-  node scripts/inspectEscrow.js                           # Inspect all escrow accounts
-  node scripts/inspectEscrow.js --escrow <escrowPDA>      # Inspect specific escrow account
-  node scripts/inspectEscrow.js --help                    # Show this help message
+  yarn inspect-escrow                           # Inspect all escrow accounts
+  yarn inspect-escrow --escrow <escrowPDA>      # Inspect specific escrow account
+  yarn inspect-escrow --help                    # Show this help message
 `);
     process.exit(0);
   }
@@ -132,8 +134,8 @@ async function inspectEscrow() {
       let status = "Closed";
 
       try {
-        const [escrowTokenPDA] = PublicKey.findProgramAddressSync(
-          [Buffer.from("escrow_token"), escrowAddress.toBuffer()],
+        const [escrowTokenPDA] = deriveEscrowTokenPDA(
+          escrowAddress,
           program.programId
         );
 
@@ -210,8 +212,8 @@ async function inspectEscrow() {
       // Token Balance Information
       console.log("   ── Token Account ──");
       try {
-        const [escrowTokenPDA] = PublicKey.findProgramAddressSync(
-          [Buffer.from("escrow_token"), escrowAddress.toBuffer()],
+        const [escrowTokenPDA] = deriveEscrowTokenPDA(
+          escrowAddress,
           program.programId
         );
 
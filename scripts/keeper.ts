@@ -0,0 +1,244 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Arbitrator Keeper
+ *
+ * Sends the arbitrator-only instructions that nobody else can, once their
+ * deadline has passed:
+ *   auto-cancel        auto_cancel for escrows past the deposit deadline
+ *                      (Created) or past the fiat deadline without fiat paid
+ *                      (Funded); funds and rent go back to the seller
+ *   default-judgment   default_judgment for disputes the other party did not
+ *                      answer within 72 hours; the initiator gets the funds
+ *                      and their bond back
+ *
+ * Eligibility is checked against the cluster clock and re-checked right before
+ * each send, so running several keepers, or racing the parties, is safe.
+ *
+ * Usage:
+ *   npm run keeper -- <task> [options]
+ *   # or
+ *   ts-node scripts/keeper.ts <task> [options]
+ *
+ * Options:
+ *   --cluster <name>          localnet | devnet | mainnet (default: $CLUSTER, else devnet)
+ *   --keypair <file>          Arbitrator keypair, also the fee payer (default: $ARBITRATOR_KEYPAIR)
+ *   --dry-run                 Only report eligible escrows; no keypair needed
+ *   --once                    Run a single pass and exit
+ *   --interval <sec>          Seconds between passes (default: 60)
+ *   --record <file>           Append every outcome to a JSONL file
+ *
+ * Examples:
+ *   npm run keeper -- auto-cancel --dry-run --once
+ *   npm run keeper -- default-judgment --record keeper/default-judgments.jsonl
+ *   ARBITRATOR_KEYPAIR=~/keys/arbitrator.json npm run keeper -- auto-cancel --cluster devnet
+ */
+
+import * as anchor from "@coral-xyz/anchor";
+import { Connection, Keypair } from "@solana/web3.js";
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { parseArgs } from "util";
+import { LocalsolanaContracts } from "../target/types/localsolana_contracts";
+import { EscrowClient } from "../sdk/client";
+import {
+  DEFAULT_CLUSTER,
+  loadNetworkProfile,
+  NetworkProfile,
+  parseClusterName,
+} from "../sdk/networks";
+import {
+  AUTO_CANCEL_TASK,
+  DEFAULT_JUDGMENT_TASK,
+  EscrowKeeper,
+  KeeperOutcome,
+  KeeperTask,
+  outcomeRecord,
+} from "./listener/keeper";
+
+dotenv.config();
+
+const DEFAULT_INTERVAL_SECONDS = 60;
+
+const KEEPER_TASKS: Record<string, KeeperTask> = {
+  "auto-cancel": AUTO_CANCEL_TASK,
+  "default-judgment": DEFAULT_JUDGMENT_TASK,
+};
+
+interface CliOptions {
+  task: KeeperTask;
+  network: NetworkProfile;
+  keypairFile: string | null;
+  dryRun: boolean;
+  once: boolean;
+  interval: number;
+  recordFile: string | null;
+}
+
+function parseCliOptions(args: string[]): CliOptions {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      cluster: { type: "string" },
+      keypair: { type: "string" },
+      "dry-run": { type: "boolean" },
+      once: { type: "boolean" },
+      interval: { type: "string" },
+      record: { type: "string" },
+    },
+  });
+
+  const task = KEEPER_TASKS[positionals[0]];
+  if (!task) {
+    throw new Error(
+      `Unknown task: ${positionals[0] ?? "(none)"} (expected ${Object.keys(
+        KEEPER_TASKS
+      ).join(", ")})`
+    );
+  }
+  const interval = Number(values.interval ?? DEFAULT_INTERVAL_SECONDS);
+  if (!(interval > 0)) {
+    throw new Error(`Invalid interval: ${values.interval}`);
+  }
+  const keypairFile = values.keypair ?? process.env.ARBITRATOR_KEYPAIR ?? null;
+  if (!values["dry-run"] && !keypairFile) {
+    throw new Error(
+      "Sending requires --keypair or ARBITRATOR_KEYPAIR (or use --dry-run)"
+    );
+  }
+
+  return {
+    task,
+    network: loadNetworkProfile(
+      parseClusterName(values.cluster ?? process.env.CLUSTER ?? DEFAULT_CLUSTER)
+    ),
+    keypairFile,
+    dryRun: !!values["dry-run"],
+    once: !!values.once,
+    interval,
+    recordFile: values.record ?? null,
+  };
+}
+
+function loadKeypair(filePath: string): Keypair {
+  const resolved = filePath.replace(/^~(?=$|\/)/, os.homedir());
+  return Keypair.fromSecretKey(
+    new Uint8Array(JSON.parse(fs.readFileSync(resolved, "utf8")))
+  );
+}
+
+function logOutcome(outcome: KeeperOutcome) {
+  const detail = outcome.detail ? ` [${outcome.detail}]` : "";
+  const label = `${outcome.instruction} escrow ${outcome.escrowId} / trade ${
+    outcome.tradeId
+  } (${outcome.escrow.toBase58()})${detail}`;
+  switch (outcome.status) {
+    case "sent":
+      console.log(`✅ ${label}: ${outcome.signature}`);
+      break;
+    case "dry-run":
+      console.log(`🧪 ${label}: eligible (dry run, not sent)`);
+      break;
+    case "skipped":
+      console.log(`⏭️  ${label}: skipped, ${outcome.reason}`);
+      break;
+    case "failed":
+      console.error(`❌ ${label}: ${outcome.reason}`);
+      break;
+  }
+}
+
+async function main() {
+  let options: CliOptions;
+  try {
+    options = parseCliOptions(process.argv.slice(2));
+  } catch (error) {
+    console.error(
+      `❌ Error: ${error instanceof Error ? error.message : error}`
+    );
+    console.error(
+      `Usage: npm run keeper -- <${Object.keys(KEEPER_TASKS).join(
+        "|"
+      )}> [--cluster localnet|devnet|mainnet] [--keypair <file>] [--dry-run] [--once] [--interval <sec>] [--record <file>]`
+    );
+    process.exit(1);
+  }
+
+  const { network } = options;
+  const signer = options.keypairFile ? loadKeypair(options.keypairFile) : null;
+  if (signer && !signer.publicKey.equals(network.arbitrator)) {
+    console.log(
+      `⚠️  ${signer.publicKey.toBase58()} is not the program's arbitrator (${network.arbitrator.toBase58()}); no escrow will be eligible`
+    );
+  }
+
+  const connection = new Connection(network.rpcUrl, "confirmed");
+  const provider = new anchor.AnchorProvider(
+    connection,
+    new anchor.Wallet(signer ?? Keypair.generate()),
+    { commitment: "confirmed" }
+  );
+  const idl = require("../target/idl/localsolana_contracts.json");
+  const program = new anchor.Program<LocalsolanaContracts>(
+    { ...idl, address: network.programId.toBase58() },
+    provider
+  );
+  const client = new EscrowClient(program, network.usdcMint);
+
+  const { recordFile } = options;
+  if (recordFile) {
+    fs.mkdirSync(path.dirname(recordFile), { recursive: true });
+  }
+  const onOutcome = (outcome: KeeperOutcome) => {
+    logOutcome(outcome);
+    if (recordFile) {
+      fs.appendFileSync(
+        recordFile,
+        JSON.stringify(outcomeRecord(outcome)) + "\n"
+      );
+    }
+  };
+
+  const keeper = new EscrowKeeper(
+    client,
+    options.dryRun || !signer ? network.arbitrator : signer,
+    options.task,
+    {
+      dryRun: options.dryRun,
+      onOutcome,
+      onError: (error) => console.error("❌ Keeper run failed:", error),
+    }
+  );
+
+  console.log("🤖 Escrow Keeper");
+  console.log(
+    `🛠️  Task: ${options.task.instruction}${options.dryRun ? " (dry run)" : ""}`
+  );
+  console.log(`🌐 Cluster: ${network.cluster} (${network.rpcUrl})`);
+  console.log(`📋 Program ID: ${network.programId.toBase58()}`);
+  console.log(`⚖️  Arbitrator: ${keeper.arbitrator.toBase58()}`);
+  if (recordFile) console.log(`📝 Recording outcomes to ${recordFile}`);
+
+  if (options.once) {
+    const outcomes = await keeper.run();
+    console.log(`🏁 ${outcomes.length} eligible escrow(s)`);
+    process.exit(outcomes.some((o) => o.status === "failed") ? 1 : 0);
+  }
+
+  process.on("SIGINT", async () => {
+    console.log("\n🛑 Shutting down keeper...");
+    await keeper.stop();
+    process.exit(0);
+  });
+  keeper.start(options.interval * 1000);
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error("Script failed:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,135 @@
+/**
+ * Signature-driven backfill for the event listener
+ *
+ * Pages through `getSignaturesForAddress(programId)` (newest first, up to
+ * 1000 per call) with `before`/`until`, so only transactions that touched the
+ * program are fetched. The range can be bounded by time, by slot, or by a
+ * signature to resume from; results are yielded oldest first so consumers see
+ * events in program order.
+ */
+
+import {
+  ConfirmedSignatureInfo,
+  Connection,
+  Finality,
+  PublicKey,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+import { EventCommitment } from "./events";
+
+export interface BackfillRange {
+  /** Unix seconds, inclusive */
+  startTime?: number;
+  /** Unix seconds, inclusive */
+  endTime?: number;
+  startSlot?: number;
+  endSlot?: number;
+  /** Only signatures after this one (exclusive); used to resume */
+  afterSignature?: string;
+  /** Only signatures before this one (exclusive) */
+  beforeSignature?: string;
+}
+
+export interface BackfillOptions {
+  commitment?: Finality;
+  /** Signatures per getSignaturesForAddress call (max 1000) */
+  pageSize?: number;
+  /** Include transactions that failed on chain (default false) */
+  includeFailed?: boolean;
+}
+
+export interface BackfillTransaction {
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  logs: string[];
+  /** Status reported with the signature; "confirmed" ones still need tracking */
+  commitment: EventCommitment;
+}
+
+type SignatureSource = Pick<
+  Connection,
+  "getSignaturesForAddress" | "getTransaction"
+>;
+
+const isAfterRange = (info: ConfirmedSignatureInfo, range: BackfillRange) =>
+  (range.endSlot !== undefined && info.slot > range.endSlot) ||
+  (range.endTime !== undefined &&
+    info.blockTime != null &&
+    info.blockTime > range.endTime);
+
+const isBeforeRange = (info: ConfirmedSignatureInfo, range: BackfillRange) =>
+  (range.startSlot !== undefined && info.slot < range.startSlot) ||
+  (range.startTime !== undefined &&
+    info.blockTime != null &&
+    info.blockTime < range.startTime);
+
+/**
+ * Collect the program's signatures in `range`, oldest first
+ */
+export async function fetchProgramSignatures(
+  connection: SignatureSource,
+  programId: PublicKey,
+  range: BackfillRange = {},
+  options: BackfillOptions = {}
+): Promise<ConfirmedSignatureInfo[]> {
+  const limit = Math.min(options.pageSize ?? 1000, 1000);
+  const collected: ConfirmedSignatureInfo[] = [];
+  let before = range.beforeSignature;
+
+  for (;;) {
+    const page = await connection.getSignaturesForAddress(
+      programId,
+      { before, until: range.afterSignature, limit },
+      options.commitment ?? "confirmed"
+    );
+
+    for (const info of page) {
+      // Pages are newest first: once past the start of the range, stop
+      if (isBeforeRange(info, range)) return collected.reverse();
+      if (isAfterRange(info, range)) continue;
+      if (info.err && !options.includeFailed) continue;
+      collected.push(info);
+    }
+
+    if (page.length < limit) break;
+    before = page[page.length - 1].signature;
+  }
+
+  return collected.reverse();
+}
+
+/**
+ * Fetch each signature's transaction and yield its logs, oldest first
+ */
+export async function* backfillTransactions(
+  connection: SignatureSource,
+  programId: PublicKey,
+  range: BackfillRange = {},
+  options: BackfillOptions = {}
+): AsyncGenerator<BackfillTransaction> {
+  const signatures = await fetchProgramSignatures(
+    connection,
+    programId,
+    range,
+    options
+  );
+
+  for (const info of signatures) {
+    const tx: VersionedTransactionResponse | null =
+      await connection.getTransaction(info.signature, {
+        commitment: options.commitment ?? "confirmed",
+        maxSupportedTransactionVersion: 0,
+      });
+    if (!tx?.meta?.logMessages) continue;
+
+    yield {
+      signature: info.signature,
+      slot: tx.slot,
+      blockTime: tx.blockTime ?? info.blockTime ?? null,
+      logs: tx.meta.logMessages,
+      commitment:
+        info.confirmationStatus === "finalized" ? "finalized" : "confirmed",
+    };
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Listener checkpoints and duplicate suppression
+ *
+ * The listener records the last transaction it fully processed so a restart
+ * resumes with `until = signature` instead of rescanning or dropping events.
+ * Checkpoints only move forward in slot order.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+export interface Checkpoint {
+  slot: number;
+  signature: string;
+  /** ISO timestamp of the last write */
+  updatedAt: string;
+}
+
+export interface CheckpointStore {
+  load(): Promise<Checkpoint | null>;
+  save(checkpoint: Checkpoint): Promise<void>;
+}
+
+/**
+ * JSON file store; writes go to a temp file and are renamed into place so a
+ * crash mid-write never leaves a truncated checkpoint.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string) {}
+
+  async load(): Promise<Checkpoint | null> {
+    try {
+      const raw = await fs.promises.readFile(this.filePath, "utf8");
+      return JSON.parse(raw) as Checkpoint;
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  save(checkpoint: Checkpoint): Promise<void> {
+    // Serialize writes so an older checkpoint never lands after a newer one
+    const write = this.pending.then(async () => {
+      const tmp = `${this.filePath}.tmp`;
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tmp, JSON.stringify(checkpoint, null, 2));
+      await fs.promises.rename(tmp, this.filePath);
+    });
+    // A failed write (EACCES, ENOSPC, ...) fails this save only
+    this.pending = write.catch(() => {});
+    return write;
+  }
+}
+
+/**
+ * Tracks the newest processed transaction and persists it
+ */
+export class CheckpointTracker {
+  private current: Checkpoint | null = null;
+  private loaded: Promise<Checkpoint | null> | null = null;
+
+  constructor(private store: CheckpointStore) {}
+
+  load(): Promise<Checkpoint | null> {
+    this.loaded = this.store.load().then((checkpoint) => {
+      this.current = checkpoint;
+      return checkpoint;
+    });
+    return this.loaded;
+  }
+
+  get checkpoint(): Checkpoint | null {
+    return this.current;
+  }
+
+  /**
+   * Record `signature` as processed; ignored if it is older than the
+   * current checkpoint (e.g. a late live notification, or a backfill of an
+   * older range). The stored checkpoint is loaded first if it has not been.
+   */
+  async advance(slot: number, signature: string): Promise<void> {
+    await (this.loaded ?? this.load());
+    if (this.current && slot < this.current.slot) return;
+    this.current = { slot, signature, updatedAt: new Date().toISOString() };
+    await this.store.save(this.current);
+  }
+}
+
+/**
+ * Set with a fixed capacity that evicts the oldest keys first
+ */
+export class DedupCache {
+  private keys = new Set<string>();
+
+  constructor(readonly capacity: number = 10_000) {}
+
+  has(key: string): boolean {
+    return this.keys.has(key);
+  }
+
+  add(key: string): void {
+    if (this.keys.has(key)) return;
+    this.keys.add(key);
+    if (this.keys.size > this.capacity) {
+      // Sets iterate in insertion order
+      const oldest = this.keys.values().next().value as string;
+      this.keys.delete(oldest);
+    }
+  }
+
+  get size(): number {
+    return this.keys.size;
+  }
+}
@@ -0,0 +1,366 @@
+/**
+ * Deadline watcher
+ *
+ * Polls a set of open escrows (decoded accounts or the event projection) and
+ * warns the party that has to act when one of the program's timers is about
+ * to run out, e.g. "fiat deadline for trade 123 in 5 minutes". Each deadline
+ * is warned about once per configured lead time; when the watcher starts late
+ * and several lead times have already passed, only the most urgent one is
+ * sent. A lead time of 0 announces the expiry itself.
+ *
+ * Warnings go to pluggable channels: stdout, a JSON lines file, or a signed
+ * webhook (same X-Escrow-Signature scheme as event webhooks).
+ */
+
+import { BorshCoder } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  DEADLINE_KINDS,
+  DeadlineKind,
+  DeadlineRole,
+  DeadlineSource,
+  escrowDeadlines,
+} from "../../sdk/deadlines";
+import { EscrowProjection } from "./projection";
+import { SqliteEventStore } from "./sqlite-store";
+import { RetryPolicy, WebhookDispatcher } from "./webhooks";
+
+export interface WatchedEscrow extends DeadlineSource {
+  /** Escrow PDA */
+  address: PublicKey;
+}
+
+export interface DeadlineWarning {
+  /** Stable per deadline and lead time; doubles as the idempotency key */
+  id: string;
+  kind: DeadlineKind;
+  role: DeadlineRole;
+  party: string;
+  escrow: string;
+  escrowId: string;
+  tradeId: string;
+  /** ISO time the deadline passes */
+  expiresAt: string;
+  /** Lead time (seconds) that triggered the warning; 0 for the expiry */
+  leadTime: number;
+  /** Seconds left when the warning was raised; negative once expired */
+  remaining: number;
+  message: string;
+}
+
+/** Lead times in seconds, per deadline kind */
+export type LeadTimes = Record<DeadlineKind, number[]>;
+
+export const DEFAULT_LEAD_TIMES: LeadTimes = {
+  deposit: [5 * 60],
+  fiat: [10 * 60, 5 * 60],
+  disputeResponse: [24 * 3600, 2 * 3600],
+  arbitration: [24 * 3600],
+};
+
+export interface NotificationChannel {
+  notify(warning: DeadlineWarning): void | Promise<void>;
+  close?(): void | Promise<void>;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+};
+
+/**
+ * Parse "90", "90s", "5m", "2h" or "1d" into seconds
+ */
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)([smhd]?)$/);
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+  return Math.round(parseFloat(match[1]) * DURATION_UNITS[match[2] || "s"]);
+}
+
+/**
+ * Parse "<kind>=<duration>,<duration>" into one LeadTimes entry
+ */
+export function parseLeadTimes(value: string): [DeadlineKind, number[]] {
+  const [kind, list] = value.split("=");
+  if (!DEADLINE_KINDS.includes(kind as DeadlineKind) || !list) {
+    throw new Error(
+      `Invalid lead time: ${value} (expected <${DEADLINE_KINDS.join(
+        "|"
+      )}>=<durations>)`
+    );
+  }
+  return [kind as DeadlineKind, list.split(",").map(parseDuration)];
+}
+
+/**
+ * Human-readable duration, rounded to its largest unit: "2 hours", "5 minutes"
+ */
+export function formatDuration(seconds: number): string {
+  for (const [unit, size] of [
+    ["day", 86400],
+    ["hour", 3600],
+    ["minute", 60],
+  ] as const) {
+    if (seconds >= size) {
+      const count = Math.round(seconds / size);
+      return `${count} ${unit}${count === 1 ? "" : "s"}`;
+    }
+  }
+  const count = Math.max(0, Math.round(seconds));
+  return `${count} second${count === 1 ? "" : "s"}`;
+}
+
+const ACTIONS: Record<DeadlineKind, string> = {
+  deposit: "fund the escrow",
+  fiat: "mark fiat paid",
+  disputeResponse: "respond to dispute",
+  arbitration: "resolve the dispute",
+};
+
+const LABELS: Record<DeadlineKind, string> = {
+  deposit: "deposit deadline",
+  fiat: "fiat deadline",
+  disputeResponse: "dispute response deadline",
+  arbitration: "arbitration deadline",
+};
+
+export function describeWarning(
+  warning: Pick<DeadlineWarning, "kind" | "role" | "tradeId" | "remaining">
+): string {
+  const { kind, role, tradeId, remaining } = warning;
+  if (remaining < 0) {
+    return `${LABELS[kind]} for trade ${tradeId} expired ${formatDuration(
+      -remaining
+    )} ago`;
+  }
+  if (kind === "deposit" || kind === "fiat") {
+    return `${LABELS[kind]} for trade ${tradeId} in ${formatDuration(
+      remaining
+    )} (${role} has to ${ACTIONS[kind]})`;
+  }
+  return `${role} has ${formatDuration(remaining)} left to ${
+    ACTIONS[kind]
+  } on trade ${tradeId}`;
+}
+
+export interface DeadlineWatcherOptions {
+  /** Per kind; kinds left out use DEFAULT_LEAD_TIMES */
+  leadTimes?: Partial<LeadTimes>;
+  /** Unix seconds; defaults to the system clock */
+  now?: () => number;
+  /** Failures of the escrow source or a channel */
+  onError?: (error: unknown) => void;
+}
+
+export class DeadlineWatcher {
+  private leadTimes: LeadTimes;
+  /** Warning ids already raised, pruned once their deadline stops running */
+  private sent = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private checking: Promise<DeadlineWarning[]> | null = null;
+
+  constructor(
+    private source: () => WatchedEscrow[] | Promise<WatchedEscrow[]>,
+    private channels: NotificationChannel[],
+    private options: DeadlineWatcherOptions = {}
+  ) {
+    this.leadTimes = { ...DEFAULT_LEAD_TIMES, ...options.leadTimes };
+  }
+
+  /**
+   * Raise every warning that is due and send it to all channels
+   */
+  async check(): Promise<DeadlineWarning[]> {
+    const now = this.options.now?.() ?? Math.floor(Date.now() / 1000);
+    const escrows = await this.source();
+    const running = new Set<string>();
+    const due: DeadlineWarning[] = [];
+
+    for (const escrow of escrows) {
+      for (const deadline of escrowDeadlines(escrow)) {
+        const remaining = deadline.expiresAt - now;
+        const key = `${escrow.address.toBase58()}:${deadline.kind}:${
+          deadline.expiresAt
+        }`;
+        const crossed = this.leadTimes[deadline.kind].filter((lead) =>
+          lead > 0 ? remaining >= 0 && remaining <= lead : remaining < 0
+        );
+        crossed.forEach((lead) => running.add(`${key}:${lead}`));
+        if (crossed.length === 0) continue;
+
+        const leadTime = Math.min(...crossed);
+        const id = `${key}:${leadTime}`;
+        if (this.sent.has(id)) continue;
+        // Skip the longer lead times this one supersedes
+        crossed.forEach((lead) => this.sent.add(`${key}:${lead}`));
+
+        const warning = {
+          id,
+          kind: deadline.kind,
+          role: deadline.role,
+          party: deadline.party.toBase58(),
+          escrow: escrow.address.toBase58(),
+          escrowId: escrow.escrowId.toString(),
+          tradeId: escrow.tradeId.toString(),
+          expiresAt: new Date(deadline.expiresAt * 1000).toISOString(),
+          leadTime,
+          remaining,
+        };
+        due.push({ ...warning, message: describeWarning(warning) });
+      }
+    }
+
+    for (const id of this.sent) {
+      if (!running.has(id)) this.sent.delete(id);
+    }
+    for (const warning of due) {
+      for (const channel of this.channels) {
+        try {
+          await channel.notify(warning);
+        } catch (error) {
+          this.options.onError?.(error);
+        }
+      }
+    }
+    return due;
+  }
+
+  start(intervalMs: number): void {
+    if (this.timer) return;
+    const tick = () => {
+      if (this.checking) return;
+      this.checking = this.check()
+        .catch((error) => {
+          this.options.onError?.(error);
+          return [];
+        })
+        .finally(() => (this.checking = null));
+    };
+    tick();
+    this.timer = setInterval(tick, intervalMs);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.checking;
+    for (const channel of this.channels) {
+      await channel.close?.();
+    }
+  }
+}
+
+/**
+ * One line per warning: the message in pretty mode, else JSON
+ */
+export class StdoutChannel implements NotificationChannel {
+  constructor(private format: "pretty" | "ndjson" = "pretty") {}
+
+  notify(warning: DeadlineWarning): void {
+    process.stdout.write(
+      (this.format === "pretty"
+        ? `${warning.remaining < 0 ? "⛔" : "⏰"} ${warning.message} [${
+            warning.escrow
+          }]`
+        : JSON.stringify(warning)) + "\n"
+    );
+  }
+}
+
+/**
+ * Append-only JSON lines file of warnings
+ */
+export class FileChannel implements NotificationChannel {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string) {}
+
+  notify(warning: DeadlineWarning): Promise<void> {
+    const write = this.pending.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.appendFile(
+        this.filePath,
+        JSON.stringify(warning) + "\n"
+      );
+    });
+    // A failed append fails this warning only; later ones are still written
+    this.pending = write.catch(() => {});
+    return write;
+  }
+
+  async close(): Promise<void> {
+    await this.pending;
+  }
+}
+
+export interface WebhookChannelOptions {
+  /** HMAC-SHA256 signing key; unsigned if omitted */
+  secret?: string;
+  retry?: Partial<RetryPolicy>;
+  timeoutMs?: number;
+}
+
+/**
+ * POST each warning as JSON, retrying network errors, 429 and 5xx as event
+ * webhooks are
+ */
+export class WebhookChannel implements NotificationChannel {
+  private dispatcher: WebhookDispatcher;
+
+  constructor(
+    readonly url: string,
+    private options: WebhookChannelOptions = {}
+  ) {
+    this.dispatcher = new WebhookDispatcher([], {
+      retry: options.retry,
+      timeoutMs: options.timeoutMs,
+    });
+  }
+
+  async notify(warning: DeadlineWarning): Promise<void> {
+    const result = await this.dispatcher.send(
+      { url: this.url, secret: this.options.secret },
+      warning.id,
+      JSON.stringify(warning)
+    );
+    if (!result.delivered) {
+      throw new Error(
+        `Webhook ${this.url} failed for ${warning.id}: ${result.error}`
+      );
+    }
+  }
+}
+
+/**
+ * Open escrows from the listener's database. The projection follows the
+ * store: each call applies only the rows written since the last one, and the
+ * fate of events that were still confirmed when read.
+ */
+export function databaseSource(
+  store: SqliteEventStore,
+  coder: BorshCoder
+): () => WatchedEscrow[] {
+  const projection = new EscrowProjection();
+  const unsettled = new Set<string>();
+  let lastRowId = 0;
+  return () => {
+    for (const update of store.commitmentUpdates(unsettled)) {
+      projection.commitmentChanged(update);
+      unsettled.delete(update.signature);
+    }
+    for (const { rowId, event } of store.replayAfter(coder, lastRowId)) {
+      projection.handle(event);
+      if (event.commitment === "confirmed") unsettled.add(event.signature);
+      lastRowId = rowId;
+    }
+    return projection.open();
+  };
+}
@@ -0,0 +1,228 @@
+/**
+ * Server-Sent Events stream of live escrow events
+ *
+ * A sink of the listener: every event it receives from the onLogs
+ * subscription (or backfill) is pushed, normalized, to the clients subscribed
+ * to its escrow, trade or participant:
+ *
+ *   GET /events?escrow=<pda> | ?tradeId=<id> | ?participant=<pubkey>
+ *
+ * Each message is `event: <EventName>` with the NormalizedEvent as data and
+ * its position cursor (as used by the query API) as id. When the transaction
+ * later finalizes or is retracted, clients that got its events receive an
+ * `event: commitment` message with the NormalizedCommitmentUpdate.
+ *
+ * Reconnecting clients send Last-Event-ID (or ?lastEventId=, for the first
+ * connection of an EventSource); with an event store, events after that
+ * position are replayed from it before the live ones, so brief disconnects
+ * lose nothing. Without a store the stream simply continues live.
+ */
+
+import { BorshCoder } from "@coral-xyz/anchor";
+import * as http from "http";
+import { CommitmentUpdate, EventSink, ListenerEvent } from "./events";
+import { EventFilter, EventFilterCriteria } from "./filter";
+import { normalizeCommitmentUpdate, normalizeEvent } from "./format";
+import {
+  comparePositions,
+  decodeCursor,
+  encodeCursor,
+  EventPosition,
+  parseAddress,
+  parseU64,
+  positionOf,
+  QueryError,
+} from "./queries";
+import { SqliteEventStore } from "./sqlite-store";
+
+/** Comment line sent to idle clients so proxies keep the connection open */
+const HEARTBEAT_MS = 15_000;
+/** Reconnection delay suggested to EventSource clients */
+const RETRY_MS = 3_000;
+
+export interface EventStreamOptions {
+  /** Event store to resume from; Last-Event-ID is ignored without one */
+  store?: SqliteEventStore;
+  coder?: BorshCoder;
+  /** Value of Access-Control-Allow-Origin, for browser frontends */
+  corsOrigin?: string;
+  heartbeatMs?: number;
+}
+
+interface StreamClient {
+  res: http.ServerResponse;
+  filter: EventFilter;
+  /** Events already sent by the resume replay */
+  replayed: Set<string>;
+  /** Signatures of sent events whose commitment may still change */
+  unsettled: Set<string>;
+}
+
+/**
+ * Subscription of a request: exactly one of escrow, tradeId or participant
+ */
+export function parseSubscription(
+  params: URLSearchParams
+): EventFilterCriteria {
+  const given = ["escrow", "tradeId", "participant"].filter((key) =>
+    params.has(key)
+  );
+  if (given.length !== 1) {
+    throw new QueryError(
+      "Subscribe to exactly one of ?escrow=, ?tradeId= or ?participant="
+    );
+  }
+  const value = params.get(given[0])!;
+  switch (given[0]) {
+    case "escrow":
+      return { objectIds: [parseAddress(value)] };
+    case "tradeId":
+      return { tradeIds: [parseU64(value, "trade id")] };
+    default:
+      return { participants: [parseAddress(value)] };
+  }
+}
+
+export class EventStreamHub implements EventSink {
+  private clients = new Set<StreamClient>();
+  private heartbeat: NodeJS.Timeout;
+
+  constructor(private options: EventStreamOptions = {}) {
+    if (options.store && !options.coder) {
+      throw new Error("Resuming from the store needs the program's coder");
+    }
+    this.heartbeat = setInterval(
+      () => this.clients.forEach(({ res }) => res.write(": ping\n\n")),
+      options.heartbeatMs ?? HEARTBEAT_MS
+    );
+    this.heartbeat.unref();
+  }
+
+  get clientCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Request handler for GET /events
+   */
+  handleRequest = (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const cors: http.OutgoingHttpHeaders = this.options.corsOrigin
+      ? { "Access-Control-Allow-Origin": this.options.corsOrigin }
+      : {};
+    if (req.method !== "GET" || url.pathname !== "/events") {
+      res.writeHead(404, cors).end();
+      return;
+    }
+
+    let criteria: EventFilterCriteria;
+    let resumeAfter: EventPosition | null;
+    try {
+      criteria = parseSubscription(url.searchParams);
+      const lastEventId =
+        (req.headers["last-event-id"] as string | undefined) ??
+        url.searchParams.get("lastEventId");
+      resumeAfter = lastEventId ? decodeCursor(lastEventId) : null;
+    } catch (error) {
+      res
+        .writeHead(error instanceof QueryError ? 400 : 500, {
+          ...cors,
+          "Content-Type": "application/json",
+        })
+        .end(JSON.stringify({ error: String((error as Error).message) }));
+      return;
+    }
+
+    res.writeHead(200, {
+      ...cors,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    const client: StreamClient = {
+      res,
+      filter: new EventFilter(criteria),
+      replayed: new Set(),
+      unsettled: new Set(),
+    };
+    this.replay(client, criteria, resumeAfter);
+    this.clients.add(client);
+    req.on("close", () => this.clients.delete(client));
+  };
+
+  /**
+   * Send stored events after `resumeAfter`. A participant filter is fed the
+   * whole history even without resuming, so it knows the participant's
+   * escrows before live events arrive.
+   */
+  private replay(
+    client: StreamClient,
+    criteria: EventFilterCriteria,
+    resumeAfter: EventPosition | null
+  ) {
+    const { store, coder } = this.options;
+    if (!store || !coder) return;
+    if (!resumeAfter && !criteria.participants) return;
+
+    const fromSlot = criteria.participants ? 0 : resumeAfter!.slot;
+    for (const event of store.replay(coder, fromSlot)) {
+      if (!client.filter.matches(event)) continue;
+      if (resumeAfter && comparePositions(positionOf(event), resumeAfter) > 0) {
+        this.send(client, event);
+        client.replayed.add(encodeCursor(positionOf(event)));
+      }
+    }
+  }
+
+  private send(client: StreamClient, event: ListenerEvent) {
+    const id = encodeCursor(positionOf(event));
+    client.res.write(
+      `id: ${id}\nevent: ${event.name}\ndata: ${JSON.stringify(
+        normalizeEvent(event)
+      )}\n\n`
+    );
+    if (event.commitment === "confirmed") {
+      client.unsettled.add(event.signature);
+    }
+  }
+
+  handle(event: ListenerEvent): void {
+    for (const client of this.clients) {
+      if (!client.filter.matches(event)) continue;
+      if (client.replayed.delete(encodeCursor(positionOf(event)))) continue;
+      this.send(client, event);
+    }
+  }
+
+  commitmentChanged(update: CommitmentUpdate): void {
+    for (const client of this.clients) {
+      if (!client.unsettled.delete(update.signature)) continue;
+      client.res.write(
+        `event: commitment\ndata: ${JSON.stringify(
+          normalizeCommitmentUpdate(update)
+        )}\n\n`
+      );
+    }
+  }
+
+  close(): void {
+    clearInterval(this.heartbeat);
+    for (const { res } of this.clients) res.end();
+    this.clients.clear();
+  }
+}
+
+/**
+ * Serve the hub's stream; resolves once listening
+ */
+export async function startEventStreamServer(
+  hub: EventStreamHub,
+  port: number,
+  host = "0.0.0.0"
+): Promise<http.Server> {
+  const server = http.createServer(hub.handleRequest);
+  await new Promise<void>((resolve) => server.listen(port, host, resolve));
+  return server;
+}
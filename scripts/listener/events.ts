@@ -0,0 +1,209 @@
+/**
+ * Escrow program event decoding for the listener
+ *
+ * Walks a transaction's logs tracking the program invocation stack, and
+ * decodes every "Program data:" line emitted while the escrow program is
+ * executing. Each event keeps its log index (position in the transaction's
+ * log messages), which together with the signature identifies it uniquely.
+ * Lines that are not base64, or whose payload does not match the size of the
+ * event it starts with, are reported as failures instead.
+ */
+
+import { BN, BorshCoder } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+
+export const ESCROW_EVENT_NAMES = [
+  "EscrowCreated",
+  "FundsDeposited",
+  "FiatMarkedPaid",
+  "EscrowReleased",
+  "EscrowCancelled",
+  "DisputeOpened",
+  "DisputeResponseSubmitted",
+  "DisputeResolved",
+  "DisputeDefaultJudgment",
+  "EscrowBalanceChanged",
+  "SequentialAddressUpdated",
+] as const;
+
+export type EscrowEventName = (typeof ESCROW_EVENT_NAMES)[number];
+
+/**
+ * "confirmed" events can still be rolled back with their fork; only
+ * "finalized" ones are settled
+ */
+export type EventCommitment = "confirmed" | "finalized";
+
+/**
+ * A decoded event as the Borsh coder returns it: IDL (snake_case) field
+ * names, BN for integers, PublicKey for addresses, number[] for hashes
+ */
+export interface ListenerEvent {
+  name: EscrowEventName;
+  data: Record<string, any>;
+  signature: string;
+  slot: number;
+  logIndex: number;
+  /** Block time of the transaction, when known (not on live notifications) */
+  blockTime: number | null;
+  /** Base64 payload of the "Program data:" line, for re-decoding */
+  raw: string;
+  commitment: EventCommitment;
+}
+
+/**
+ * Later news about every event of a transaction: it finalized (possibly in a
+ * different slot, if it was re-included on another fork), or it never will
+ * and its events must be treated as if they never happened
+ */
+export interface CommitmentUpdate {
+  signature: string;
+  slot: number;
+  status: "finalized" | "retracted";
+}
+
+/**
+ * Destination for decoded events (database, webhook, projection, ...)
+ */
+export interface EventSink {
+  handle(event: ListenerEvent): void | Promise<void>;
+  /** Sinks that ignore this see every event as final on arrival */
+  commitmentChanged?(update: CommitmentUpdate): void | Promise<void>;
+  close?(): void | Promise<void>;
+}
+
+export interface DecodedLogs {
+  events: Pick<ListenerEvent, "name" | "data" | "logIndex" | "raw">[];
+  /** "Program data:" lines from the program that could not be decoded */
+  failures: { logIndex: number; error: string }[];
+}
+
+const INVOKE_LOG = /^Program (\S+) invoke \[\d+\]$/;
+const EXIT_LOG = /^Program (\S+) (success|failed)/;
+const DATA_PREFIX = "Program data: ";
+/** Padded base64, as the runtime logs `sol_log_data` payloads */
+const BASE64 =
+  /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+/** Anchor's default event discriminator, which this program's IDL uses */
+const EVENT_DISCRIMINATOR_BYTES = 8;
+
+/**
+ * Borsh decoding throws when a short payload ends inside a field, but can read
+ * past the end as zeros elsewhere and ignores extra bytes, so a truncated or
+ * padded line may still decode into a plausible event. Compare the payload
+ * with the size of what was decoded instead.
+ */
+function payloadMismatch(
+  coder: BorshCoder,
+  name: string,
+  data: Record<string, any>,
+  raw: string
+): string | null {
+  const actual = Buffer.from(raw, "base64").length - EVENT_DISCRIMINATOR_BYTES;
+  const expected = coder.types.encode(name, data).length;
+  if (actual < expected) {
+    return `Truncated event data (${actual} of ${expected} bytes)`;
+  }
+  if (actual > expected) {
+    return `${actual - expected} trailing byte(s) after event data`;
+  }
+  return null;
+}
+
+export function decodeProgramEvents(
+  coder: BorshCoder,
+  programId: PublicKey,
+  logs: string[]
+): DecodedLogs {
+  const program = programId.toBase58();
+  const stack: string[] = [];
+  const result: DecodedLogs = { events: [], failures: [] };
+
+  logs.forEach((log, logIndex) => {
+    const invoke = INVOKE_LOG.exec(log);
+    if (invoke) {
+      stack.push(invoke[1]);
+      return;
+    }
+    if (EXIT_LOG.test(log)) {
+      stack.pop();
+      return;
+    }
+    if (!log.startsWith(DATA_PREFIX) || stack[stack.length - 1] !== program) {
+      return;
+    }
+
+    const raw = log.slice(DATA_PREFIX.length);
+    if (!BASE64.test(raw)) {
+      result.failures.push({ logIndex, error: "Malformed base64 payload" });
+      return;
+    }
+    try {
+      const decoded = coder.events.decode(raw);
+      if (!decoded) {
+        result.failures.push({
+          logIndex,
+          error: "Unknown event discriminator",
+        });
+      } else if (
+        !ESCROW_EVENT_NAMES.includes(decoded.name as EscrowEventName)
+      ) {
+        result.failures.push({
+          logIndex,
+          error: `Unexpected event ${decoded.name}`,
+        });
+      } else {
+        const mismatch = payloadMismatch(
+          coder,
+          decoded.name,
+          decoded.data,
+          raw
+        );
+        if (mismatch) {
+          result.failures.push({ logIndex, error: mismatch });
+        } else {
+          result.events.push({
+            name: decoded.name as EscrowEventName,
+            data: decoded.data,
+            logIndex,
+            raw,
+          });
+        }
+      }
+    } catch (error) {
+      result.failures.push({
+        logIndex,
+        error:
+          error instanceof RangeError
+            ? `Truncated event data (${
+                Buffer.from(raw, "base64").length
+              } bytes in all)`
+            : String(error),
+      });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * JSON-safe form of a decoded field: base58 addresses, decimal strings for
+ * integers (u64 does not fit a JS number), hex for byte arrays
+ */
+export function toJsonValue(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (value instanceof PublicKey) return value.toBase58();
+  if (BN.isBN(value)) return value.toString();
+  if (Array.isArray(value) || value instanceof Uint8Array) {
+    return Buffer.from(value as number[]).toString("hex");
+  }
+  return value;
+}
+
+export function eventDataToJson(
+  data: Record<string, any>
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(data).map(([field, value]) => [field, toJsonValue(value)])
+  );
+}
@@ -0,0 +1,312 @@
+/**
+ * Arbitrator fee revenue and settlement accounting
+ *
+ * Every escrow ends in one settlement event, which decides where its fee
+ * went (see programs/localsolana_contracts/src/lib.rs):
+ *
+ *   EscrowReleased           fee to the arbitrator, principal to the buyer
+ *                            (or the sequential escrow)
+ *   DisputeResolved          buyer wins: as a release; seller wins: principal
+ *                            and fee back to the seller. Either way the
+ *                            loser's bond goes to the arbitrator
+ *   DisputeDefaultJudgment   principal and fee to the winner, bonds returned
+ *   EscrowCancelled          principal and fee back to the seller, if it was
+ *                            funded; nothing moves otherwise
+ *
+ * The ledger has one entry per settlement with the amounts in base units and
+ * its signature, for audit; the report sums them per UTC day or month.
+ * Principal volume counts principal paid out to buyers, i.e. trades that went
+ * through. Only finalized events are counted unless asked otherwise, and
+ * escrows whose creation is not in the store are left out, as in the
+ * projection.
+ */
+
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { calculateDisputeBond } from "../../sdk/amounts";
+import { escrowStateName } from "../../sdk/state-machine";
+import { EscrowEventName, ListenerEvent } from "./events";
+import { toIsoTimestamp } from "./format";
+import { applyEvent, ProjectedEscrow } from "./projection";
+
+export const REPORT_PERIODS = ["day", "month"] as const;
+
+export type ReportPeriod = (typeof REPORT_PERIODS)[number];
+
+export const SETTLEMENT_EVENTS: readonly EscrowEventName[] = [
+  "EscrowReleased",
+  "DisputeResolved",
+  "DisputeDefaultJudgment",
+  "EscrowCancelled",
+];
+
+/** Amounts of one settlement or period, decimal strings in base units */
+export interface FeeAmounts {
+  /** Fees paid to the arbitrator */
+  feeRevenue: string;
+  /** Losing dispute bonds paid to the arbitrator */
+  bondRevenue: string;
+  /** Principal paid out to buyers */
+  principalVolume: string;
+  /** Fees returned to the seller or a dispute winner */
+  refundedFees: string;
+}
+
+export interface FeeLedgerEntry extends FeeAmounts {
+  signature: string;
+  slot: number;
+  /** The event's on-chain timestamp */
+  timestamp: string;
+  event: EscrowEventName;
+  escrow: string;
+  escrowId: string;
+  tradeId: string;
+  arbitrator: string;
+}
+
+export interface FeePeriodSummary extends FeeAmounts {
+  /** YYYY-MM-DD or YYYY-MM (UTC) */
+  period: string;
+  settlements: number;
+  signatures: string[];
+}
+
+export interface FeeReport {
+  period: ReportPeriod;
+  /** Inclusive UTC date bounds, as given */
+  from: string | null;
+  to: string | null;
+  totals: FeeAmounts & { settlements: number };
+  periods: FeePeriodSummary[];
+  entries: FeeLedgerEntry[];
+}
+
+export interface FeeReportOptions {
+  period?: ReportPeriod;
+  /** First UTC day to include, YYYY-MM-DD */
+  from?: string | null;
+  /** Last UTC day to include, YYYY-MM-DD */
+  to?: string | null;
+  /** Count confirmed events too, which may still be retracted */
+  includeConfirmed?: boolean;
+}
+
+interface Amounts {
+  feeRevenue: bigint;
+  bondRevenue: bigint;
+  principalVolume: bigint;
+  refundedFees: bigint;
+}
+
+const AMOUNT_FIELDS = [
+  "feeRevenue",
+  "bondRevenue",
+  "principalVolume",
+  "refundedFees",
+] as const;
+
+const zero = (): Amounts => ({
+  feeRevenue: 0n,
+  bondRevenue: 0n,
+  principalVolume: 0n,
+  refundedFees: 0n,
+});
+
+const serialize = (amounts: Amounts): FeeAmounts => ({
+  feeRevenue: amounts.feeRevenue.toString(),
+  bondRevenue: amounts.bondRevenue.toString(),
+  principalVolume: amounts.principalVolume.toString(),
+  refundedFees: amounts.refundedFees.toString(),
+});
+
+const units = (value: BN) => BigInt(value.toString());
+
+/**
+ * Where the settlement `event` sent the money of `escrow` (its record before
+ * the event)
+ */
+function settlementAmounts(
+  event: ListenerEvent,
+  escrow: ProjectedEscrow
+): Amounts {
+  const { data } = event;
+  const amounts = zero();
+  switch (event.name) {
+    case "EscrowReleased":
+      amounts.feeRevenue = units(data.fee);
+      amounts.principalVolume = units(data.amount);
+      break;
+    case "DisputeResolved":
+      if (data.decision) {
+        amounts.feeRevenue = units(data.fee);
+        amounts.principalVolume = units(escrow.amount);
+      } else {
+        amounts.refundedFees = units(data.fee);
+      }
+      amounts.bondRevenue = calculateDisputeBond(escrow.amount);
+      break;
+    case "DisputeDefaultJudgment":
+      amounts.refundedFees = units(escrow.fee);
+      if (data.decision) amounts.principalVolume = units(escrow.amount);
+      break;
+    case "EscrowCancelled":
+      if (escrowStateName(escrow.state) === "Funded") {
+        amounts.refundedFees = units(data.fee);
+      }
+      break;
+  }
+  return amounts;
+}
+
+/**
+ * One entry per settlement event, in store order
+ */
+export function feeLedger(
+  events: Iterable<ListenerEvent>,
+  includeConfirmed = false
+): FeeLedgerEntry[] {
+  const escrows = new Map<string, ProjectedEscrow>();
+  const entries: FeeLedgerEntry[] = [];
+  for (const event of events) {
+    const key = (event.data.object_id as PublicKey).toBase58();
+    const before = escrows.get(key);
+    const after = applyEvent(before, event);
+    if (!after) continue;
+    escrows.set(key, after);
+
+    if (!before || !SETTLEMENT_EVENTS.includes(event.name)) continue;
+    if (event.commitment !== "finalized" && !includeConfirmed) continue;
+    entries.push({
+      signature: event.signature,
+      slot: event.slot,
+      timestamp: toIsoTimestamp((event.data.timestamp as BN).toNumber()),
+      event: event.name,
+      escrow: key,
+      escrowId: before.escrowId.toString(),
+      tradeId: before.tradeId.toString(),
+      arbitrator: before.arbitrator.toBase58(),
+      ...serialize(settlementAmounts(event, before)),
+    });
+  }
+  return entries;
+}
+
+/** UTC day or month of an ISO timestamp */
+const periodOf = (timestamp: string, period: ReportPeriod) =>
+  timestamp.slice(0, period === "day" ? 10 : 7);
+
+export function buildFeeReport(
+  events: Iterable<ListenerEvent>,
+  options: FeeReportOptions = {}
+): FeeReport {
+  const period = options.period ?? "day";
+  const from = options.from ?? null;
+  const to = options.to ?? null;
+  const entries = feeLedger(events, options.includeConfirmed).filter(
+    ({ timestamp }) => {
+      const day = periodOf(timestamp, "day");
+      return (!from || day >= from) && (!to || day <= to);
+    }
+  );
+
+  const totals = zero();
+  const periods = new Map<
+    string,
+    { amounts: Amounts; settlements: number; signatures: Set<string> }
+  >();
+  for (const entry of entries) {
+    const key = periodOf(entry.timestamp, period);
+    let summary = periods.get(key);
+    if (!summary) {
+      summary = { amounts: zero(), settlements: 0, signatures: new Set() };
+      periods.set(key, summary);
+    }
+    for (const field of AMOUNT_FIELDS) {
+      const value = BigInt(entry[field]);
+      summary.amounts[field] += value;
+      totals[field] += value;
+    }
+    summary.settlements++;
+    summary.signatures.add(entry.signature);
+  }
+
+  return {
+    period,
+    from,
+    to,
+    totals: { ...serialize(totals), settlements: entries.length },
+    periods: [...periods.entries()]
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, summary]) => ({
+        period: key,
+        settlements: summary.settlements,
+        ...serialize(summary.amounts),
+        signatures: [...summary.signatures],
+      })),
+    entries,
+  };
+}
+
+const csvField = (value: unknown) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csv = (header: string[], rows: unknown[][]) =>
+  [header, ...rows].map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+
+/**
+ * Per-period summary as CSV; signatures are space-separated in one column
+ */
+export function feeReportCsv(report: FeeReport): string {
+  return csv(
+    [
+      report.period,
+      "settlements",
+      "fee_revenue",
+      "bond_revenue",
+      "principal_volume",
+      "refunded_fees",
+      "signatures",
+    ],
+    report.periods.map((summary) => [
+      summary.period,
+      summary.settlements,
+      ...AMOUNT_FIELDS.map((field) => summary[field]),
+      summary.signatures.join(" "),
+    ])
+  );
+}
+
+/**
+ * The settlements behind the report, one CSV row each
+ */
+export function feeLedgerCsv(entries: FeeLedgerEntry[]): string {
+  return csv(
+    [
+      "timestamp",
+      "signature",
+      "slot",
+      "event",
+      "escrow",
+      "escrow_id",
+      "trade_id",
+      "arbitrator",
+      "fee_revenue",
+      "bond_revenue",
+      "principal_volume",
+      "refunded_fees",
+    ],
+    entries.map((entry) => [
+      entry.timestamp,
+      entry.signature,
+      entry.slot,
+      entry.event,
+      entry.escrow,
+      entry.escrowId,
+      entry.tradeId,
+      entry.arbitrator,
+      ...AMOUNT_FIELDS.map((field) => entry[field]),
+    ])
+  );
+}
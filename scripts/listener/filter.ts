@@ -0,0 +1,100 @@
+/**
+ * Event filters for the listener
+ *
+ * Criteria are ANDed across kinds and ORed within one kind, so
+ * `{ tradeIds: [42], events: ["DisputeOpened", "DisputeResolved"] }` keeps the
+ * dispute events of trade 42. Only some events name the parties (EscrowCreated
+ * names seller and buyer, FundsDeposited names nobody), so a participant match
+ * also remembers the escrow it happened on and keeps that escrow's later
+ * events. Events must therefore be fed in order, as backfill and the live
+ * subscription both do.
+ */
+
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { EscrowEventName, ListenerEvent } from "./events";
+
+type Id = BN | bigint | number | string;
+
+export interface EventFilterCriteria {
+  escrowIds?: Id[];
+  tradeIds?: Id[];
+  /** Escrow PDAs (the events' object_id) */
+  objectIds?: (PublicKey | string)[];
+  /** Seller, buyer, disputing/responding/defaulting party or winner */
+  participants?: (PublicKey | string)[];
+  events?: EscrowEventName[];
+}
+
+export const PARTICIPANT_FIELDS = [
+  "seller",
+  "buyer",
+  "disputing_party",
+  "responding_party",
+  "defaulting_party",
+  "winner",
+] as const;
+
+const toSet = (values: { toString(): string }[] | undefined) =>
+  values && values.length > 0
+    ? new Set(values.map((value) => value.toString()))
+    : null;
+
+export class EventFilter {
+  private escrowIds: Set<string> | null;
+  private tradeIds: Set<string> | null;
+  private objectIds: Set<string> | null;
+  private participants: Set<string> | null;
+  private events: Set<string> | null;
+  /** Escrows on which a participant has been seen */
+  private participantEscrows = new Set<string>();
+
+  constructor(criteria: EventFilterCriteria = {}) {
+    this.escrowIds = toSet(criteria.escrowIds);
+    this.tradeIds = toSet(criteria.tradeIds);
+    this.objectIds = toSet(criteria.objectIds);
+    this.participants = toSet(criteria.participants);
+    this.events = toSet(criteria.events);
+  }
+
+  get isEmpty(): boolean {
+    return (
+      !this.escrowIds &&
+      !this.tradeIds &&
+      !this.objectIds &&
+      !this.participants &&
+      !this.events
+    );
+  }
+
+  matches(event: Pick<ListenerEvent, "name" | "data">): boolean {
+    const { data } = event;
+    const objectId = data.object_id.toString();
+    // Checked first so the escrow is remembered even if this event is dropped
+    const participant =
+      !this.participants || this.matchesParticipant(data, objectId);
+
+    if (this.events && !this.events.has(event.name)) return false;
+    if (this.escrowIds && !this.escrowIds.has(data.escrow_id.toString())) {
+      return false;
+    }
+    if (this.tradeIds && !this.tradeIds.has(data.trade_id.toString())) {
+      return false;
+    }
+    if (this.objectIds && !this.objectIds.has(objectId)) return false;
+    return participant;
+  }
+
+  private matchesParticipant(
+    data: Record<string, any>,
+    objectId: string
+  ): boolean {
+    const named = PARTICIPANT_FIELDS.some(
+      (field) => data[field] && this.participants!.has(data[field].toString())
+    );
+    if (named) {
+      this.participantEscrows.add(objectId);
+    }
+    return named || this.participantEscrows.has(objectId);
+  }
+}
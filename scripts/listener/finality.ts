@@ -0,0 +1,83 @@
+/**
+ * Finality tracking for confirmed transactions
+ *
+ * The live subscription and backfill deliver transactions at "confirmed",
+ * which a dropped fork can still undo. Each such signature is tracked until
+ * `getSignatureStatuses` reports it finalized. A signature that is still
+ * unknown once the finalized root is more than MAX_PROCESSING_AGE slots past
+ * it can no longer land (its blockhash has expired), so it is retracted, as
+ * is one that finalized with an error on the fork that won.
+ */
+
+import { Connection } from "@solana/web3.js";
+import { CommitmentUpdate } from "./events";
+
+/** Slots a blockhash stays valid for; older transactions cannot land */
+export const MAX_PROCESSING_AGE = 150;
+
+/** getSignatureStatuses accepts at most this many signatures per call */
+const STATUS_BATCH_SIZE = 256;
+
+type StatusSource = Pick<Connection, "getSignatureStatuses" | "getSlot">;
+
+export class FinalityTracker {
+  private pending = new Map<string, number>();
+
+  constructor(
+    private connection: StatusSource,
+    readonly retractAfterSlots: number = MAX_PROCESSING_AGE
+  ) {}
+
+  track(signature: string, slot: number): void {
+    this.pending.set(signature, slot);
+  }
+
+  get size(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Check every pending signature once; returns the ones that finalized or
+   * were retracted, which are no longer tracked
+   */
+  async poll(): Promise<CommitmentUpdate[]> {
+    if (this.pending.size === 0) return [];
+
+    const finalizedSlot = await this.connection.getSlot("finalized");
+    const signatures = [...this.pending.keys()];
+    const updates: CommitmentUpdate[] = [];
+
+    for (let i = 0; i < signatures.length; i += STATUS_BATCH_SIZE) {
+      const batch = signatures.slice(i, i + STATUS_BATCH_SIZE);
+      const { value } = await this.connection.getSignatureStatuses(batch, {
+        searchTransactionHistory: true,
+      });
+
+      batch.forEach((signature, index) => {
+        const status = value[index];
+        const seenSlot = this.pending.get(signature)!;
+        let update: CommitmentUpdate | null = null;
+
+        if (status?.confirmationStatus === "finalized") {
+          update = {
+            signature,
+            slot: status.slot,
+            status: status.err ? "retracted" : "finalized",
+          };
+        } else if (
+          !status &&
+          finalizedSlot > seenSlot + this.retractAfterSlots
+        ) {
+          update = { signature, slot: seenSlot, status: "retracted" };
+        }
+
+        if (update) {
+          this.pending.delete(signature);
+          updates.push(update);
+        }
+      });
+    }
+
+    return updates;
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Recorded program log fixtures
+ *
+ * A fixture file keeps what the listener receives for each transaction (the
+ * raw logMessages with signature, slot, block time and commitment), captured
+ * from a cluster or local validator, so decoding can be regression-tested
+ * offline. Replaying hands the transactions to the listener in slot order
+ * (recording order within a slot) with their recorded block times, so a run
+ * is the same every time.
+ *
+ * Fixtures are plain JSON and may be edited by hand, e.g. to cut a
+ * "Program data:" line short; give such transactions a `note`.
+ */
+
+import { Connection, Finality, PublicKey } from "@solana/web3.js";
+import * as fs from "fs";
+import * as path from "path";
+import { isRecord, isStringArray } from "../../sdk/errors";
+import {
+  BackfillOptions,
+  BackfillRange,
+  BackfillTransaction,
+  backfillTransactions,
+} from "./backfill";
+
+export const FIXTURE_VERSION = 1;
+
+export interface LogFixtureTransaction extends BackfillTransaction {
+  /** What the transaction exercises, for hand-made or edited entries */
+  note?: string;
+}
+
+export interface LogFixture {
+  version: typeof FIXTURE_VERSION;
+  /** Program whose events the logs carry */
+  programId: string;
+  cluster: string | null;
+  /** ISO-8601 */
+  recordedAt: string;
+  transactions: LogFixtureTransaction[];
+}
+
+/**
+ * A fixture that cannot be recorded or read
+ */
+export class FixtureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FixtureError";
+  }
+}
+
+type TransactionSource = Pick<Connection, "getTransaction">;
+
+/**
+ * Fetch the logs of specific transactions, in the order given
+ */
+export async function recordTransactions(
+  connection: TransactionSource,
+  signatures: string[],
+  commitment: Finality = "confirmed"
+): Promise<LogFixtureTransaction[]> {
+  const transactions: LogFixtureTransaction[] = [];
+  for (const signature of signatures) {
+    const tx = await connection.getTransaction(signature, {
+      commitment,
+      maxSupportedTransactionVersion: 0,
+    });
+    if (!tx?.meta?.logMessages) {
+      throw new FixtureError(`No logs for transaction ${signature}`);
+    }
+    transactions.push({
+      signature,
+      slot: tx.slot,
+      blockTime: tx.blockTime ?? null,
+      logs: tx.meta.logMessages,
+      commitment: commitment === "finalized" ? "finalized" : "confirmed",
+    });
+  }
+  return transactions;
+}
+
+/**
+ * Fetch the logs of the program's transactions in `range`, oldest first
+ */
+export async function recordRange(
+  connection: Parameters<typeof backfillTransactions>[0],
+  programId: PublicKey,
+  range: BackfillRange,
+  options: BackfillOptions = {}
+): Promise<LogFixtureTransaction[]> {
+  const transactions: LogFixtureTransaction[] = [];
+  for await (const tx of backfillTransactions(
+    connection,
+    programId,
+    range,
+    options
+  )) {
+    transactions.push(tx);
+  }
+  return transactions;
+}
+
+export function createFixture(
+  programId: PublicKey,
+  transactions: LogFixtureTransaction[],
+  cluster: string | null = null,
+  recordedAt: Date = new Date()
+): LogFixture {
+  return {
+    version: FIXTURE_VERSION,
+    programId: programId.toBase58(),
+    cluster,
+    recordedAt: recordedAt.toISOString(),
+    transactions,
+  };
+}
+
+const isFixtureTransaction = (tx: unknown): tx is LogFixtureTransaction =>
+  isRecord(tx) &&
+  typeof tx.signature === "string" &&
+  Number.isInteger(tx.slot) &&
+  (tx.blockTime === null || Number.isInteger(tx.blockTime)) &&
+  (tx.commitment === "confirmed" || tx.commitment === "finalized") &&
+  isStringArray(tx.logs) &&
+  (tx.note === undefined || typeof tx.note === "string");
+
+/**
+ * Parse and check a fixture file's contents
+ */
+export function parseFixture(json: string): LogFixture {
+  let fixture: unknown;
+  try {
+    fixture = JSON.parse(json);
+  } catch (error) {
+    throw new FixtureError(`Invalid JSON: ${(error as Error).message}`);
+  }
+  const version = isRecord(fixture) ? fixture.version : undefined;
+  if (!isRecord(fixture) || version !== FIXTURE_VERSION) {
+    throw new FixtureError(
+      `Unsupported fixture version: ${version} (expected ${FIXTURE_VERSION})`
+    );
+  }
+  const { programId, cluster, recordedAt, transactions } = fixture;
+  try {
+    if (typeof programId !== "string") throw new TypeError();
+    new PublicKey(programId);
+  } catch {
+    throw new FixtureError(`Invalid program id: ${programId}`);
+  }
+  if (cluster !== null && typeof cluster !== "string") {
+    throw new FixtureError(`Invalid cluster: ${cluster}`);
+  }
+  if (typeof recordedAt !== "string") {
+    throw new FixtureError(`Invalid recordedAt: ${recordedAt}`);
+  }
+  if (!Array.isArray(transactions)) {
+    throw new FixtureError("Missing transactions");
+  }
+  return {
+    version,
+    programId,
+    cluster,
+    recordedAt,
+    transactions: transactions.map((tx: unknown, index) => {
+      if (!isFixtureTransaction(tx)) {
+        throw new FixtureError(`Invalid transaction at index ${index}`);
+      }
+      return tx;
+    }),
+  };
+}
+
+export function loadFixture(file: string): LogFixture {
+  try {
+    return parseFixture(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    if (error instanceof FixtureError) {
+      throw new FixtureError(`${file}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+export function saveFixture(file: string, fixture: LogFixture): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + "\n");
+}
+
+/**
+ * Hand every transaction to `handle`, one at a time, in slot order (stable,
+ * so same-slot transactions keep their recorded order). Returns the count.
+ */
+export async function replayFixture(
+  fixture: LogFixture,
+  handle: (tx: BackfillTransaction) => void | Promise<void>
+): Promise<number> {
+  const ordered = [...fixture.transactions].sort((a, b) => a.slot - b.slot);
+  for (const tx of ordered) {
+    await handle(tx);
+  }
+  return ordered.length;
+}
@@ -0,0 +1,255 @@
+/**
+ * Listener output formats
+ *
+ * Every event is first normalized into one canonical shape, whatever the
+ * output: camelCase keys, base58 addresses, decimal strings for u64 values
+ * (they overflow JS numbers), hex for hashes and ISO-8601 for timestamps.
+ * `ndjson` prints one event per line for jq and log shippers, `json` the same
+ * objects indented, and `pretty` the human-readable console view.
+ *
+ * Events arrive at "confirmed" and are followed by one commitment record per
+ * transaction, `{ signature, slot, commitment: "finalized" | "retracted" }`
+ * (no `event` key); a retraction means the transaction's events never
+ * happened.
+ */
+
+import { formatAmount, USDC_DECIMALS } from "../../sdk/amounts";
+import {
+  CommitmentUpdate,
+  EscrowEventName,
+  EventCommitment,
+  ListenerEvent,
+  toJsonValue,
+} from "./events";
+
+export const OUTPUT_FORMATS = ["ndjson", "json", "pretty"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export interface NormalizedEvent {
+  event: EscrowEventName;
+  signature: string;
+  slot: number;
+  logIndex: number;
+  /** Null for live notifications, which carry no block time */
+  blockTime: string | null;
+  commitment: EventCommitment;
+  data: Record<string, unknown>;
+}
+
+export interface NormalizedCommitmentUpdate {
+  signature: string;
+  slot: number;
+  commitment: CommitmentUpdate["status"];
+}
+
+/** i64 unix-second fields; the program leaves unset deadlines at 0 */
+const TIMESTAMP_FIELDS = new Set([
+  "timestamp",
+  "deposit_deadline",
+  "fiat_deadline",
+]);
+
+export function camelCase(field: string): string {
+  return field.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+export function toIsoTimestamp(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+export function normalizeEventData(
+  data: Record<string, any>
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(data).map(([field, value]) => {
+      if (TIMESTAMP_FIELDS.has(field)) {
+        const seconds = Number(value);
+        return [camelCase(field), seconds ? toIsoTimestamp(seconds) : null];
+      }
+      return [camelCase(field), toJsonValue(value)];
+    })
+  );
+}
+
+export function normalizeEvent(event: ListenerEvent): NormalizedEvent {
+  return {
+    event: event.name,
+    signature: event.signature,
+    slot: event.slot,
+    logIndex: event.logIndex,
+    blockTime:
+      event.blockTime !== null ? toIsoTimestamp(event.blockTime) : null,
+    commitment: event.commitment,
+    data: normalizeEventData(event.data),
+  };
+}
+
+const usdc = (amount: unknown) =>
+  `${formatAmount(amount as string, USDC_DECIMALS)} USDC`;
+
+const decision = (buyerWins: unknown) =>
+  buyerWins ? "Buyer Wins" : "Seller Wins";
+
+/**
+ * Event-specific lines of the pretty view, from normalized data
+ */
+function prettyFields(event: EscrowEventName, d: Record<string, any>) {
+  const lines = [`🆔 Escrow ID: ${d.escrowId}`, `🔄 Trade ID: ${d.tradeId}`];
+  switch (event) {
+    case "EscrowCreated":
+      lines.push(
+        `👤 Seller: ${d.seller}`,
+        `👤 Buyer: ${d.buyer}`,
+        `⚖️  Arbitrator: ${d.arbitrator}`,
+        `💰 Amount: ${usdc(d.amount)}`,
+        `💸 Fee: ${usdc(d.fee)}`,
+        `⏳ Deposit Deadline: ${d.depositDeadline}`,
+        `🔄 Sequential: ${d.sequential ? "Yes" : "No"}`
+      );
+      if (d.sequentialEscrowAddress) {
+        lines.push(`🔗 Sequential Address: ${d.sequentialEscrowAddress}`);
+      }
+      break;
+    case "FundsDeposited":
+      lines.push(
+        `💰 Amount: ${usdc(d.amount)}`,
+        `💸 Fee: ${usdc(d.fee)}`,
+        `🔢 Counter: ${d.counter}`
+      );
+      break;
+    case "FiatMarkedPaid":
+      lines.push(`✅ Fiat payment marked as completed`);
+      break;
+    case "EscrowReleased":
+      lines.push(
+        `👤 Buyer: ${d.buyer}`,
+        `💰 Amount: ${usdc(d.amount)}`,
+        `💸 Fee: ${usdc(d.fee)}`,
+        `🎯 Destination: ${d.destination}`
+      );
+      break;
+    case "EscrowCancelled":
+      lines.push(
+        `👤 Seller: ${d.seller}`,
+        `💰 Amount: ${usdc(d.amount)}`,
+        `💸 Fee: ${usdc(d.fee)}`
+      );
+      break;
+    case "DisputeOpened":
+      lines.push(
+        `👤 Disputing Party: ${d.disputingParty}`,
+        `🔐 Evidence Hash: ${d.evidenceHash}`,
+        `💰 Bond Amount: ${usdc(d.bondAmount)}`
+      );
+      break;
+    case "DisputeResponseSubmitted":
+      lines.push(
+        `👤 Responding Party: ${d.respondingParty}`,
+        `🔐 Evidence Hash: ${d.evidenceHash}`,
+        `💰 Bond Amount: ${usdc(d.bondAmount)}`
+      );
+      break;
+    case "DisputeResolved":
+      lines.push(
+        `⚖️  Decision: ${decision(d.decision)}`,
+        `👑 Winner: ${d.winner}`,
+        `💸 Fee: ${usdc(d.fee)}`,
+        `🔐 Resolution Hash: ${d.resolutionHash}`
+      );
+      break;
+    case "DisputeDefaultJudgment":
+      lines.push(
+        `👤 Defaulting Party: ${d.defaultingParty}`,
+        `⚖️  Decision: ${decision(d.decision)}`
+      );
+      break;
+    case "EscrowBalanceChanged":
+      lines.push(
+        `💰 New Balance: ${usdc(d.newBalance)}`,
+        `📝 Reason: ${d.reason}`
+      );
+      break;
+    case "SequentialAddressUpdated":
+      if (d.oldAddress) lines.push(`🔗 Old Address: ${d.oldAddress}`);
+      lines.push(`🔗 New Address: ${d.newAddress}`);
+      break;
+  }
+  lines.push(`⏰ Timestamp: ${d.timestamp}`);
+  return lines;
+}
+
+export function formatPretty(event: NormalizedEvent): string {
+  return [
+    "=".repeat(80),
+    `🎯 EVENT: ${event.event}`,
+    `📝 Signature: ${event.signature}`,
+    `🎰 Slot: ${event.slot}`,
+    `📌 Commitment: ${event.commitment}`,
+    `⏰ Time: ${event.blockTime ?? new Date().toISOString()}`,
+    "-".repeat(80),
+    ...prettyFields(event.event, event.data),
+    "=".repeat(80),
+  ].join("\n");
+}
+
+export function formatEvent(
+  event: ListenerEvent,
+  format: OutputFormat
+): string {
+  const normalized = normalizeEvent(event);
+  switch (format) {
+    case "ndjson":
+      return JSON.stringify(normalized);
+    case "json":
+      return JSON.stringify(normalized, null, 2);
+    case "pretty":
+      return "\n" + formatPretty(normalized);
+  }
+}
+
+export function normalizeCommitmentUpdate(
+  update: CommitmentUpdate
+): NormalizedCommitmentUpdate {
+  return {
+    signature: update.signature,
+    slot: update.slot,
+    commitment: update.status,
+  };
+}
+
+export function formatCommitmentUpdate(
+  update: CommitmentUpdate,
+  format: OutputFormat
+): string {
+  const record = normalizeCommitmentUpdate(update);
+  switch (format) {
+    case "ndjson":
+      return JSON.stringify(record);
+    case "json":
+      return JSON.stringify(record, null, 2);
+    case "pretty":
+      return update.status === "finalized"
+        ? `🔒 Finalized: ${update.signature} (slot ${update.slot})`
+        : `⛔ RETRACTED: ${update.signature} (slot ${update.slot}) never finalized; disregard its events`;
+  }
+}
+
+/** Progress and error messages, kept apart from the event records */
+export interface StatusLogger {
+  log(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+/**
+ * Status messages share stdout with `pretty` output; machine formats keep
+ * stdout for records only (so it can be piped into jq) and send status to
+ * stderr. Records themselves are written with process.stdout.write.
+ */
+export function statusLogger(format: OutputFormat): StatusLogger {
+  return {
+    log: (...args) =>
+      format === "pretty" ? console.log(...args) : console.error(...args),
+    error: (...args) => console.error(...args),
+  };
+}
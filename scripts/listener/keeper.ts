@@ -0,0 +1,310 @@
+/**
+ * Arbitrator keeper for expired escrows
+ *
+ * Some instructions only the arbitrator can sign, and only once a deadline
+ * has passed: nothing happens unless someone sends them. A keeper scans the
+ * arbitrator's escrows, picks the ones a task is eligible for (checked with
+ * the offline state machine against the cluster clock, so local clock skew
+ * cannot cause premature sends), and sends the instruction.
+ *
+ * Runs are idempotent: each escrow is re-fetched right before sending, and a
+ * send that fails because the escrow was settled in the meantime (by its
+ * parties or another keeper) is reported as skipped, not failed. In dry-run
+ * mode eligible escrows are only reported, so no keypair is needed.
+ */
+
+import { BN } from "@coral-xyz/anchor";
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SYSVAR_CLOCK_PUBKEY,
+} from "@solana/web3.js";
+import { EscrowAccount, EscrowClient } from "../../sdk/client";
+import { parseEscrowError } from "../../sdk/errors";
+import { EscrowIds } from "../../sdk/pda";
+import {
+  EscrowInstructionName,
+  escrowStateName,
+  simulateEscrow,
+} from "../../sdk/state-machine";
+
+/** Offset of `arbitrator` in the Escrow account: discriminator, ids, seller, buyer */
+const ARBITRATOR_OFFSET = 8 + 8 + 8 + 32 + 32;
+
+export interface KeeperTask {
+  instruction: EscrowInstructionName;
+  /** Whether `arbitrator` may send the instruction for `escrow` at `now` */
+  eligible(escrow: EscrowAccount, now: number, arbitrator: PublicKey): boolean;
+  /** What sending would do to `escrow`, recorded with the outcome */
+  describe?(escrow: EscrowAccount): string;
+  send(
+    client: EscrowClient,
+    ids: EscrowIds,
+    arbitrator: Keypair
+  ): Promise<string>;
+}
+
+/**
+ * auto_cancel after the deposit deadline (Created) or the fiat deadline
+ * without fiat paid (Funded); funds and rent go back to the seller
+ */
+export const AUTO_CANCEL_TASK: KeeperTask = {
+  instruction: "autoCancel",
+  eligible(escrow, now, arbitrator) {
+    // The program does not reject Disputed escrows, but cancelling one would
+    // close the account and strand the vault and bonds
+    const state = escrowStateName(escrow.state);
+    if (state !== "Created" && state !== "Funded") return false;
+    return simulateEscrow(escrow, now, { signer: arbitrator }).autoCancel.ok;
+  },
+  send: (client, ids, arbitrator) => client.autoCancel(ids, arbitrator),
+};
+
+/**
+ * The party that wins a default judgment: the dispute initiator, when the
+ * other side has not submitted its evidence hash. Null while both (or
+ * neither) have, or outside a dispute.
+ */
+export function defaultJudgmentWinner(
+  escrow: EscrowAccount
+): "buyer" | "seller" | null {
+  const initiator = escrow.disputeInitiator;
+  if (escrowStateName(escrow.state) !== "Disputed" || !initiator) return null;
+  if (initiator.equals(escrow.buyer)) {
+    return escrow.disputeEvidenceHashSeller ? null : "buyer";
+  }
+  return escrow.disputeEvidenceHashBuyer ? null : "seller";
+}
+
+/**
+ * default_judgment once the 72 hour response deadline has passed without the
+ * other party responding: principal, fee and the initiator's bond go to the
+ * initiator
+ */
+export const DEFAULT_JUDGMENT_TASK: KeeperTask = {
+  instruction: "defaultJudgment",
+  eligible(escrow, now, arbitrator) {
+    if (!defaultJudgmentWinner(escrow)) return false;
+    return simulateEscrow(escrow, now, { signer: arbitrator }).defaultJudgment
+      .ok;
+  },
+  describe(escrow) {
+    const winner = defaultJudgmentWinner(escrow);
+    const defaulter = winner === "buyer" ? "seller" : "buyer";
+    return `${defaulter} did not respond; ${winner} wins`;
+  },
+  // Both bond accounts exist since opening the dispute; the program picks the
+  // winner's from the evidence hashes
+  send: (client, ids, arbitrator) => client.defaultJudgment(ids, arbitrator),
+};
+
+export type KeeperOutcomeStatus = "sent" | "dry-run" | "skipped" | "failed";
+
+export interface KeeperOutcome {
+  instruction: EscrowInstructionName;
+  escrow: PublicKey;
+  escrowId: BN;
+  tradeId: BN;
+  status: KeeperOutcomeStatus;
+  signature?: string;
+  /** Why the escrow was skipped or the send failed */
+  reason?: string;
+  /** What the instruction does to this escrow (see KeeperTask.describe) */
+  detail?: string;
+}
+
+/**
+ * Outcome as a JSON-friendly record, for logs
+ */
+export function outcomeRecord(
+  outcome: KeeperOutcome,
+  at: Date = new Date()
+): Record<string, string> {
+  const { instruction, escrow, escrowId, tradeId, status, ...rest } = outcome;
+  return {
+    at: at.toISOString(),
+    instruction,
+    escrow: escrow.toBase58(),
+    escrowId: escrowId.toString(),
+    tradeId: tradeId.toString(),
+    status,
+    ...Object.fromEntries(
+      Object.entries(rest).filter(([, value]) => value !== undefined)
+    ),
+  };
+}
+
+export interface KeeperOptions {
+  /** Report eligible escrows without sending anything */
+  dryRun?: boolean;
+  /** Unix seconds; defaults to the cluster clock */
+  now?: () => Promise<number>;
+  onOutcome?: (outcome: KeeperOutcome) => void;
+  /** Failures of a whole run (discovery, clock) */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Unix time of the cluster, as the program's Clock::get() sees it
+ */
+export async function clusterTime(connection: Connection): Promise<number> {
+  const clock = await connection.getAccountInfo(SYSVAR_CLOCK_PUBKEY);
+  if (!clock) throw new Error("Clock sysvar not found");
+  // slot, epoch_start_timestamp, epoch, leader_schedule_epoch, unix_timestamp
+  return Number(clock.data.readBigInt64LE(32));
+}
+
+export class EscrowKeeper {
+  readonly arbitrator: PublicKey;
+  private signer: Keypair | null;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<KeeperOutcome[]> | null = null;
+
+  constructor(
+    private client: EscrowClient,
+    arbitrator: Keypair | PublicKey,
+    private task: KeeperTask,
+    private options: KeeperOptions = {}
+  ) {
+    if (arbitrator instanceof PublicKey) {
+      if (!options.dryRun) {
+        throw new Error("Sending requires the arbitrator keypair");
+      }
+      this.arbitrator = arbitrator;
+      this.signer = null;
+    } else {
+      this.arbitrator = arbitrator.publicKey;
+      this.signer = arbitrator;
+    }
+  }
+
+  private now(): Promise<number> {
+    return (
+      this.options.now?.() ??
+      clusterTime(this.client.program.provider.connection)
+    );
+  }
+
+  /**
+   * The arbitrator's escrows the task is eligible for at `now`
+   */
+  async discover(
+    now: number
+  ): Promise<{ address: PublicKey; account: EscrowAccount }[]> {
+    const accounts = await this.client.program.account.escrow.all([
+      {
+        memcmp: {
+          offset: ARBITRATOR_OFFSET,
+          bytes: this.arbitrator.toBase58(),
+        },
+      },
+    ]);
+    return accounts
+      .filter(({ account }) =>
+        this.task.eligible(account, now, this.arbitrator)
+      )
+      .map(({ publicKey, account }) => ({ address: publicKey, account }));
+  }
+
+  /**
+   * One pass: send the task's instruction to every eligible escrow
+   */
+  async run(): Promise<KeeperOutcome[]> {
+    const now = await this.now();
+    const outcomes: KeeperOutcome[] = [];
+    for (const { address, account } of await this.discover(now)) {
+      const outcome = await this.process(address, account, now);
+      outcomes.push(outcome);
+      this.options.onOutcome?.(outcome);
+    }
+    return outcomes;
+  }
+
+  private async process(
+    address: PublicKey,
+    discovered: EscrowAccount,
+    now: number
+  ): Promise<KeeperOutcome> {
+    const ids: EscrowIds = {
+      escrowId: discovered.escrowId,
+      tradeId: discovered.tradeId,
+    };
+    const outcome = (
+      status: KeeperOutcomeStatus,
+      extra: Pick<KeeperOutcome, "signature" | "reason"> = {}
+    ): KeeperOutcome => ({
+      instruction: this.task.instruction,
+      escrow: address,
+      ...ids,
+      status,
+      detail: this.task.describe?.(discovered),
+      ...extra,
+    });
+
+    // The scan may be stale by now
+    const current = await this.client.program.account.escrow.fetchNullable(
+      address
+    );
+    const settled = this.settledReason(current, now);
+    if (settled) return outcome("skipped", { reason: settled });
+    if (this.options.dryRun || !this.signer) return outcome("dry-run");
+
+    try {
+      const signature = await this.task.send(this.client, ids, this.signer);
+      return outcome("sent", { signature });
+    } catch (error) {
+      const after = await this.client.program.account.escrow
+        .fetchNullable(address)
+        .catch(() => current);
+      const raced = this.settledReason(after, now);
+      if (raced) return outcome("skipped", { reason: `${raced} concurrently` });
+      const escrowError = parseEscrowError(error);
+      return outcome("failed", {
+        reason: escrowError
+          ? `${escrowError.errorName}: ${escrowError.message}`
+          : error instanceof Error
+          ? error.message
+          : String(error),
+      });
+    }
+  }
+
+  /** Why `escrow` no longer needs the task, or null if it still does */
+  private settledReason(
+    escrow: EscrowAccount | null,
+    now: number
+  ): string | null {
+    if (!escrow) return "closed";
+    if (!this.task.eligible(escrow, now, this.arbitrator)) {
+      return `no longer eligible (${escrowStateName(escrow.state)})`;
+    }
+    return null;
+  }
+
+  /**
+   * Run now and then every `intervalMs`; runs never overlap
+   */
+  start(intervalMs: number): void {
+    if (this.timer) return;
+    const tick = () => {
+      if (this.running) return;
+      this.running = this.run()
+        .catch((error) => {
+          this.options.onError?.(error);
+          return [];
+        })
+        .finally(() => (this.running = null));
+    };
+    tick();
+    this.timer = setInterval(tick, intervalMs);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.running;
+  }
+}
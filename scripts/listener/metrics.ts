@@ -0,0 +1,220 @@
+/**
+ * Prometheus metrics for long-running services (listener, keepers)
+ *
+ * A minimal registry of counters and gauges rendered in the Prometheus text
+ * exposition format, served on GET /metrics. Gauges that are cheaper to read
+ * on demand than to keep current (projection totals, cluster lag) are filled
+ * in by collectors that run before every scrape.
+ */
+
+import * as http from "http";
+import { EscrowStateName, escrowStateName } from "../../sdk/state-machine";
+import { ESCROW_EVENT_NAMES } from "./events";
+import { EscrowProjection } from "./projection";
+
+type Labels = Record<string, string>;
+
+const labelKey = (labels: Labels) => JSON.stringify(Object.entries(labels));
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const renderLabels = (labels: Labels) => {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabel(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+};
+
+abstract class Metric {
+  protected values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge"
+  ) {}
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  protected update(labels: Labels, fn: (value: number) => number) {
+    const key = labelKey(labels);
+    const current = this.values.get(key)?.value ?? 0;
+    this.values.set(key, { labels, value: fn(current) });
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`];
+    lines.push(`# TYPE ${this.name} ${this.type}`);
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${renderLabels(labels)} ${value}`);
+    }
+    return lines.join("\n");
+  }
+}
+
+export class Counter extends Metric {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    this.update(labels, (value) => value + amount);
+  }
+}
+
+export class Gauge extends Metric {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(value: number, labels: Labels = {}): void {
+    this.update(labels, () => value);
+  }
+
+  /** Drop every label set, e.g. before re-filling from a snapshot */
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+  private collectors: (() => void | Promise<void>)[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  /** Run `collect` before each scrape to refresh on-demand gauges */
+  addCollector(collect: () => void | Promise<void>): void {
+    this.collectors.push(collect);
+  }
+
+  async render(): Promise<string> {
+    for (const collect of this.collectors) {
+      await collect();
+    }
+    return this.metrics.map((metric) => metric.render()).join("\n") + "\n";
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+/**
+ * Serve the registry on GET /metrics; resolves once listening
+ */
+export async function startMetricsServer(
+  registry: MetricsRegistry,
+  port: number,
+  host = "0.0.0.0"
+): Promise<http.Server> {
+  const server = http.createServer(async (req, res) => {
+    if (req.method !== "GET" || req.url?.split("?")[0] !== "/metrics") {
+      res.writeHead(404).end();
+      return;
+    }
+    try {
+      const body = await registry.render();
+      res
+        .writeHead(200, { "Content-Type": "text/plain; version=0.0.4" })
+        .end(body);
+    } catch (error) {
+      res.writeHead(500).end(String(error));
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(port, host, resolve));
+  return server;
+}
+
+export interface ListenerMetrics {
+  events: Counter;
+  decodeFailures: Counter;
+  rpcErrors: Counter;
+  reconnects: Counter;
+  lastProcessedSlot: Gauge;
+  slotLag: Gauge;
+  openEscrows: Gauge;
+  trackedBalance: Gauge;
+}
+
+export function createListenerMetrics(
+  registry: MetricsRegistry
+): ListenerMetrics {
+  const metrics = {
+    events: registry.counter(
+      "escrow_listener_events_total",
+      "Decoded program events by event type"
+    ),
+    decodeFailures: registry.counter(
+      "escrow_listener_decode_failures_total",
+      "Program data log lines that could not be decoded"
+    ),
+    rpcErrors: registry.counter(
+      "escrow_listener_rpc_errors_total",
+      "Failed RPC calls by operation"
+    ),
+    reconnects: registry.counter(
+      "escrow_listener_reconnects_total",
+      "Log subscriptions recreated after the socket went silent"
+    ),
+    lastProcessedSlot: registry.gauge(
+      "escrow_listener_last_processed_slot",
+      "Slot of the newest processed transaction"
+    ),
+    slotLag: registry.gauge(
+      "escrow_listener_slot_lag",
+      "Slots between the cluster tip and the newest slot the listener has caught up to"
+    ),
+    openEscrows: registry.gauge(
+      "escrow_open_escrows",
+      "Open escrows in the projection by state"
+    ),
+    trackedBalance: registry.gauge(
+      "escrow_tracked_balance",
+      "Sum of trackedBalance over open escrows, in token base units"
+    ),
+  };
+  // Export zeroes up front so rate() works from the first event
+  for (const event of ESCROW_EVENT_NAMES) metrics.events.inc({ event }, 0);
+  metrics.decodeFailures.inc({}, 0);
+  metrics.reconnects.inc({}, 0);
+  return metrics;
+}
+
+const OPEN_STATES: EscrowStateName[] = ["Created", "Funded", "Disputed"];
+
+/**
+ * Refresh the open-escrow gauges from the projection on every scrape
+ */
+export function collectProjectionMetrics(
+  registry: MetricsRegistry,
+  metrics: ListenerMetrics,
+  projection: EscrowProjection
+): void {
+  registry.addCollector(() => {
+    const open = projection.open();
+    metrics.openEscrows.reset();
+    for (const state of OPEN_STATES) {
+      metrics.openEscrows.set(0, { state });
+    }
+    let balance = 0n;
+    for (const escrow of open) {
+      const state = escrowStateName(escrow.state);
+      metrics.openEscrows.set(metrics.openEscrows.get({ state }) + 1, {
+        state,
+      });
+      balance += BigInt(escrow.trackedBalance.toString());
+    }
+    metrics.trackedBalance.set(Number(balance));
+  });
+}
@@ -0,0 +1,350 @@
+/**
+ * Event-sourced escrow read model
+ *
+ * Folds the program's events into one Escrow-shaped record per escrow
+ * (keyed by object_id, the escrow PDA), so "what state is trade X in" can be
+ * answered without an RPC call. The fold mirrors the field updates each
+ * instruction makes in programs/localsolana_contracts/src/lib.rs.
+ *
+ * Released, cancelled and resolved escrows have their account closed on
+ * chain; the projection keeps them (with `closed: true`) as history.
+ *
+ * Confirmed events are applied on arrival. Until they finalize, each escrow
+ * also keeps its record as of its finalized events plus the events applied
+ * since, so a retracted transaction is undone by re-folding the rest.
+ */
+
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { EscrowAccount } from "../../sdk/client";
+import { FIAT_DEADLINE_MINUTES, SECONDS_PER_MINUTE } from "../../sdk/constants";
+import {
+  EscrowStateName,
+  escrowStateName,
+  escrowStateValue,
+  TERMINAL_STATES,
+} from "../../sdk/state-machine";
+import { CommitmentUpdate, EventSink, ListenerEvent } from "./events";
+
+export interface ProjectedEscrow extends EscrowAccount {
+  /** Escrow PDA (the events' object_id) */
+  address: PublicKey;
+  /** Party that received the funds of a resolved dispute */
+  winner: PublicKey | null;
+  /** Unix time of the dispute response, which the account does not store */
+  disputeResponseTime: BN | null;
+  /** Whether the account has been closed on chain */
+  closed: boolean;
+  lastSignature: string;
+  lastSlot: number;
+  /** Unix time of the latest event */
+  updatedAt: number;
+}
+
+export interface EscrowDivergence {
+  address: PublicKey;
+  /** Escrow field that differs, or "account" if it exists on one side only */
+  field: string;
+  projected: string;
+  onChain: string;
+}
+
+/**
+ * Apply one event to the current record (undefined before EscrowCreated).
+ * Returns the updated record, or undefined if the event cannot be applied
+ * because the escrow's creation was never seen.
+ */
+export function applyEvent(
+  current: ProjectedEscrow | undefined,
+  event: ListenerEvent
+): ProjectedEscrow | undefined {
+  const { data } = event;
+  const meta = {
+    lastSignature: event.signature,
+    lastSlot: event.slot,
+    updatedAt: (data.timestamp as BN).toNumber(),
+  };
+
+  if (event.name === "EscrowCreated") {
+    return {
+      address: data.object_id,
+      escrowId: data.escrow_id,
+      tradeId: data.trade_id,
+      seller: data.seller,
+      buyer: data.buyer,
+      arbitrator: data.arbitrator,
+      amount: data.amount,
+      fee: data.fee,
+      depositDeadline: data.deposit_deadline,
+      fiatDeadline: data.fiat_deadline,
+      state: escrowStateValue("Created"),
+      sequential: data.sequential,
+      sequentialEscrowAddress: data.sequential_escrow_address,
+      fiatPaid: false,
+      counter: new BN(0),
+      disputeInitiator: null,
+      disputeInitiatedTime: null,
+      disputeEvidenceHashBuyer: null,
+      disputeEvidenceHashSeller: null,
+      disputeResolutionHash: null,
+      trackedBalance: new BN(0),
+      winner: null,
+      disputeResponseTime: null,
+      closed: false,
+      ...meta,
+    };
+  }
+  if (!current) return undefined;
+
+  const next: ProjectedEscrow = { ...current, ...meta };
+  const evidenceField = (party: PublicKey) =>
+    party.equals(current.buyer)
+      ? "disputeEvidenceHashBuyer"
+      : "disputeEvidenceHashSeller";
+  const close = (state: EscrowStateName) => {
+    next.state = escrowStateValue(state);
+    next.closed = true;
+  };
+
+  switch (event.name) {
+    case "FundsDeposited":
+      next.state = escrowStateValue("Funded");
+      next.counter = data.counter;
+      // fund_escrow starts the fiat window at the deposit time
+      next.fiatDeadline = (data.timestamp as BN).addn(
+        FIAT_DEADLINE_MINUTES * SECONDS_PER_MINUTE
+      );
+      break;
+    case "FiatMarkedPaid":
+      next.fiatPaid = true;
+      break;
+    case "SequentialAddressUpdated":
+      next.sequentialEscrowAddress = data.new_address;
+      break;
+    case "EscrowReleased":
+      next.counter = data.counter;
+      close("Released");
+      break;
+    case "EscrowCancelled":
+      next.counter = data.counter;
+      close("Cancelled");
+      break;
+    case "DisputeOpened":
+      next.state = escrowStateValue("Disputed");
+      next.disputeInitiator = data.disputing_party;
+      next.disputeInitiatedTime = data.timestamp;
+      next[evidenceField(data.disputing_party)] = data.evidence_hash;
+      break;
+    case "DisputeResponseSubmitted":
+      next[evidenceField(data.responding_party)] = data.evidence_hash;
+      next.disputeResponseTime = data.timestamp;
+      break;
+    case "DisputeResolved":
+      next.counter = data.counter;
+      next.disputeResolutionHash = data.resolution_hash;
+      next.winner = data.winner;
+      close("Resolved");
+      break;
+    case "DisputeDefaultJudgment":
+      next.winner = (data.defaulting_party as PublicKey).equals(current.buyer)
+        ? current.seller
+        : current.buyer;
+      close("Resolved");
+      break;
+    case "EscrowBalanceChanged":
+      next.trackedBalance = data.new_balance;
+      break;
+  }
+  return next;
+}
+
+const render = (value: unknown): string => {
+  if (value === null || value === undefined) return "null";
+  if (value instanceof PublicKey || BN.isBN(value)) return value.toString();
+  if (Array.isArray(value)) return Buffer.from(value).toString("hex");
+  return JSON.stringify(value);
+};
+
+// Fields of the Escrow account compared against the chain
+const COMPARED_FIELDS: (keyof EscrowAccount)[] = [
+  "escrowId",
+  "tradeId",
+  "seller",
+  "buyer",
+  "arbitrator",
+  "amount",
+  "fee",
+  "depositDeadline",
+  "fiatDeadline",
+  "state",
+  "sequential",
+  "sequentialEscrowAddress",
+  "fiatPaid",
+  "counter",
+  "disputeInitiator",
+  "disputeInitiatedTime",
+  "disputeEvidenceHashBuyer",
+  "disputeEvidenceHashSeller",
+  "disputeResolutionHash",
+  "trackedBalance",
+];
+
+/**
+ * Compare a projected record with the decoded account (null if closed)
+ */
+export function diffEscrow(
+  projected: ProjectedEscrow,
+  account: EscrowAccount | null
+): EscrowDivergence[] {
+  const address = projected.address;
+  if (!account) {
+    return projected.closed
+      ? []
+      : [{ address, field: "account", projected: "open", onChain: "closed" }];
+  }
+  if (projected.closed) {
+    return [
+      { address, field: "account", projected: "closed", onChain: "open" },
+    ];
+  }
+
+  return COMPARED_FIELDS.flatMap((field) => {
+    const ours =
+      field === "state"
+        ? escrowStateName(projected.state)
+        : render(projected[field]);
+    const theirs =
+      field === "state"
+        ? escrowStateName(account.state)
+        : render(account[field]);
+    return ours === theirs
+      ? []
+      : [{ address, field, projected: ours, onChain: theirs }];
+  });
+}
+
+interface UnsettledEscrow {
+  /** Record as of the finalized events (undefined before EscrowCreated) */
+  settled: ProjectedEscrow | undefined;
+  /** Events applied on top of `settled`, oldest first */
+  events: ListenerEvent[];
+}
+
+/**
+ * In-memory projection of every escrow seen by the listener
+ */
+export class EscrowProjection implements EventSink {
+  private escrows = new Map<string, ProjectedEscrow>();
+  /** Escrows with events that are not finalized yet */
+  private unsettled = new Map<string, UnsettledEscrow>();
+  /** Escrows touched by each unsettled transaction */
+  private unsettledKeys = new Map<string, Set<string>>();
+  /** Events for escrows whose EscrowCreated was not seen */
+  orphanedEvents = 0;
+
+  handle(event: ListenerEvent): void {
+    const key = (event.data.object_id as PublicKey).toBase58();
+    const current = this.escrows.get(key);
+    const next = applyEvent(current, event);
+    if (!next) {
+      this.orphanedEvents++;
+      return;
+    }
+    this.escrows.set(key, next);
+
+    const pending = this.unsettled.get(key);
+    if (event.commitment === "finalized" && !pending) return;
+    if (pending) {
+      pending.events.push(event);
+    } else {
+      this.unsettled.set(key, { settled: current, events: [event] });
+    }
+    const keys = this.unsettledKeys.get(event.signature) ?? new Set();
+    this.unsettledKeys.set(event.signature, keys.add(key));
+  }
+
+  /**
+   * Settle the transaction's events, or undo them if it was retracted
+   */
+  commitmentChanged(update: CommitmentUpdate): void {
+    const keys = this.unsettledKeys.get(update.signature);
+    if (!keys) return;
+    this.unsettledKeys.delete(update.signature);
+
+    for (const key of keys) {
+      const pending = this.unsettled.get(key)!;
+      pending.events =
+        update.status === "finalized"
+          ? pending.events.map((event) =>
+              event.signature === update.signature
+                ? { ...event, slot: update.slot, commitment: "finalized" }
+                : event
+            )
+          : pending.events.filter(
+              (event) => event.signature !== update.signature
+            );
+
+      // Events that cannot apply any more (their creation was retracted)
+      // are skipped, as they would have been on arrival
+      const fold = (events: ListenerEvent[]) =>
+        events.reduce(
+          (record, event) => applyEvent(record, event) ?? record,
+          pending.settled
+        );
+      const firstUnsettled = pending.events.findIndex(
+        (event) => event.commitment !== "finalized"
+      );
+      const current = fold(pending.events);
+      if (firstUnsettled === -1) {
+        this.unsettled.delete(key);
+      } else {
+        pending.settled = fold(pending.events.slice(0, firstUnsettled));
+        pending.events = pending.events.slice(firstUnsettled);
+      }
+      if (current) {
+        this.escrows.set(key, current);
+      } else {
+        this.escrows.delete(key);
+      }
+    }
+  }
+
+  get(address: PublicKey | string): ProjectedEscrow | undefined {
+    return this.escrows.get(address.toString());
+  }
+
+  findByIds(escrowId: BN, tradeId: BN): ProjectedEscrow | undefined {
+    return this.all().find(
+      (escrow) => escrow.escrowId.eq(escrowId) && escrow.tradeId.eq(tradeId)
+    );
+  }
+
+  /** All escrows (a trade may span a chain of sequential escrows) */
+  findByTrade(tradeId: BN): ProjectedEscrow[] {
+    return this.all().filter((escrow) => escrow.tradeId.eq(tradeId));
+  }
+
+  all(): ProjectedEscrow[] {
+    return [...this.escrows.values()];
+  }
+
+  open(): ProjectedEscrow[] {
+    return this.all().filter(
+      (escrow) => !TERMINAL_STATES.includes(escrowStateName(escrow.state))
+    );
+  }
+
+  /**
+   * Fetch each open escrow's account and report fields that disagree.
+   * `fetch` is typically `program.account.escrow.fetchNullable`.
+   */
+  async verify(
+    fetch: (address: PublicKey) => Promise<EscrowAccount | null>
+  ): Promise<EscrowDivergence[]> {
+    const divergences: EscrowDivergence[] = [];
+    for (const escrow of this.open()) {
+      divergences.push(...diffEscrow(escrow, await fetch(escrow.address)));
+    }
+    return divergences;
+  }
+}
@@ -0,0 +1,379 @@
+/**
+ * Escrow queries over the listener's SQLite store
+ *
+ * The store's events are replayed into the escrow projection, together with
+ * each escrow's event history, and the result is rebuilt whenever the store
+ * changes (new rows or commitment updates), so a long-running API follows the
+ * listener writing to the same file. Retracted events are left out, as in the
+ * projection.
+ *
+ * Lists are paginated with opaque cursors. Escrows are ordered by their
+ * EscrowCreated event and events by (slot, signature, log index); a cursor
+ * encodes that position, so pages stay consistent while new escrows arrive.
+ */
+
+import { BN, BorshCoder } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { escrowStateName } from "../../sdk/state-machine";
+import { ListenerEvent } from "./events";
+import { NormalizedEvent, normalizeEvent, toIsoTimestamp } from "./format";
+import { EscrowProjection, ProjectedEscrow } from "./projection";
+import { SqliteEventStore } from "./sqlite-store";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export const PARTICIPANT_ROLES = ["seller", "buyer", "arbitrator"] as const;
+
+export type ParticipantRole = (typeof PARTICIPANT_ROLES)[number];
+
+/**
+ * A request the API cannot answer as asked (bad address, id or cursor)
+ */
+export class QueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueryError";
+  }
+}
+
+export interface PageArgs {
+  first?: number | null;
+  after?: string | null;
+}
+
+export interface PageInfo {
+  /** Cursor of the last node, to pass as `after` for the next page */
+  endCursor: string | null;
+  hasNextPage: boolean;
+}
+
+export interface Page<T> {
+  nodes: T[];
+  pageInfo: PageInfo;
+}
+
+/** Where an event sits in the program's history */
+export interface EventPosition {
+  slot: number;
+  signature: string;
+  logIndex: number;
+}
+
+/**
+ * Escrow record as served by the API: base58 addresses, decimal strings for
+ * u64 values, hex hashes and ISO-8601 times (null while unset)
+ */
+export interface NormalizedEscrow {
+  address: string;
+  escrowId: string;
+  tradeId: string;
+  state: string;
+  seller: string;
+  buyer: string;
+  arbitrator: string;
+  amount: string;
+  fee: string;
+  depositDeadline: string | null;
+  fiatDeadline: string | null;
+  fiatPaid: boolean;
+  sequential: boolean;
+  sequentialEscrowAddress: string | null;
+  counter: string;
+  trackedBalance: string;
+  disputeInitiator: string | null;
+  disputeInitiatedAt: string | null;
+  disputeResponseAt: string | null;
+  disputeEvidenceHashBuyer: string | null;
+  disputeEvidenceHashSeller: string | null;
+  disputeResolutionHash: string | null;
+  winner: string | null;
+  closed: boolean;
+  lastSignature: string;
+  lastSlot: number;
+  updatedAt: string;
+}
+
+const address = (key: PublicKey | null) => key?.toBase58() ?? null;
+const hash = (value: number[] | null) =>
+  value ? Buffer.from(value).toString("hex") : null;
+const time = (seconds: BN | null) =>
+  seconds && !seconds.isZero() ? toIsoTimestamp(seconds.toNumber()) : null;
+
+export function normalizeEscrow(escrow: ProjectedEscrow): NormalizedEscrow {
+  return {
+    address: escrow.address.toBase58(),
+    escrowId: escrow.escrowId.toString(),
+    tradeId: escrow.tradeId.toString(),
+    state: escrowStateName(escrow.state),
+    seller: escrow.seller.toBase58(),
+    buyer: escrow.buyer.toBase58(),
+    arbitrator: escrow.arbitrator.toBase58(),
+    amount: escrow.amount.toString(),
+    fee: escrow.fee.toString(),
+    depositDeadline: time(escrow.depositDeadline),
+    fiatDeadline: time(escrow.fiatDeadline),
+    fiatPaid: escrow.fiatPaid,
+    sequential: escrow.sequential,
+    sequentialEscrowAddress: address(escrow.sequentialEscrowAddress),
+    counter: escrow.counter.toString(),
+    trackedBalance: escrow.trackedBalance.toString(),
+    disputeInitiator: address(escrow.disputeInitiator),
+    disputeInitiatedAt: time(escrow.disputeInitiatedTime),
+    disputeResponseAt: time(escrow.disputeResponseTime),
+    disputeEvidenceHashBuyer: hash(escrow.disputeEvidenceHashBuyer),
+    disputeEvidenceHashSeller: hash(escrow.disputeEvidenceHashSeller),
+    disputeResolutionHash: hash(escrow.disputeResolutionHash),
+    winner: address(escrow.winner),
+    closed: escrow.closed,
+    lastSignature: escrow.lastSignature,
+    lastSlot: escrow.lastSlot,
+    updatedAt: toIsoTimestamp(escrow.updatedAt),
+  };
+}
+
+export function comparePositions(a: EventPosition, b: EventPosition): number {
+  return (
+    a.slot - b.slot ||
+    (a.signature < b.signature ? -1 : a.signature > b.signature ? 1 : 0) ||
+    a.logIndex - b.logIndex
+  );
+}
+
+export function encodeCursor(position: EventPosition): string {
+  return Buffer.from(
+    JSON.stringify([position.slot, position.signature, position.logIndex])
+  ).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): EventPosition {
+  try {
+    const [slot, signature, logIndex] = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+    if (
+      Number.isInteger(slot) &&
+      typeof signature === "string" &&
+      Number.isInteger(logIndex)
+    ) {
+      return { slot, signature, logIndex };
+    }
+  } catch {
+    // reported below
+  }
+  throw new QueryError(`Invalid cursor: ${cursor}`);
+}
+
+/**
+ * One page of `items`, which must be sorted by `positionOf`
+ */
+export function paginate<T>(
+  items: T[],
+  positionOf: (item: T) => EventPosition,
+  { first, after }: PageArgs = {}
+): Page<T> {
+  const size = first ?? DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(size) || size < 1 || size > MAX_PAGE_SIZE) {
+    throw new QueryError(
+      `Invalid page size: ${first} (expected 1 to ${MAX_PAGE_SIZE})`
+    );
+  }
+  let start = 0;
+  if (after) {
+    const position = decodeCursor(after);
+    start = items.findIndex(
+      (item) => comparePositions(positionOf(item), position) > 0
+    );
+    if (start < 0) start = items.length;
+  }
+  const nodes = items.slice(start, start + size);
+  const last = nodes[nodes.length - 1];
+  return {
+    nodes,
+    pageInfo: {
+      endCursor: last ? encodeCursor(positionOf(last)) : null,
+      hasNextPage: start + size < items.length,
+    },
+  };
+}
+
+export function parseAddress(value: string): PublicKey {
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new QueryError(`Invalid address: ${value}`);
+  }
+}
+
+/** Escrow and trade ids are u64, given as decimal strings */
+export function parseU64(value: string, field = "id"): BN {
+  if (!/^\d{1,20}$/.test(value) || new BN(value).bitLength() > 64) {
+    throw new QueryError(`Invalid ${field}: ${value}`);
+  }
+  return new BN(value);
+}
+
+export function parseRole(value: string): ParticipantRole {
+  const role = value.toLowerCase();
+  if (!(PARTICIPANT_ROLES as readonly string[]).includes(role)) {
+    throw new QueryError(
+      `Unknown role: ${value} (expected ${PARTICIPANT_ROLES.join(", ")})`
+    );
+  }
+  return role as ParticipantRole;
+}
+
+export const positionOf = (event: ListenerEvent): EventPosition => ({
+  slot: event.slot,
+  signature: event.signature,
+  logIndex: event.logIndex,
+});
+
+interface IndexedEscrow {
+  escrow: ProjectedEscrow;
+  /** Position of its EscrowCreated event */
+  created: EventPosition;
+  events: ListenerEvent[];
+}
+
+/**
+ * Read-only queries answered from the event store
+ */
+export class EscrowQueries {
+  private escrows: IndexedEscrow[] = [];
+  private byAddress = new Map<string, IndexedEscrow>();
+  private version: string | null = null;
+
+  constructor(private store: SqliteEventStore, private coder: BorshCoder) {}
+
+  /**
+   * Rebuild the index if the store changed since the last call
+   */
+  refresh(): void {
+    const { last, finalized, retracted } = this.store.db
+      .prepare(
+        `SELECT MAX(rowid) AS last,
+           SUM(commitment = 'finalized') AS finalized,
+           SUM(commitment = 'retracted') AS retracted
+         FROM events`
+      )
+      .get() as { last: number | null; finalized: number; retracted: number };
+    const version = `${last}:${finalized}:${retracted}`;
+    if (version === this.version) return;
+
+    const projection = new EscrowProjection();
+    const events = new Map<string, ListenerEvent[]>();
+    const created = new Map<string, EventPosition>();
+    for (const event of this.store.replay(this.coder)) {
+      projection.handle(event);
+      const key = (event.data.object_id as PublicKey).toBase58();
+      if (event.name === "EscrowCreated") created.set(key, positionOf(event));
+      const history = events.get(key);
+      if (history) history.push(event);
+      else events.set(key, [event]);
+    }
+
+    this.escrows = projection
+      .all()
+      .map((escrow) => {
+        const key = escrow.address.toBase58();
+        return {
+          escrow,
+          created: created.get(key)!,
+          events: events
+            .get(key)!
+            .sort((a, b) => comparePositions(positionOf(a), positionOf(b))),
+        };
+      })
+      .sort((a, b) => comparePositions(a.created, b.created));
+    this.byAddress = new Map(
+      this.escrows.map((indexed) => [
+        indexed.escrow.address.toBase58(),
+        indexed,
+      ])
+    );
+    this.version = version;
+  }
+
+  private page(
+    escrows: IndexedEscrow[],
+    args?: PageArgs
+  ): Page<NormalizedEscrow> {
+    const page = paginate(escrows, (indexed) => indexed.created, args);
+    return {
+      nodes: page.nodes.map(({ escrow }) => normalizeEscrow(escrow)),
+      pageInfo: page.pageInfo,
+    };
+  }
+
+  escrow(escrowAddress: string): NormalizedEscrow | null {
+    this.refresh();
+    const key = parseAddress(escrowAddress).toBase58();
+    const indexed = this.byAddress.get(key);
+    return indexed ? normalizeEscrow(indexed.escrow) : null;
+  }
+
+  escrowByIds(escrowId: string, tradeId: string): NormalizedEscrow | null {
+    this.refresh();
+    const escrowIdValue = parseU64(escrowId, "escrow id");
+    const tradeIdValue = parseU64(tradeId, "trade id");
+    const indexed = this.escrows.find(
+      ({ escrow }) =>
+        escrow.escrowId.eq(escrowIdValue) && escrow.tradeId.eq(tradeIdValue)
+    );
+    return indexed ? normalizeEscrow(indexed.escrow) : null;
+  }
+
+  /** All escrows of a trade; sequential trades span several */
+  escrowsByTrade(tradeId: string, args?: PageArgs): Page<NormalizedEscrow> {
+    this.refresh();
+    const id = parseU64(tradeId, "trade id");
+    return this.page(
+      this.escrows.filter(({ escrow }) => escrow.tradeId.eq(id)),
+      args
+    );
+  }
+
+  /** Escrows where `participant` has `role`, or any role when omitted */
+  escrowsByParticipant(
+    participant: string,
+    role?: ParticipantRole | null,
+    args?: PageArgs
+  ): Page<NormalizedEscrow> {
+    this.refresh();
+    const key = parseAddress(participant);
+    const roles = role ? [role] : PARTICIPANT_ROLES;
+    return this.page(
+      this.escrows.filter(({ escrow }) =>
+        roles.some((r) => escrow[r].equals(key))
+      ),
+      args
+    );
+  }
+
+  /** Disputed escrows not yet resolved */
+  openDisputes(args?: PageArgs): Page<NormalizedEscrow> {
+    this.refresh();
+    return this.page(
+      this.escrows.filter(
+        ({ escrow }) =>
+          !escrow.closed && escrowStateName(escrow.state) === "Disputed"
+      ),
+      args
+    );
+  }
+
+  /**
+   * Event history of an escrow, oldest first; null for an unknown escrow
+   */
+  events(escrowAddress: string, args?: PageArgs): Page<NormalizedEvent> | null {
+    this.refresh();
+    const indexed = this.byAddress.get(parseAddress(escrowAddress).toBase58());
+    if (!indexed) return null;
+    const page = paginate(indexed.events, positionOf, args);
+    return {
+      nodes: page.nodes.map(normalizeEvent),
+      pageInfo: page.pageInfo,
+    };
+  }
+}
@@ -0,0 +1,362 @@
+/**
+ * HTTP query API: REST routes and a GraphQL endpoint over EscrowQueries
+ *
+ * REST (GET, JSON; lists take ?first=&after= and return { data, pageInfo }):
+ *   /escrows/:address                    one escrow by PDA
+ *   /escrows?escrowId=&tradeId=          one escrow by its ids
+ *   /escrows/:address/events             event history, oldest first
+ *   /trades/:tradeId/escrows             every escrow of a trade
+ *   /participants/:address/escrows       escrows of a party (?role=seller|buyer|arbitrator)
+ *   /disputes/open                       disputes not yet resolved
+ *
+ * GraphQL: POST /graphql with { query, variables, operationName }, or GET
+ * /graphql?query=...; see QUERY_SCHEMA. Bad input is a 400 (REST) or a
+ * GraphQL error; unknown escrows a 404 (REST) or null.
+ */
+
+import { buildSchema, graphql, GraphQLSchema } from "graphql";
+import * as http from "http";
+import {
+  EscrowQueries,
+  NormalizedEscrow,
+  Page,
+  PageArgs,
+  ParticipantRole,
+  parseRole,
+  QueryError,
+} from "./queries";
+
+export const QUERY_SCHEMA = `
+  "Event data as normalized JSON (camelCase keys, decimal strings for u64)"
+  scalar JSON
+
+  enum Role {
+    SELLER
+    BUYER
+    ARBITRATOR
+  }
+
+  type PageInfo {
+    endCursor: String
+    hasNextPage: Boolean!
+  }
+
+  type Event {
+    event: String!
+    signature: String!
+    slot: Float!
+    logIndex: Int!
+    blockTime: String
+    commitment: String!
+    data: JSON!
+  }
+
+  type EventConnection {
+    nodes: [Event!]!
+    pageInfo: PageInfo!
+  }
+
+  type Escrow {
+    address: String!
+    escrowId: String!
+    tradeId: String!
+    state: String!
+    seller: String!
+    buyer: String!
+    arbitrator: String!
+    amount: String!
+    fee: String!
+    depositDeadline: String
+    fiatDeadline: String
+    fiatPaid: Boolean!
+    sequential: Boolean!
+    sequentialEscrowAddress: String
+    counter: String!
+    trackedBalance: String!
+    disputeInitiator: String
+    disputeInitiatedAt: String
+    disputeResponseAt: String
+    disputeEvidenceHashBuyer: String
+    disputeEvidenceHashSeller: String
+    disputeResolutionHash: String
+    winner: String
+    closed: Boolean!
+    lastSignature: String!
+    lastSlot: Float!
+    updatedAt: String!
+    events(first: Int, after: String): EventConnection!
+  }
+
+  type EscrowConnection {
+    nodes: [Escrow!]!
+    pageInfo: PageInfo!
+  }
+
+  type Query {
+    "By PDA, or by escrowId and tradeId"
+    escrow(address: String, escrowId: String, tradeId: String): Escrow
+    escrowsByTrade(tradeId: String!, first: Int, after: String): EscrowConnection!
+    escrowsByParticipant(
+      address: String!
+      role: Role
+      first: Int
+      after: String
+    ): EscrowConnection!
+    events(escrow: String!, first: Int, after: String): EventConnection
+    openDisputes(first: Int, after: String): EscrowConnection!
+  }
+`;
+
+/** Largest accepted GraphQL request body */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Root resolvers; escrows get an `events` resolver for nested history
+ */
+function queryRoot(queries: EscrowQueries) {
+  const withEvents = (escrow: NormalizedEscrow | null) =>
+    escrow && {
+      ...escrow,
+      events: (args: PageArgs) => queries.events(escrow.address, args),
+    };
+  const pageWithEvents = (page: Page<NormalizedEscrow>) => ({
+    nodes: page.nodes.map(withEvents),
+    pageInfo: page.pageInfo,
+  });
+
+  return {
+    escrow: (args: {
+      address?: string;
+      escrowId?: string;
+      tradeId?: string;
+    }) => {
+      if (args.address) return withEvents(queries.escrow(args.address));
+      if (args.escrowId && args.tradeId) {
+        return withEvents(queries.escrowByIds(args.escrowId, args.tradeId));
+      }
+      throw new QueryError("escrow needs address, or escrowId and tradeId");
+    },
+    escrowsByTrade: ({ tradeId, ...page }: { tradeId: string } & PageArgs) =>
+      pageWithEvents(queries.escrowsByTrade(tradeId, page)),
+    escrowsByParticipant: ({
+      address,
+      role,
+      ...page
+    }: { address: string; role?: string } & PageArgs) =>
+      pageWithEvents(
+        queries.escrowsByParticipant(
+          address,
+          role ? (role.toLowerCase() as ParticipantRole) : null,
+          page
+        )
+      ),
+    events: ({ escrow, ...page }: { escrow: string } & PageArgs) =>
+      queries.events(escrow, page),
+    openDisputes: (page: PageArgs) =>
+      pageWithEvents(queries.openDisputes(page)),
+  };
+}
+
+export interface QueryServerOptions {
+  /** Value of Access-Control-Allow-Origin, for browser frontends */
+  corsOrigin?: string;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function pageArgs(params: URLSearchParams): PageArgs {
+  const first = params.get("first");
+  return {
+    first: first === null ? null : Number(first),
+    after: params.get("after"),
+  };
+}
+
+/**
+ * REST routes; null when nothing matches the path
+ */
+function routeRest(
+  queries: EscrowQueries,
+  path: string[],
+  params: URLSearchParams
+): unknown | null {
+  const found = <T>(value: T | null, what: string): T => {
+    if (value === null) throw new HttpError(404, `${what} not found`);
+    return value;
+  };
+  const list = <T>({ nodes, pageInfo }: Page<T>) => ({
+    data: nodes,
+    pageInfo,
+  });
+
+  switch (path[0]) {
+    case "escrows":
+      if (path.length === 1) {
+        const escrowId = params.get("escrowId");
+        const tradeId = params.get("tradeId");
+        if (!escrowId || !tradeId) {
+          throw new QueryError("Query by ?escrowId= and &tradeId=");
+        }
+        return {
+          data: found(queries.escrowByIds(escrowId, tradeId), "Escrow"),
+        };
+      }
+      if (path.length === 2) {
+        return { data: found(queries.escrow(path[1]), "Escrow") };
+      }
+      if (path.length === 3 && path[2] === "events") {
+        return list(found(queries.events(path[1], pageArgs(params)), "Escrow"));
+      }
+      return null;
+    case "trades":
+      if (path.length === 3 && path[2] === "escrows") {
+        return list(queries.escrowsByTrade(path[1], pageArgs(params)));
+      }
+      return null;
+    case "participants":
+      if (path.length === 3 && path[2] === "escrows") {
+        const role = params.get("role");
+        return list(
+          queries.escrowsByParticipant(
+            path[1],
+            role ? parseRole(role) : null,
+            pageArgs(params)
+          )
+        );
+      }
+      return null;
+    case "disputes":
+      if (path.length === 2 && path[1] === "open") {
+        return list(queries.openDisputes(pageArgs(params)));
+      }
+      return null;
+    default:
+      return null;
+  }
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) {
+      throw new HttpError(413, "Request body too large");
+    }
+  }
+  return body;
+}
+
+async function executeGraphql(
+  schema: GraphQLSchema,
+  rootValue: unknown,
+  req: http.IncomingMessage,
+  params: URLSearchParams
+) {
+  let request: {
+    query?: string;
+    variables?: Record<string, unknown> | null;
+    operationName?: string | null;
+  };
+  try {
+    request =
+      req.method === "POST"
+        ? JSON.parse(await readBody(req))
+        : {
+            query: params.get("query") ?? undefined,
+            variables: JSON.parse(params.get("variables") ?? "null"),
+            operationName: params.get("operationName"),
+          };
+  } catch (error) {
+    if (error instanceof HttpError) throw error;
+    throw new QueryError("Malformed GraphQL request");
+  }
+  if (!request.query) throw new QueryError("Missing GraphQL query");
+
+  return graphql({
+    schema,
+    source: request.query,
+    rootValue,
+    variableValues: request.variables,
+    operationName: request.operationName,
+  });
+}
+
+/**
+ * Request handler serving both APIs
+ */
+export function createQueryHandler(
+  queries: EscrowQueries,
+  options: QueryServerOptions = {}
+): http.RequestListener {
+  const schema = buildSchema(QUERY_SCHEMA);
+  const rootValue = queryRoot(queries);
+
+  return async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const path = url.pathname
+      .split("/")
+      .filter(Boolean)
+      .map(decodeURIComponent);
+    const headers: http.OutgoingHttpHeaders = {
+      "Content-Type": "application/json",
+    };
+    if (options.corsOrigin) {
+      headers["Access-Control-Allow-Origin"] = options.corsOrigin;
+    }
+    const reply = (status: number, body: unknown) =>
+      res.writeHead(status, headers).end(JSON.stringify(body));
+
+    try {
+      if (req.method === "OPTIONS") {
+        res
+          .writeHead(204, {
+            ...headers,
+            "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+            "Access-Control-Allow-Headers": "Content-Type",
+          })
+          .end();
+        return;
+      }
+      if (path.length === 1 && path[0] === "graphql") {
+        if (req.method !== "GET" && req.method !== "POST") {
+          throw new HttpError(405, "Method not allowed");
+        }
+        reply(
+          200,
+          await executeGraphql(schema, rootValue, req, url.searchParams)
+        );
+        return;
+      }
+      if (req.method !== "GET") throw new HttpError(405, "Method not allowed");
+      const body = routeRest(queries, path, url.searchParams);
+      if (body === null) throw new HttpError(404, "Not found");
+      reply(200, body);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        reply(error.status, { error: error.message });
+      } else if (error instanceof QueryError) {
+        reply(400, { error: error.message });
+      } else {
+        reply(500, { error: String(error) });
+      }
+    }
+  };
+}
+
+/**
+ * Serve the query API; resolves once listening
+ */
+export async function startQueryServer(
+  queries: EscrowQueries,
+  port: number,
+  host = "127.0.0.1",
+  options: QueryServerOptions = {}
+): Promise<http.Server> {
+  const server = http.createServer(createQueryHandler(queries, options));
+  await new Promise<void>((resolve) => server.listen(port, host, resolve));
+  return server;
+}
@@ -0,0 +1,425 @@
+/**
+ * SQLite event store
+ *
+ * Every decoded event gets a row in `events`, keyed by (signature, log_index),
+ * plus a row in its per-event table with the fields as typed columns. Writes
+ * are idempotent, so replaying a range after a restart is harmless.
+ *
+ * Column conventions: addresses are base58 TEXT, hashes hex TEXT, escrow and
+ * trade ids decimal TEXT (they use the full u64 range), token amounts and
+ * timestamps INTEGER, bools 0/1.
+ *
+ * Each event row carries its commitment: "confirmed" on arrival, then
+ * "finalized" or "retracted" once the listener learns its fate. Retracted rows
+ * are kept for audit; money movements should be read from `settled_events`,
+ * which only has finalized rows.
+ *
+ * The schema is versioned with `PRAGMA user_version`; MIGRATIONS[i] upgrades
+ * version i to i + 1 and is applied automatically on open. Only ever append.
+ */
+
+import Database from "better-sqlite3";
+import { BN, BorshCoder } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import * as fs from "fs";
+import * as path from "path";
+import { Checkpoint, CheckpointStore } from "./checkpoint";
+import {
+  CommitmentUpdate,
+  EscrowEventName,
+  EventCommitment,
+  eventDataToJson,
+  EventSink,
+  ListenerEvent,
+} from "./events";
+
+export const EVENT_TABLES: Record<EscrowEventName, string> = {
+  EscrowCreated: "escrow_created",
+  FundsDeposited: "funds_deposited",
+  FiatMarkedPaid: "fiat_marked_paid",
+  EscrowReleased: "escrow_released",
+  EscrowCancelled: "escrow_cancelled",
+  DisputeOpened: "dispute_opened",
+  DisputeResponseSubmitted: "dispute_response_submitted",
+  DisputeResolved: "dispute_resolved",
+  DisputeDefaultJudgment: "dispute_default_judgment",
+  EscrowBalanceChanged: "escrow_balance_changed",
+  SequentialAddressUpdated: "sequential_address_updated",
+};
+
+// Columns shared by every per-event table
+const EVENT_KEY = `
+  signature TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  object_id TEXT NOT NULL,
+  escrow_id TEXT NOT NULL,
+  trade_id TEXT NOT NULL,
+  timestamp INTEGER NOT NULL`;
+
+const EVENT_FK = `
+  PRIMARY KEY (signature, log_index),
+  FOREIGN KEY (signature, log_index) REFERENCES events (signature, log_index)`;
+
+export const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE events (
+    signature TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    slot INTEGER NOT NULL,
+    block_time INTEGER,
+    name TEXT NOT NULL,
+    object_id TEXT NOT NULL,
+    escrow_id TEXT NOT NULL,
+    trade_id TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    inserted_at TEXT NOT NULL,
+    PRIMARY KEY (signature, log_index)
+  );
+  CREATE INDEX events_slot ON events (slot);
+  CREATE INDEX events_escrow ON events (escrow_id, trade_id);
+  CREATE INDEX events_object ON events (object_id);
+  CREATE INDEX events_name ON events (name);
+
+  CREATE TABLE escrow_created (${EVENT_KEY},
+    seller TEXT NOT NULL,
+    buyer TEXT NOT NULL,
+    arbitrator TEXT NOT NULL,
+    amount INTEGER NOT NULL,
+    fee INTEGER NOT NULL,
+    deposit_deadline INTEGER NOT NULL,
+    fiat_deadline INTEGER NOT NULL,
+    sequential INTEGER NOT NULL,
+    sequential_escrow_address TEXT,${EVENT_FK}
+  );
+  CREATE TABLE funds_deposited (${EVENT_KEY},
+    amount INTEGER NOT NULL,
+    fee INTEGER NOT NULL,
+    counter INTEGER NOT NULL,${EVENT_FK}
+  );
+  CREATE TABLE fiat_marked_paid (${EVENT_KEY},${EVENT_FK}
+  );
+  CREATE TABLE escrow_released (${EVENT_KEY},
+    buyer TEXT NOT NULL,
+    amount INTEGER NOT NULL,
+    fee INTEGER NOT NULL,
+    counter INTEGER NOT NULL,
+    destination TEXT NOT NULL,${EVENT_FK}
+  );
+  CREATE TABLE escrow_cancelled (${EVENT_KEY},
+    seller TEXT NOT NULL,
+    amount INTEGER NOT NULL,
+    fee INTEGER NOT NULL,
+    counter INTEGER NOT NULL,${EVENT_FK}
+  );
+  CREATE TABLE dispute_opened (${EVENT_KEY},
+    disputing_party TEXT NOT NULL,
+    evidence_hash TEXT NOT NULL,
+    bond_amount INTEGER NOT NULL,${EVENT_FK}
+  );
+  CREATE TABLE dispute_response_submitted (${EVENT_KEY},
+    responding_party TEXT NOT NULL,
+    evidence_hash TEXT NOT NULL,
+    bond_amount INTEGER NOT NULL,${EVENT_FK}
+  );
+  CREATE TABLE dispute_resolved (${EVENT_KEY},
+    decision INTEGER NOT NULL,
+    fee INTEGER NOT NULL,
+    counter INTEGER NOT NULL,
+    resolution_hash TEXT NOT NULL,
+    winner TEXT NOT NULL,
+    explanation_reference TEXT NOT NULL,${EVENT_FK}
+  );
+  CREATE TABLE dispute_default_judgment (${EVENT_KEY},
+    defaulting_party TEXT NOT NULL,
+    decision INTEGER NOT NULL,${EVENT_FK}
+  );
+  CREATE TABLE escrow_balance_changed (${EVENT_KEY},
+    new_balance INTEGER NOT NULL,
+    reason TEXT NOT NULL,${EVENT_FK}
+  );
+  CREATE TABLE sequential_address_updated (${EVENT_KEY},
+    old_address TEXT,
+    new_address TEXT NOT NULL,${EVENT_FK}
+  );
+
+  CREATE TABLE listener_checkpoint (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    slot INTEGER NOT NULL,
+    signature TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  `,
+  // Raw event payload, so the read model can be rebuilt from the store
+  `
+  ALTER TABLE events ADD COLUMN raw TEXT;
+  `,
+  // Commitment tracking; rows written before it existed are taken as final
+  `
+  ALTER TABLE events ADD COLUMN commitment TEXT NOT NULL DEFAULT 'finalized';
+  CREATE INDEX events_commitment ON events (commitment);
+  CREATE VIEW settled_events AS
+    SELECT * FROM events WHERE commitment = 'finalized';
+  `,
+];
+
+// u64 fields that may exceed SQLite's signed 64-bit INTEGER
+const TEXT_INTEGER_FIELDS = new Set(["escrow_id", "trade_id"]);
+
+/**
+ * Convert a decoded field to its column value
+ */
+export function toColumnValue(field: string, value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (value instanceof PublicKey) return value.toBase58();
+  if (BN.isBN(value)) {
+    return TEXT_INTEGER_FIELDS.has(field)
+      ? value.toString()
+      : BigInt(value.toString());
+  }
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (Array.isArray(value) || value instanceof Uint8Array) {
+    return Buffer.from(value as number[]).toString("hex");
+  }
+  return value;
+}
+
+interface StoredEventRow {
+  rowid: number;
+  signature: string;
+  log_index: number;
+  slot: number;
+  block_time: number | null;
+  raw: string;
+  commitment: EventCommitment;
+}
+
+function* decodeRows(
+  coder: BorshCoder,
+  rows: Iterable<StoredEventRow>
+): Generator<{ rowId: number; event: ListenerEvent }> {
+  for (const row of rows) {
+    const decoded = coder.events.decode(row.raw);
+    if (!decoded) continue;
+    yield {
+      rowId: row.rowid,
+      event: {
+        name: decoded.name as EscrowEventName,
+        data: decoded.data,
+        signature: row.signature,
+        slot: row.slot,
+        logIndex: row.log_index,
+        blockTime: row.block_time,
+        raw: row.raw,
+        commitment: row.commitment,
+      },
+    };
+  }
+}
+
+export class SqliteEventStore implements EventSink {
+  readonly db: Database.Database;
+  private inserts = new Map<EscrowEventName, Database.Statement>();
+  private insertEvent: Database.Statement;
+  private updateCommitment: Database.Statement;
+
+  constructor(filePath: string) {
+    if (filePath !== ":memory:") {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    this.db = new Database(filePath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("foreign_keys = ON");
+    this.migrate();
+
+    this.insertEvent = this.db.prepare(`
+      INSERT OR IGNORE INTO events (signature, log_index, slot, block_time, name,
+        object_id, escrow_id, trade_id, timestamp, data, raw, commitment,
+        inserted_at)
+      VALUES (@signature, @log_index, @slot, @block_time, @name,
+        @object_id, @escrow_id, @trade_id, @timestamp, @data, @raw, @commitment,
+        @inserted_at)
+    `);
+    this.updateCommitment = this.db.prepare(`
+      UPDATE events SET commitment = @status, slot = @slot
+      WHERE signature = @signature AND commitment = 'confirmed'
+    `);
+  }
+
+  get schemaVersion(): number {
+    return this.db.pragma("user_version", { simple: true }) as number;
+  }
+
+  /**
+   * Apply pending migrations, each in its own transaction
+   */
+  private migrate() {
+    for (
+      let version = this.schemaVersion;
+      version < MIGRATIONS.length;
+      version++
+    ) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[version]);
+        this.db.pragma(`user_version = ${version + 1}`);
+      })();
+    }
+  }
+
+  private insertFor(name: EscrowEventName): Database.Statement {
+    let statement = this.inserts.get(name);
+    if (!statement) {
+      const table = EVENT_TABLES[name];
+      const columns = (
+        this.db.pragma(`table_info(${table})`) as { name: string }[]
+      ).map((column) => column.name);
+      statement = this.db.prepare(
+        `INSERT OR IGNORE INTO ${table} (${columns.join(", ")})
+         VALUES (${columns.map((column) => `@${column}`).join(", ")})`
+      );
+      this.inserts.set(name, statement);
+    }
+    return statement;
+  }
+
+  handle(event: ListenerEvent): void {
+    const { data } = event;
+    const fields = Object.fromEntries(
+      Object.entries(data).map(([field, value]) => [
+        field,
+        toColumnValue(field, value),
+      ])
+    );
+
+    this.db.transaction(() => {
+      const inserted = this.insertEvent.run({
+        signature: event.signature,
+        log_index: event.logIndex,
+        slot: event.slot,
+        block_time: event.blockTime,
+        name: event.name,
+        object_id: fields.object_id,
+        escrow_id: fields.escrow_id,
+        trade_id: fields.trade_id,
+        timestamp: fields.timestamp,
+        data: JSON.stringify(eventDataToJson(data)),
+        raw: event.raw,
+        commitment: event.commitment,
+        inserted_at: new Date().toISOString(),
+      });
+      if (inserted.changes === 0) {
+        // A redelivery, e.g. the resume backfill after a restart fetching a
+        // transaction that was only confirmed at shutdown, may be the only
+        // sign that it has since finalized
+        if (event.commitment === "finalized") {
+          this.updateCommitment.run({
+            signature: event.signature,
+            slot: event.slot,
+            status: "finalized",
+          });
+        }
+        return;
+      }
+
+      this.insertFor(event.name).run({
+        ...fields,
+        signature: event.signature,
+        log_index: event.logIndex,
+      });
+    })();
+  }
+
+  commitmentChanged(update: CommitmentUpdate): void {
+    this.updateCommitment.run(update);
+  }
+
+  /**
+   * Re-decode stored events in the order they were written, from `fromSlot`
+   * on. Retracted rows, and rows stored before the raw payload was recorded,
+   * are skipped.
+   */
+  *replay(coder: BorshCoder, fromSlot = 0): Generator<ListenerEvent> {
+    const rows = this.db
+      .prepare(
+        `SELECT rowid, signature, log_index, slot, block_time, raw, commitment
+         FROM events WHERE raw IS NOT NULL AND commitment != 'retracted'
+           AND slot >= ?
+         ORDER BY slot, rowid`
+      )
+      .iterate(fromSlot) as IterableIterator<StoredEventRow>;
+    for (const { event } of decodeRows(coder, rows)) yield event;
+  }
+
+  /**
+   * Re-decode events stored after row `afterRowId`, in write order, with
+   * their row ids, for readers that follow the store incrementally. Skips
+   * the same rows as `replay`.
+   */
+  *replayAfter(
+    coder: BorshCoder,
+    afterRowId: number
+  ): Generator<{ rowId: number; event: ListenerEvent }> {
+    const rows = this.db
+      .prepare(
+        `SELECT rowid, signature, log_index, slot, block_time, raw, commitment
+         FROM events WHERE raw IS NOT NULL AND commitment != 'retracted'
+           AND rowid > ?
+         ORDER BY rowid`
+      )
+      .iterate(afterRowId) as IterableIterator<StoredEventRow>;
+    yield* decodeRows(coder, rows);
+  }
+
+  /**
+   * The fate of transactions stored as confirmed, for those that have since
+   * been finalized or retracted
+   */
+  commitmentUpdates(signatures: Iterable<string>): CommitmentUpdate[] {
+    const select = this.db.prepare(
+      `SELECT signature, slot, commitment AS status FROM events
+       WHERE signature = ? AND commitment != 'confirmed' LIMIT 1`
+    );
+    const updates: CommitmentUpdate[] = [];
+    for (const signature of signatures) {
+      const update = select.get(signature) as CommitmentUpdate | undefined;
+      if (update) updates.push(update);
+    }
+    return updates;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Checkpoint kept in the event database, so events and resume point live in
+ * one file
+ */
+export class SqliteCheckpointStore implements CheckpointStore {
+  constructor(private store: SqliteEventStore) {}
+
+  async load(): Promise<Checkpoint | null> {
+    const row = this.store.db
+      .prepare(
+        "SELECT slot, signature, updated_at FROM listener_checkpoint WHERE id = 1"
+      )
+      .get() as
+      | { slot: number; signature: string; updated_at: string }
+      | undefined;
+    return row
+      ? { slot: row.slot, signature: row.signature, updatedAt: row.updated_at }
+      : null;
+  }
+
+  async save(checkpoint: Checkpoint): Promise<void> {
+    this.store.db
+      .prepare(
+        `INSERT INTO listener_checkpoint (id, slot, signature, updated_at)
+         VALUES (1, @slot, @signature, @updatedAt)
+         ON CONFLICT (id) DO UPDATE SET slot = excluded.slot,
+           signature = excluded.signature, updated_at = excluded.updated_at`
+      )
+      .run(checkpoint);
+  }
+}
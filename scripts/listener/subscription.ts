@@ -0,0 +1,238 @@
+/**
+ * Self-healing program log subscription
+ *
+ * A websocket subscription can die without an error: the socket stays open
+ * but notifications stop. Alongside `onLogs`, this subscribes to slot
+ * updates, which arrive several times a second, as a heartbeat. When none has
+ * arrived for `livenessTimeoutMs`, the subscription is torn down and recreated
+ * on a fresh connection, with exponential backoff between consecutive
+ * attempts. After every (re)subscribe, program signatures from the last root
+ * seen onwards are backfilled over HTTP, so transactions that landed while the
+ * socket was dead are still delivered. The root (not the newest processed
+ * slot) is used because slots above it may still gain confirmed transactions. Delivery is at-least-once; callers
+ * deduplicate by signature.
+ */
+
+import { Commitment, Connection, Finality, PublicKey } from "@solana/web3.js";
+import { BackfillTransaction, backfillTransactions } from "./backfill";
+
+export type LogConnection = Pick<
+  Connection,
+  | "onLogs"
+  | "removeOnLogsListener"
+  | "onSlotChange"
+  | "removeSlotChangeListener"
+  | "getSignaturesForAddress"
+  | "getTransaction"
+>;
+
+export type SubscriptionEvent =
+  | { type: "subscribed"; attempt: number }
+  | { type: "stale"; silentMs: number }
+  | { type: "gap-filled"; fromSlot: number; transactions: number }
+  | { type: "error"; error: unknown };
+
+export interface LogSubscriptionOptions {
+  commitment?: Finality;
+  /** Resubscribe after this long without any notification (default 30s) */
+  livenessTimeoutMs?: number;
+  /** How often liveness is checked (default 5s) */
+  heartbeatIntervalMs?: number;
+  /** Delay before the second consecutive attempt; doubles after (default 1s) */
+  baseDelayMs?: number;
+  /** Upper bound on the delay between attempts (default 30s) */
+  maxDelayMs?: number;
+  onEvent?: (event: SubscriptionEvent) => void;
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export class ResilientLogSubscription {
+  private connection: LogConnection | null = null;
+  private logsId: number | null = null;
+  private slotId: number | null = null;
+  private heartbeat: NodeJS.Timeout | null = null;
+  private lastNotificationAt = 0;
+  private lastSlot: number | null = null;
+  private tipSlot: number | null = null;
+  /** Consecutive attempts without a notification in between */
+  private attempts = 0;
+  private reconnecting: Promise<void> | null = null;
+  private stopped = false;
+  private _reconnects = 0;
+
+  constructor(
+    private createConnection: () => LogConnection,
+    private programId: PublicKey,
+    private handler: (tx: BackfillTransaction) => Promise<void>,
+    private options: LogSubscriptionOptions = {}
+  ) {}
+
+  /** Resubscriptions after the first, for monitoring */
+  get reconnects(): number {
+    return this._reconnects;
+  }
+
+  /** Newest root reported by the heartbeat; gap fills start here */
+  get slot(): number | null {
+    return this.lastSlot;
+  }
+
+  /** Newest slot reported by the heartbeat, i.e. how far the socket is caught up */
+  get tip(): number | null {
+    return this.tipSlot;
+  }
+
+  /**
+   * Subscribe, then backfill from `fromSlot` (e.g. where an earlier backfill
+   * stopped) so nothing falls between the two
+   */
+  async start(fromSlot?: number): Promise<void> {
+    this.stopped = false;
+    this.lastSlot = fromSlot ?? null;
+    await this.connect();
+    this.heartbeat = setInterval(
+      () => this.checkLiveness(),
+      this.options.heartbeatIntervalMs ?? 5_000
+    );
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    await this.reconnecting;
+    await this.teardown();
+  }
+
+  /**
+   * Force a resubscribe, as if the socket had gone silent
+   */
+  reconnect(): Promise<void> {
+    if (!this.reconnecting && !this.stopped) {
+      this._reconnects++;
+      this.reconnecting = this.teardown()
+        .then(() => this.connect())
+        .finally(() => (this.reconnecting = null));
+    }
+    return this.reconnecting ?? Promise.resolve();
+  }
+
+  private checkLiveness() {
+    const silentMs = Date.now() - this.lastNotificationAt;
+    if (
+      this.stopped ||
+      this.reconnecting ||
+      silentMs <= (this.options.livenessTimeoutMs ?? 30_000)
+    ) {
+      return;
+    }
+    this.options.onEvent?.({ type: "stale", silentMs });
+    this.reconnect();
+  }
+
+  private backoffDelay(): number {
+    if (this.attempts === 0) return 0;
+    return Math.min(
+      (this.options.baseDelayMs ?? 1_000) * 2 ** (this.attempts - 1),
+      this.options.maxDelayMs ?? 30_000
+    );
+  }
+
+  /**
+   * Subscribe on a fresh connection and fill the gap, retrying with backoff
+   * until both succeed or the subscription is stopped
+   */
+  private async connect(): Promise<void> {
+    while (!this.stopped) {
+      await sleep(this.backoffDelay());
+      if (this.stopped) return;
+      this.attempts++;
+      try {
+        this.subscribe();
+        this.options.onEvent?.({ type: "subscribed", attempt: this.attempts });
+        if (this.lastSlot !== null) {
+          await this.fillGap(this.lastSlot);
+        }
+        return;
+      } catch (error) {
+        this.options.onEvent?.({ type: "error", error });
+        await this.teardown();
+      }
+    }
+  }
+
+  private subscribe() {
+    const connection = this.createConnection();
+    const commitment: Commitment = this.options.commitment ?? "confirmed";
+    this.connection = connection;
+    // A fresh subscription gets a full liveness window
+    this.lastNotificationAt = Date.now();
+
+    this.slotId = connection.onSlotChange(({ slot, root }) => {
+      this.tipSlot = Math.max(this.tipSlot ?? 0, slot);
+      this.alive(root);
+    });
+    this.logsId = connection.onLogs(
+      this.programId,
+      (logs, context) => {
+        this.alive();
+        if (logs.err) return;
+        this.deliver({
+          signature: logs.signature,
+          slot: context.slot,
+          blockTime: null,
+          logs: logs.logs,
+          commitment: "confirmed",
+        });
+      },
+      commitment
+    );
+  }
+
+  private alive(root?: number) {
+    this.lastNotificationAt = Date.now();
+    this.attempts = 0;
+    if (root === undefined) return;
+    if (this.lastSlot === null || root > this.lastSlot) {
+      this.lastSlot = root;
+    }
+  }
+
+  private deliver(tx: BackfillTransaction) {
+    this.handler(tx).catch((error) =>
+      this.options.onEvent?.({ type: "error", error })
+    );
+  }
+
+  private async fillGap(fromSlot: number) {
+    let transactions = 0;
+    for await (const tx of backfillTransactions(
+      this.connection!,
+      this.programId,
+      { startSlot: fromSlot },
+      { commitment: this.options.commitment ?? "confirmed" }
+    )) {
+      transactions++;
+      await this.handler(tx);
+    }
+    this.options.onEvent?.({ type: "gap-filled", fromSlot, transactions });
+  }
+
+  private async teardown() {
+    const connection = this.connection;
+    if (!connection) return;
+    this.connection = null;
+    const logsId = this.logsId;
+    const slotId = this.slotId;
+    this.logsId = this.slotId = null;
+    // The old socket may already be dead; removal failures are expected
+    await Promise.allSettled([
+      logsId !== null ? connection.removeOnLogsListener(logsId) : null,
+      slotId !== null ? connection.removeSlotChangeListener(slotId) : null,
+    ]);
+  }
+}
@@ -0,0 +1,398 @@
+/**
+ * Trade timeline across sequential escrow chains
+ *
+ * A sequential escrow releases to another address instead of its buyer:
+ * `sequential_escrow_address`, set at creation and changed by
+ * SequentialAddressUpdated, and reported as EscrowReleased.destination. The
+ * funds land in that address's token account, so the address names the next
+ * escrow either directly (its PDA) or as the seller funding it; the latter is
+ * only followed within the same trade, where an address reused by an
+ * unrelated escrow cannot be mistaken for a hop.
+ *
+ * Starting from a trade id or an escrow PDA, the builder follows those links
+ * in both directions to every connected escrow, numbers the escrows by hop
+ * (1 for those nothing releases into) and merges their events into one
+ * chronological history. Retracted events are left out, as in the
+ * projection.
+ */
+
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { formatAmount, USDC_DECIMALS } from "../../sdk/amounts";
+import { ListenerEvent } from "./events";
+import { NormalizedEvent, normalizeEvent, toIsoTimestamp } from "./format";
+import { applyEvent, ProjectedEscrow } from "./projection";
+import {
+  comparePositions,
+  EventPosition,
+  NormalizedEscrow,
+  normalizeEscrow,
+  parseAddress,
+  parseU64,
+  positionOf,
+} from "./queries";
+
+export type TimelineStart = { tradeId: string } | { escrow: string };
+
+/** Event that named the next escrow */
+export type TimelineLinkSource =
+  | "EscrowCreated"
+  | "SequentialAddressUpdated"
+  | "EscrowReleased";
+
+export interface TimelineLink {
+  from: string;
+  to: string;
+  via: TimelineLinkSource;
+  /** The linked address: the next escrow's PDA or its seller */
+  address: string;
+  signature: string;
+}
+
+export interface TimelineHop {
+  hop: number;
+  escrow: NormalizedEscrow;
+  /** The seller, once the escrow is funded */
+  fundedBy: string | null;
+  fundedAt: string | null;
+  fiatPaidAt: string | null;
+  releasedAt: string | null;
+  releasedTo: string | null;
+  /** Escrows this one releases (or is set to release) into */
+  next: string[];
+  previous: string[];
+}
+
+export interface TimelineEntry extends NormalizedEvent {
+  hop: number;
+  escrow: string;
+  /** The event's on-chain timestamp */
+  at: string;
+  summary: string;
+}
+
+export interface TradeTimeline {
+  start: TimelineStart;
+  hops: TimelineHop[];
+  links: TimelineLink[];
+  entries: TimelineEntry[];
+}
+
+interface ChainEscrow {
+  escrow: ProjectedEscrow;
+  created: EventPosition;
+  events: ListenerEvent[];
+}
+
+const usdc = (amount: BN) =>
+  `${formatAmount(amount.toString(), USDC_DECIMALS)} USDC`;
+const at = (timestamp: BN) => toIsoTimestamp(timestamp.toNumber());
+
+/**
+ * Fold events (in store order) into escrows with their histories, ordered by
+ * creation. Events of escrows whose creation was never seen are dropped.
+ */
+function collectEscrows(events: Iterable<ListenerEvent>): ChainEscrow[] {
+  const escrows = new Map<string, ChainEscrow>();
+  for (const event of events) {
+    const key = (event.data.object_id as PublicKey).toBase58();
+    const chained = escrows.get(key);
+    const escrow = applyEvent(chained?.escrow, event);
+    if (!escrow) continue;
+    if (chained) {
+      chained.escrow = escrow;
+      chained.events.push(event);
+    } else {
+      escrows.set(key, { escrow, created: positionOf(event), events: [event] });
+    }
+  }
+  const all = [...escrows.values()];
+  all.forEach(({ events }) =>
+    events.sort((a, b) => comparePositions(positionOf(a), positionOf(b)))
+  );
+  return all.sort((a, b) => comparePositions(a.created, b.created));
+}
+
+/**
+ * Escrow an address released into from `source`: the escrow with that PDA,
+ * else the first other escrow of the same trade sold by that address
+ */
+function resolveLink(
+  escrows: ChainEscrow[],
+  source: ChainEscrow,
+  target: PublicKey
+): ChainEscrow | undefined {
+  return (
+    escrows.find(({ escrow }) => escrow.address.equals(target)) ??
+    escrows.find(
+      (candidate) =>
+        candidate !== source &&
+        candidate.escrow.tradeId.eq(source.escrow.tradeId) &&
+        candidate.escrow.seller.equals(target)
+    )
+  );
+}
+
+function linksOf(
+  escrows: ChainEscrow[],
+  source: ChainEscrow
+): { link: TimelineLink; target: ChainEscrow }[] {
+  const links: { link: TimelineLink; target: ChainEscrow }[] = [];
+  const add = (
+    via: TimelineLinkSource,
+    address: PublicKey | null,
+    signature: string
+  ) => {
+    if (!address) return;
+    const target = resolveLink(escrows, source, address);
+    if (!target || target === source) return;
+    links.push({
+      link: {
+        from: source.escrow.address.toBase58(),
+        to: target.escrow.address.toBase58(),
+        via,
+        address: address.toBase58(),
+        signature,
+      },
+      target,
+    });
+  };
+
+  for (const event of source.events) {
+    const { data } = event;
+    switch (event.name) {
+      case "EscrowCreated":
+        add(event.name, data.sequential_escrow_address, event.signature);
+        break;
+      case "SequentialAddressUpdated":
+        add(event.name, data.new_address, event.signature);
+        break;
+      case "EscrowReleased":
+        // Non-sequential escrows release to their buyer: a payout, not a hop
+        if (source.escrow.sequential) {
+          add(event.name, data.destination, event.signature);
+        }
+        break;
+    }
+  }
+  return links;
+}
+
+/**
+ * One-line description of an event for the timeline
+ */
+function summarizeEvent(
+  event: ListenerEvent,
+  escrow: ProjectedEscrow,
+  hopOf: (address: PublicKey) => number | undefined
+): string {
+  const d = event.data;
+  switch (event.name) {
+    case "EscrowCreated": {
+      const summary = `Escrow ${d.escrow_id} created: ${d.seller} sells ${usdc(
+        d.amount
+      )} to ${d.buyer}`;
+      return d.sequential_escrow_address
+        ? `${summary}, sequential to ${d.sequential_escrow_address}`
+        : summary;
+    }
+    case "FundsDeposited":
+      return `Funded by ${escrow.seller}: ${usdc(d.amount)} + ${usdc(
+        d.fee
+      )} fee`;
+    case "FiatMarkedPaid":
+      return `Fiat marked paid by ${escrow.buyer}`;
+    case "SequentialAddressUpdated":
+      return `Sequential address changed from ${d.old_address ?? "unset"} to ${
+        d.new_address
+      }`;
+    case "EscrowReleased": {
+      const hop = escrow.sequential ? hopOf(d.destination) : undefined;
+      const into = hop === undefined ? "" : ` (hop ${hop})`;
+      return `Released ${usdc(d.amount)} to ${d.destination}${into}, ${usdc(
+        d.fee
+      )} fee to the arbitrator`;
+    }
+    case "EscrowCancelled":
+      return `Cancelled, refund to ${d.seller}`;
+    case "DisputeOpened":
+      return `Dispute opened by ${d.disputing_party}, bond ${usdc(
+        d.bond_amount
+      )}`;
+    case "DisputeResponseSubmitted":
+      return `Dispute answered by ${d.responding_party}, bond ${usdc(
+        d.bond_amount
+      )}`;
+    case "DisputeResolved":
+      return `Dispute resolved: ${d.winner} wins`;
+    case "DisputeDefaultJudgment":
+      return `Default judgment: ${d.defaulting_party} did not respond`;
+    case "EscrowBalanceChanged":
+      return `Balance now ${usdc(d.new_balance)} (${d.reason})`;
+  }
+}
+
+/**
+ * Build the timeline of the chain(s) containing the start: every escrow of
+ * the trade, or the escrow with that PDA. Null when no escrow matches.
+ */
+export function buildTradeTimeline(
+  events: Iterable<ListenerEvent>,
+  start: TimelineStart
+): TradeTimeline | null {
+  const escrows = collectEscrows(events);
+  let roots: ChainEscrow[];
+  if ("tradeId" in start) {
+    const tradeId = parseU64(start.tradeId, "trade id");
+    roots = escrows.filter(({ escrow }) => escrow.tradeId.eq(tradeId));
+  } else {
+    const address = parseAddress(start.escrow);
+    roots = escrows.filter(({ escrow }) => escrow.address.equals(address));
+  }
+  if (roots.length === 0) return null;
+
+  const outgoing = new Map(
+    escrows.map((source) => [source, linksOf(escrows, source)])
+  );
+  const incoming = new Map<ChainEscrow, ChainEscrow[]>();
+  for (const [source, links] of outgoing) {
+    for (const { target } of links) {
+      incoming.set(target, [...(incoming.get(target) ?? []), source]);
+    }
+  }
+
+  // Connected escrows, following links both ways
+  const chain = new Set(roots);
+  const pending = [...roots];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    const neighbours = [
+      ...outgoing.get(current)!.map(({ target }) => target),
+      ...(incoming.get(current) ?? []),
+    ];
+    for (const neighbour of neighbours) {
+      if (chain.has(neighbour)) continue;
+      chain.add(neighbour);
+      pending.push(neighbour);
+    }
+  }
+  const members = escrows.filter((escrow) => chain.has(escrow));
+
+  // Hop = longest path from an escrow nothing releases into; capped so a
+  // cycle of addresses cannot loop
+  const hops = new Map(members.map((escrow) => [escrow, 1]));
+  for (let round = 0; round < members.length; round++) {
+    let changed = false;
+    for (const source of members) {
+      for (const { target } of outgoing.get(source)!) {
+        const hop = Math.min(hops.get(source)! + 1, members.length);
+        if (hop > hops.get(target)!) {
+          hops.set(target, hop);
+          changed = true;
+        }
+      }
+    }
+    if (!changed) break;
+  }
+  const ordered = [...members].sort(
+    (a, b) =>
+      hops.get(a)! - hops.get(b)! || comparePositions(a.created, b.created)
+  );
+
+  const hopOf = (source: ChainEscrow) => (address: PublicKey) => {
+    const target = resolveLink(escrows, source, address);
+    return target && hops.get(target);
+  };
+  const unique = (addresses: string[]) => [...new Set(addresses)];
+
+  return {
+    start,
+    hops: ordered.map((member) => {
+      const { escrow, events } = member;
+      const find = (name: ListenerEvent["name"]) =>
+        events.find((event) => event.name === name);
+      const funded = find("FundsDeposited");
+      const fiatPaid = find("FiatMarkedPaid");
+      const released = find("EscrowReleased");
+      return {
+        hop: hops.get(member)!,
+        escrow: normalizeEscrow(escrow),
+        fundedBy: funded ? escrow.seller.toBase58() : null,
+        fundedAt: funded ? at(funded.data.timestamp) : null,
+        fiatPaidAt: fiatPaid ? at(fiatPaid.data.timestamp) : null,
+        releasedAt: released ? at(released.data.timestamp) : null,
+        releasedTo: released
+          ? (released.data.destination as PublicKey).toBase58()
+          : null,
+        next: unique(outgoing.get(member)!.map(({ link }) => link.to)),
+        previous: unique(
+          (incoming.get(member) ?? []).map(({ escrow }) =>
+            escrow.address.toBase58()
+          )
+        ),
+      };
+    }),
+    links: ordered.flatMap((member) =>
+      outgoing.get(member)!.map(({ link }) => link)
+    ),
+    entries: members
+      .flatMap((member) => member.events.map((event) => ({ member, event })))
+      .sort((a, b) =>
+        comparePositions(positionOf(a.event), positionOf(b.event))
+      )
+      .map(({ member, event }) => ({
+        ...normalizeEvent(event),
+        hop: hops.get(member)!,
+        escrow: member.escrow.address.toBase58(),
+        at: at(event.data.timestamp),
+        summary: summarizeEvent(event, member.escrow, hopOf(member)),
+      })),
+  };
+}
+
+/**
+ * Human-readable report: one section per hop, then the merged history
+ */
+export function formatTimelineReport(timeline: TradeTimeline): string {
+  const start =
+    "tradeId" in timeline.start
+      ? `trade ${timeline.start.tradeId}`
+      : `escrow ${timeline.start.escrow}`;
+  const lines = [
+    "=".repeat(80),
+    `🧭 TRADE TIMELINE: ${start}`,
+    `🔗 ${timeline.hops.length} escrow(s) over ${Math.max(
+      ...timeline.hops.map(({ hop }) => hop)
+    )} hop(s)`,
+  ];
+
+  for (const hop of timeline.hops) {
+    const { escrow } = hop;
+    lines.push(
+      "-".repeat(80),
+      `Hop ${hop.hop} · escrow ${escrow.escrowId} · trade ${escrow.tradeId} · ${escrow.state}`,
+      `📍 Escrow: ${escrow.address}`,
+      `👤 Seller: ${escrow.seller}`,
+      `👤 Buyer: ${escrow.buyer}`,
+      `💰 Amount: ${formatAmount(escrow.amount, USDC_DECIMALS)} USDC`
+    );
+    if (hop.fundedBy) {
+      lines.push(`🏦 Funded by ${hop.fundedBy} at ${hop.fundedAt}`);
+    }
+    if (hop.fiatPaidAt) lines.push(`✅ Fiat marked paid at ${hop.fiatPaidAt}`);
+    if (hop.releasedTo) {
+      lines.push(`🎯 Released to ${hop.releasedTo} at ${hop.releasedAt}`);
+    }
+    for (const next of hop.next) lines.push(`➡️  Next: ${next}`);
+    for (const previous of hop.previous) {
+      lines.push(`⬅️  Previous: ${previous}`);
+    }
+  }
+
+  lines.push("-".repeat(80), "📜 History");
+  for (const entry of timeline.entries) {
+    lines.push(`${entry.at}  [hop ${entry.hop}] ${entry.summary}`);
+  }
+  lines.push("=".repeat(80));
+  return lines.join("\n");
+}
@@ -0,0 +1,333 @@
+/**
+ * Signed webhook delivery for decoded events
+ *
+ * Each event is POSTed as JSON to every configured endpoint. The body is
+ * signed with HMAC-SHA256 over the exact bytes sent, and carries an
+ * idempotency key (`<signature>:<logIndex>`) so receivers can drop the
+ * duplicates that retries and restarts produce. Deliveries to one endpoint
+ * stay in event order; a failing endpoint is retried with exponential backoff
+ * and, once attempts run out, the delivery is appended to a dead-letter file
+ * for later replay.
+ *
+ * Only settled events are delivered: "confirmed" events are held until their
+ * transaction finalizes, and dropped if it is retracted, so receivers never
+ * see a money movement that a fork could undo.
+ *
+ * Receivers verify with:
+ *   verifyWebhookSignature(rawBody, req.headers["x-escrow-signature"], secret)
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  CommitmentUpdate,
+  EscrowEventName,
+  eventDataToJson,
+  EventSink,
+  ListenerEvent,
+} from "./events";
+
+export const SIGNATURE_HEADER = "X-Escrow-Signature";
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+export const EVENT_HEADER = "X-Escrow-Event";
+
+export interface WebhookEndpoint {
+  url: string;
+  /** HMAC-SHA256 key shared with the receiver */
+  secret: string;
+  /** Only deliver these events; all events if omitted */
+  events?: EscrowEventName[];
+}
+
+export interface WebhookPayload {
+  id: string;
+  event: EscrowEventName;
+  signature: string;
+  slot: number;
+  logIndex: number;
+  blockTime: number | null;
+  /** Always "finalized"; kept so receivers can assert it */
+  commitment: "finalized";
+  data: Record<string, unknown>;
+}
+
+export interface RetryPolicy {
+  /** Total attempts including the first (default 5) */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles after each (default 1s) */
+  baseDelayMs: number;
+  /** Upper bound on a single delay (default 60s) */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 1_000,
+  maxDelayMs: 60_000,
+};
+
+export interface DeadLetter {
+  url: string;
+  idempotencyKey: string;
+  event: EscrowEventName;
+  /** Exact body that was signed, so it can be replayed byte for byte */
+  body: string;
+  attempts: number;
+  lastError: string;
+  failedAt: string;
+}
+
+export interface DeadLetterQueue {
+  push(letter: DeadLetter): Promise<void>;
+}
+
+/**
+ * Append-only JSON lines file of failed deliveries
+ */
+export class FileDeadLetterQueue implements DeadLetterQueue {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string) {}
+
+  push(letter: DeadLetter): Promise<void> {
+    const write = this.pending.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.appendFile(
+        this.filePath,
+        JSON.stringify(letter) + "\n"
+      );
+    });
+    // A failed append is reported to its caller only; later ones still run
+    this.pending = write.catch(() => {});
+    return write;
+  }
+
+  async list(): Promise<DeadLetter[]> {
+    await this.pending;
+    try {
+      const raw = await fs.promises.readFile(this.filePath, "utf8");
+      return raw
+        .split("\n")
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line) as DeadLetter);
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+  }
+}
+
+export function idempotencyKey(
+  event: Pick<ListenerEvent, "signature" | "logIndex">
+): string {
+  return `${event.signature}:${event.logIndex}`;
+}
+
+export function toWebhookPayload(event: ListenerEvent): WebhookPayload {
+  return {
+    id: idempotencyKey(event),
+    event: event.name,
+    signature: event.signature,
+    slot: event.slot,
+    logIndex: event.logIndex,
+    blockTime: event.blockTime,
+    commitment: "finalized",
+    data: eventDataToJson(event.data),
+  };
+}
+
+export function signWebhookBody(body: string, secret: string): string {
+  return "sha256=" + createHmac("sha256", secret).update(body).digest("hex");
+}
+
+/**
+ * Check a received body against its signature header in constant time
+ */
+export function verifyWebhookSignature(
+  body: string | Buffer,
+  header: string | string[] | undefined,
+  secret: string
+): boolean {
+  if (typeof header !== "string") return false;
+  const expected = Buffer.from(signWebhookBody(body.toString(), secret));
+  const received = Buffer.from(header);
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+/** Network errors (no status), rate limits and server errors are retried */
+export function isRetryable(status: number | null): boolean {
+  return status === null || status === 429 || status >= 500;
+}
+
+export function retryDelay(attempt: number, policy: RetryPolicy): number {
+  return Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export interface WebhookDispatcherOptions {
+  retry?: Partial<RetryPolicy>;
+  deadLetters?: DeadLetterQueue;
+  /** Per-request timeout (default 10s) */
+  timeoutMs?: number;
+  /** Called after each delivery outcome, for logging */
+  onResult?: (result: DeliveryResult) => void;
+  /** Called when a delivery step throws, e.g. the dead-letter write fails */
+  onError?: (error: unknown) => void;
+}
+
+export interface DeliveryResult {
+  url: string;
+  idempotencyKey: string;
+  delivered: boolean;
+  attempts: number;
+  error?: string;
+}
+
+export class WebhookDispatcher implements EventSink {
+  private retry: RetryPolicy;
+  private queues = new Map<string, Promise<void>>();
+  /** Confirmed events awaiting finality, by transaction signature */
+  private unsettled = new Map<string, ListenerEvent[]>();
+
+  constructor(
+    private endpoints: WebhookEndpoint[],
+    private options: WebhookDispatcherOptions = {}
+  ) {
+    this.retry = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  }
+
+  /**
+   * Queue the event for every matching endpoint and return immediately, so a
+   * slow receiver never stalls the listener
+   */
+  handle(event: ListenerEvent): void {
+    if (event.commitment !== "finalized") {
+      const events = this.unsettled.get(event.signature) ?? [];
+      this.unsettled.set(event.signature, [...events, event]);
+      return;
+    }
+    this.enqueue(event);
+  }
+
+  commitmentChanged(update: CommitmentUpdate): void {
+    const events = this.unsettled.get(update.signature) ?? [];
+    this.unsettled.delete(update.signature);
+    if (update.status !== "finalized") return;
+    for (const event of events) {
+      this.enqueue({ ...event, slot: update.slot, commitment: "finalized" });
+    }
+  }
+
+  private enqueue(event: ListenerEvent): void {
+    const payload = toWebhookPayload(event);
+    const body = JSON.stringify(payload);
+    for (const endpoint of this.endpoints) {
+      if (endpoint.events && !endpoint.events.includes(event.name)) continue;
+      const previous = this.queues.get(endpoint.url) ?? Promise.resolve();
+      // Caught per delivery, so one failure never stalls the endpoint's queue
+      this.queues.set(
+        endpoint.url,
+        previous
+          .then(() => this.deliver(endpoint, payload, body))
+          .catch((error) => this.options.onError?.(error))
+      );
+    }
+  }
+
+  /**
+   * Wait for every queued delivery to be sent or dead-lettered
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.queues.values());
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+  }
+
+  /**
+   * POST `body` to `target`, retrying network errors, 429 and 5xx with
+   * backoff; signed when the target has a secret. Nothing is dead-lettered,
+   * so other senders (e.g. deadline warnings) can reuse it.
+   */
+  async send(
+    target: { url: string; secret?: string },
+    id: string,
+    body: string,
+    headers: Record<string, string> = {}
+  ): Promise<DeliveryResult> {
+    const allHeaders: Record<string, string> = {
+      "Content-Type": "application/json",
+      [IDEMPOTENCY_HEADER]: id,
+      ...headers,
+    };
+    if (target.secret) {
+      allHeaders[SIGNATURE_HEADER] = signWebhookBody(body, target.secret);
+    }
+
+    let lastError = "";
+    let attempts = 0;
+    while (attempts < this.retry.maxAttempts) {
+      attempts++;
+      let status: number | null = null;
+      try {
+        const response = await fetch(target.url, {
+          method: "POST",
+          headers: allHeaders,
+          body,
+          signal: AbortSignal.timeout(this.options.timeoutMs ?? 10_000),
+        });
+        if (response.ok) {
+          return {
+            url: target.url,
+            idempotencyKey: id,
+            delivered: true,
+            attempts,
+          };
+        }
+        status = response.status;
+        lastError = `HTTP ${status}`;
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+      }
+
+      if (!isRetryable(status)) break;
+      if (attempts < this.retry.maxAttempts) {
+        await sleep(retryDelay(attempts, this.retry));
+      }
+    }
+    return {
+      url: target.url,
+      idempotencyKey: id,
+      delivered: false,
+      attempts,
+      error: lastError,
+    };
+  }
+
+  private async deliver(
+    endpoint: WebhookEndpoint,
+    payload: WebhookPayload,
+    body: string
+  ): Promise<void> {
+    const result = await this.send(endpoint, payload.id, body, {
+      [EVENT_HEADER]: payload.event,
+    });
+    this.options.onResult?.(result);
+    if (result.delivered) return;
+    await this.options.deadLetters?.push({
+      url: endpoint.url,
+      idempotencyKey: payload.id,
+      event: payload.event,
+      body,
+      attempts: result.attempts,
+      lastError: result.error ?? "",
+      failedAt: new Date().toISOString(),
+    });
+  }
+}
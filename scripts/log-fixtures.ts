@@ -0,0 +1,182 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Program Log Fixtures
+ *
+ * Records the raw logs of escrow program transactions into a fixture file,
+ * and replays fixture files through the event listener offline, so decoding
+ * can be checked without devnet (format in scripts/listener/fixtures.ts).
+ *
+ * Usage:
+ *   npm run log-fixtures -- record --out <file> (--signature <sig> ... | --from-slot <slot> [--to-slot <slot>]) [options]
+ *   npm run log-fixtures -- replay <file> [options]
+ *   # or
+ *   ts-node scripts/log-fixtures.ts <record|replay> ...
+ *
+ * Record options:
+ *   --cluster <name>          localnet | devnet | mainnet (default: $CLUSTER, else devnet)
+ *   --out <file>              Fixture file to write (required)
+ *   --signature <sig>         Transaction to record (repeatable)
+ *   --from-slot <slot>        Record the program's transactions from this slot
+ *   --to-slot <slot>          ... up to this slot
+ *   --finalized               Only record finalized transactions
+ *
+ * Replay options:
+ *   --format <format>         ndjson | json | pretty (default: pretty)
+ *   --db <file>               Also write the decoded events to this SQLite database
+ *
+ * Examples:
+ *   npm run log-fixtures -- record --cluster localnet --from-slot 0 --out tests/fixtures/localnet.json
+ *   npm run log-fixtures -- record --cluster devnet --signature 5h3k... --out fixtures/dispute.json
+ *   npm run log-fixtures -- replay tests/fixtures/program-logs.json --format ndjson
+ */
+
+import { Connection, PublicKey } from "@solana/web3.js";
+import * as dotenv from "dotenv";
+import { parseArgs } from "util";
+import {
+  DEFAULT_CLUSTER,
+  loadNetworkProfile,
+  parseClusterName,
+} from "../sdk/networks";
+import { EventListener } from "./event-listener";
+import { EventSink } from "./listener/events";
+import {
+  createFixture,
+  loadFixture,
+  recordRange,
+  recordTransactions,
+  replayFixture,
+  saveFixture,
+} from "./listener/fixtures";
+import { OUTPUT_FORMATS, OutputFormat, statusLogger } from "./listener/format";
+import { SqliteEventStore } from "./listener/sqlite-store";
+
+dotenv.config();
+
+const USAGE =
+  "Usage: npm run log-fixtures -- record --out <file> [--cluster <name>] (--signature <sig> ... | --from-slot <slot> [--to-slot <slot>]) [--finalized]\n" +
+  "       npm run log-fixtures -- replay <file> [--format ndjson|json|pretty] [--db <file>]";
+
+async function record(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      cluster: { type: "string" },
+      out: { type: "string" },
+      signature: { type: "string", multiple: true },
+      "from-slot": { type: "string" },
+      "to-slot": { type: "string" },
+      finalized: { type: "boolean" },
+    },
+  });
+
+  if (!values.out) throw new Error("--out is required");
+  const signatures = values.signature ?? [];
+  const bySlot =
+    values["from-slot"] !== undefined || values["to-slot"] !== undefined;
+  if (signatures.length > 0 === bySlot) {
+    throw new Error("Give either --signature or a --from-slot/--to-slot range");
+  }
+  const slot = (value: string | undefined, flag: string) => {
+    if (value === undefined) return undefined;
+    if (!/^\d+$/.test(value)) throw new Error(`Invalid ${flag}: ${value}`);
+    return Number(value);
+  };
+  const startSlot = slot(values["from-slot"], "--from-slot");
+  const endSlot = slot(values["to-slot"], "--to-slot");
+
+  const network = loadNetworkProfile(
+    parseClusterName(values.cluster ?? process.env.CLUSTER ?? DEFAULT_CLUSTER)
+  );
+  const connection = new Connection(network.rpcUrl, "confirmed");
+  const commitment = values.finalized ? "finalized" : "confirmed";
+
+  console.log(`🎙️  Recording from ${network.cluster} (${network.rpcUrl})`);
+  const transactions = bySlot
+    ? await recordRange(
+        connection,
+        network.programId,
+        { startSlot, endSlot },
+        { commitment }
+      )
+    : await recordTransactions(connection, signatures, commitment);
+
+  saveFixture(
+    values.out,
+    createFixture(network.programId, transactions, network.cluster)
+  );
+  console.log(
+    `💾 Saved ${transactions.length} transaction(s) to ${values.out}`
+  );
+}
+
+async function replay(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: "string" },
+      db: { type: "string" },
+    },
+  });
+
+  if (positionals.length !== 1) throw new Error("Give one fixture file");
+  const format = (values.format ?? "pretty") as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(
+      `Unknown format: ${format} (expected ${OUTPUT_FORMATS.join(", ")})`
+    );
+  }
+  const fixture = loadFixture(positionals[0]);
+
+  // Keep stdout for events only, as the listener does
+  const logger = statusLogger(format);
+
+  // Decode with the fixture's program id; nothing is fetched
+  const network = {
+    ...loadNetworkProfile(
+      fixture.cluster ? parseClusterName(fixture.cluster) : DEFAULT_CLUSTER
+    ),
+    programId: new PublicKey(fixture.programId),
+  };
+  const sinks: EventSink[] = values.db ? [new SqliteEventStore(values.db)] : [];
+  const listener = new EventListener({ network, sinks, format, logger });
+
+  logger.log(
+    `🔁 Replaying ${positionals[0]} (${
+      fixture.cluster ?? "unknown cluster"
+    }, recorded ${fixture.recordedAt})`
+  );
+  const count = await replayFixture(fixture, (tx) =>
+    listener.processTransaction(tx)
+  );
+  await listener.close();
+  logger.log(`✅ Replayed ${count} transaction(s)`);
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  try {
+    if (command === "record") {
+      await record(args);
+    } else if (command === "replay") {
+      await replay(args);
+    } else {
+      throw new Error(`Unknown command: ${command ?? "(none)"}`);
+    }
+  } catch (error) {
+    console.error(
+      `❌ Error: ${error instanceof Error ? error.message : error}`
+    );
+    console.error(USAGE);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error("Script failed:", error);
+    process.exit(1);
+  });
+}
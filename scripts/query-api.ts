@@ -0,0 +1,119 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Escrow Query API
+ *
+ * Serves the event listener's SQLite database over HTTP, for support staff
+ * and frontends: REST routes under /escrows, /trades, /participants and
+ * /disputes, and GraphQL at /graphql (routes and schema in
+ * scripts/listener/query-server.ts). Runs fully locally and read-only; start
+ * the listener with --db on the same file to keep it current.
+ *
+ * Usage:
+ *   npm run query-api -- --db <file> [options]
+ *   # or
+ *   ts-node scripts/query-api.ts --db <file> [options]
+ *
+ * Options:
+ *   --db <file>               Listener database (required)
+ *   --port <port>             Port to listen on (default: 8787)
+ *   --host <host>             Interface to bind (default: 127.0.0.1)
+ *   --cors <origin>           Allow browser requests from this origin (or *)
+ *
+ * Examples:
+ *   npm run query-api -- --db events.db
+ *   curl localhost:8787/disputes/open
+ *   curl localhost:8787/graphql -H 'Content-Type: application/json' \
+ *     -d '{"query":"{ escrowsByTrade(tradeId: \"42\") { nodes { address state } } }"}'
+ */
+
+import { BorshCoder } from "@coral-xyz/anchor";
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import { parseArgs } from "util";
+import { EscrowQueries } from "./listener/queries";
+import { startQueryServer } from "./listener/query-server";
+import { SqliteEventStore } from "./listener/sqlite-store";
+
+dotenv.config();
+
+const DEFAULT_PORT = 8787;
+
+interface CliOptions {
+  dbFile: string;
+  port: number;
+  host: string;
+  corsOrigin?: string;
+}
+
+function parseCliOptions(args: string[]): CliOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      db: { type: "string" },
+      port: { type: "string" },
+      host: { type: "string" },
+      cors: { type: "string" },
+    },
+  });
+
+  const dbFile = values.db;
+  if (!dbFile) throw new Error("--db is required");
+  if (!fs.existsSync(dbFile)) throw new Error(`Database not found: ${dbFile}`);
+  const port = Number(values.port ?? DEFAULT_PORT);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${values.port}`);
+  }
+
+  return {
+    dbFile,
+    port,
+    host: values.host ?? "127.0.0.1",
+    corsOrigin: values.cors,
+  };
+}
+
+async function main() {
+  let options: CliOptions;
+  try {
+    options = parseCliOptions(process.argv.slice(2));
+  } catch (error) {
+    console.error(
+      `❌ Error: ${error instanceof Error ? error.message : error}`
+    );
+    console.error(
+      "Usage: npm run query-api -- --db <file> [--port <port>] [--host <host>] [--cors <origin>]"
+    );
+    process.exit(1);
+  }
+
+  const store = new SqliteEventStore(options.dbFile);
+  const idl = require("../target/idl/localsolana_contracts.json");
+  const queries = new EscrowQueries(store, new BorshCoder(idl));
+  queries.refresh();
+
+  const server = await startQueryServer(queries, options.port, options.host, {
+    corsOrigin: options.corsOrigin,
+  });
+
+  console.log("🔎 Escrow Query API");
+  console.log(`📚 Database: ${options.dbFile}`);
+  console.log(
+    `🌐 REST:    http://${options.host}:${options.port}/escrows/<address>`
+  );
+  console.log(`🧬 GraphQL: http://${options.host}:${options.port}/graphql`);
+
+  process.on("SIGINT", () => {
+    console.log("\n🛑 Shutting down query API...");
+    server.close();
+    store.close();
+    process.exit(0);
+  });
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error("Script failed:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,127 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Trade Timeline
+ *
+ * Reconstructs the history of a trade from the event listener's SQLite
+ * database, following sequential escrows into the escrows they release to:
+ * who funded each hop, when fiat was marked paid and where the funds went
+ * (linking rules in scripts/listener/timeline.ts). Runs fully offline.
+ *
+ * Usage:
+ *   npm run trade-timeline -- --db <file> (--trade-id <id> | --escrow <pda>) [options]
+ *   # or
+ *   ts-node scripts/trade-timeline.ts --db <file> (--trade-id <id> | --escrow <pda>) [options]
+ *
+ * Options:
+ *   --db <file>               Listener database (required)
+ *   --trade-id <id>           Start from every escrow of this trade
+ *   --escrow <pda>            Start from this escrow
+ *   --format <format>         pretty | json (default: pretty)
+ *
+ * Examples:
+ *   npm run trade-timeline -- --db events.db --trade-id 42
+ *   npm run trade-timeline -- --db events.db --escrow <pda> --format json | jq '.hops'
+ */
+
+import { BorshCoder } from "@coral-xyz/anchor";
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import { parseArgs } from "util";
+import { SqliteEventStore } from "./listener/sqlite-store";
+import {
+  buildTradeTimeline,
+  formatTimelineReport,
+  TimelineStart,
+} from "./listener/timeline";
+
+dotenv.config();
+
+const TIMELINE_FORMATS = ["pretty", "json"] as const;
+
+type TimelineFormat = (typeof TIMELINE_FORMATS)[number];
+
+interface CliOptions {
+  dbFile: string;
+  start: TimelineStart;
+  format: TimelineFormat;
+}
+
+function parseCliOptions(args: string[]): CliOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      db: { type: "string" },
+      "trade-id": { type: "string" },
+      escrow: { type: "string" },
+      format: { type: "string" },
+    },
+  });
+
+  const dbFile = values.db;
+  if (!dbFile) throw new Error("--db is required");
+  if (!fs.existsSync(dbFile)) throw new Error(`Database not found: ${dbFile}`);
+
+  const tradeId = values["trade-id"];
+  const escrow = values.escrow;
+  if ((tradeId === undefined) === (escrow === undefined)) {
+    throw new Error("Give exactly one of --trade-id or --escrow");
+  }
+
+  const format = values.format ?? "pretty";
+  if (!TIMELINE_FORMATS.includes(format as TimelineFormat)) {
+    throw new Error(
+      `Unknown format: ${format} (expected ${TIMELINE_FORMATS.join(", ")})`
+    );
+  }
+
+  return {
+    dbFile,
+    start: tradeId !== undefined ? { tradeId } : { escrow: escrow! },
+    format: format as TimelineFormat,
+  };
+}
+
+function main() {
+  let options: CliOptions;
+  try {
+    options = parseCliOptions(process.argv.slice(2));
+  } catch (error) {
+    console.error(
+      `❌ Error: ${error instanceof Error ? error.message : error}`
+    );
+    console.error(
+      "Usage: npm run trade-timeline -- --db <file> (--trade-id <id> | --escrow <pda>) [--format pretty|json]"
+    );
+    process.exit(1);
+  }
+
+  const store = new SqliteEventStore(options.dbFile);
+  const idl = require("../target/idl/localsolana_contracts.json");
+  try {
+    const timeline = buildTradeTimeline(
+      store.replay(new BorshCoder(idl)),
+      options.start
+    );
+    if (!timeline) {
+      console.error("❌ No escrow found for the given trade or escrow");
+      process.exit(1);
+    }
+    console.log(
+      options.format === "json"
+        ? JSON.stringify(timeline, null, 2)
+        : formatTimelineReport(timeline)
+    );
+  } finally {
+    store.close();
+  }
+}
+
+if (require.main === module) {
+  try {
+    main();
+  } catch (error) {
+    console.error("Script failed:", error);
+    process.exit(1);
+  }
+}
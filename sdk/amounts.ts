@@ -0,0 +1,151 @@
+/**
+ * Exact fee and dispute-bond arithmetic
+ *
+ * Reproduces the program's u64 math with bigint: fee and bond are
+ * `amount * basis_points / 10_000` with integer (floor) division, and
+ * `fund_escrow` pulls `amount + fee` from the seller. Never route token
+ * amounts through `number` division; use formatAmount for display.
+ */
+
+import { BN } from "@coral-xyz/anchor";
+import { getMint } from "@solana/spl-token";
+import { Connection, PublicKey } from "@solana/web3.js";
+import {
+  BASIS_POINTS_DENOMINATOR,
+  DISPUTE_BOND_BASIS_POINTS,
+  FEE_BASIS_POINTS,
+} from "./constants";
+import { FeeCalculationError } from "./errors";
+
+export const USDC_DECIMALS = 6;
+
+const U64_MAX = (1n << 64n) - 1n;
+
+/** Token amount in base units, in any of the forms the SDK accepts */
+export type Amount = BN | bigint | number | string;
+
+export interface EscrowQuote {
+  principal: bigint;
+  /** Arbitrator fee (1%), stored on the escrow at creation */
+  fee: bigint;
+  /** What fund_escrow transfers from the seller: principal + fee */
+  totalDeposit: bigint;
+  /** Dispute bond (5%) each party posts to open or answer a dispute */
+  bond: bigint;
+}
+
+export function toBaseUnits(amount: Amount): bigint {
+  if (typeof amount === "number" && !Number.isSafeInteger(amount)) {
+    throw new RangeError(`Amount ${amount} is not a safe integer`);
+  }
+  const value = typeof amount === "bigint" ? amount : BigInt(amount.toString());
+  if (value < 0n || value > U64_MAX) {
+    throw new RangeError(`Amount ${value} is outside the u64 range`);
+  }
+  return value;
+}
+
+// checked_mul(bps).checked_div(10000), failing like the program on overflow
+const applyBasisPoints = (amount: Amount, basisPoints: bigint): bigint => {
+  const product = toBaseUnits(amount) * basisPoints;
+  if (product > U64_MAX) throw new FeeCalculationError();
+  return product / BASIS_POINTS_DENOMINATOR;
+};
+
+export const calculateFee = (amount: Amount): bigint =>
+  applyBasisPoints(amount, FEE_BASIS_POINTS);
+
+export const calculateDisputeBond = (amount: Amount): bigint =>
+  applyBasisPoints(amount, DISPUTE_BOND_BASIS_POINTS);
+
+/**
+ * Everything a seller needs to know before creating an escrow of `amount`
+ */
+export function quoteEscrow(amount: Amount): EscrowQuote {
+  const principal = toBaseUnits(amount);
+  const fee = calculateFee(principal);
+  const total = principal + fee;
+  return {
+    principal,
+    fee,
+    // .min(MAX_U64) in fund_escrow
+    totalDeposit: total > U64_MAX ? U64_MAX : total,
+    bond: calculateDisputeBond(principal),
+  };
+}
+
+/**
+ * Render base units as a decimal string without rounding, e.g.
+ * formatAmount(1_010_000n, 6) === "1.01". Trailing zeros are trimmed down
+ * to `minFractionDigits`.
+ */
+export function formatAmount(
+  amount: Amount,
+  decimals: number = USDC_DECIMALS,
+  minFractionDigits: number = 2
+): string {
+  const value = toBaseUnits(amount);
+  const scale = 10n ** BigInt(decimals);
+  const whole = (value / scale).toString();
+  if (decimals === 0) return whole;
+
+  let fraction = (value % scale).toString().padStart(decimals, "0");
+  const keep = Math.min(minFractionDigits, decimals);
+  while (fraction.length > keep && fraction.endsWith("0")) {
+    fraction = fraction.slice(0, -1);
+  }
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+/**
+ * Parse a decimal string ("12.5") into base units; rejects excess precision
+ */
+export function parseAmount(
+  text: string,
+  decimals: number = USDC_DECIMALS
+): bigint {
+  const match = /^(\d+)(?:\.(\d*))?$/.exec(text.trim());
+  if (!match) {
+    throw new Error(`Invalid amount "${text}"`);
+  }
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > decimals) {
+    throw new Error(`Amount "${text}" has more than ${decimals} decimals`);
+  }
+  return toBaseUnits(
+    BigInt(whole) * 10n ** BigInt(decimals) +
+      BigInt(fraction.padEnd(decimals, "0") || "0")
+  );
+}
+
+export function formatQuote(
+  quote: EscrowQuote,
+  decimals: number = USDC_DECIMALS,
+  symbol: string = "USDC"
+): Record<keyof EscrowQuote, string> {
+  const format = (value: bigint) =>
+    `${formatAmount(value, decimals)} ${symbol}`;
+  return {
+    principal: format(quote.principal),
+    fee: format(quote.fee),
+    totalDeposit: format(quote.totalDeposit),
+    bond: format(quote.bond),
+  };
+}
+
+const mintDecimalsCache = new Map<string, number>();
+
+/**
+ * Decimals of `mint`, read once per process from the mint account
+ */
+export async function fetchMintDecimals(
+  connection: Connection,
+  mint: PublicKey
+): Promise<number> {
+  const key = mint.toBase58();
+  const cached = mintDecimalsCache.get(key);
+  if (cached !== undefined) return cached;
+  const { decimals } = await getMint(connection, mint);
+  mintDecimalsCache.set(key, decimals);
+  return decimals;
+}
@@ -0,0 +1,621 @@
+/**
+ * Typed client for the LocalSolana escrow program
+ *
+ * Wraps every program instruction in a single method that resolves all of the
+ * accounts it needs (escrow PDA, vault, bond accounts, token accounts) from the
+ * escrow id / trade id pair and the signer. Token accounts default to the
+ * associated token account of each party for the configured mint and can be
+ * overridden per call.
+ *
+ * Each instruction has two forms: `fooInstruction(...)` takes the signer's
+ * public key and returns the resolved TransactionInstruction (used by the
+ * unsigned transaction builders in ./transactions), and `foo(...)` takes a
+ * Keypair, signs and sends it through the program's provider.
+ *
+ * Usage:
+ *   const client = new EscrowClient(program, usdcMint);
+ *   await client.createEscrow({ escrowId, tradeId, amount, buyer }, seller);
+ *   await client.fundEscrow({ escrowId, tradeId }, seller);
+ */
+
+import { BN, IdlAccounts, Program } from "@coral-xyz/anchor";
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  SYSVAR_RENT_PUBKEY,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  TOKEN_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import { LocalsolanaContracts } from "../target/types/localsolana_contracts";
+import {
+  EscrowIds,
+  deriveBuyerBondPDA,
+  deriveEscrowPDA,
+  deriveEscrowTokenPDA,
+  deriveSellerBondPDA,
+} from "./pda";
+import { parseEscrowError } from "./errors";
+
+export type EscrowAccount = IdlAccounts<LocalsolanaContracts>["escrow"];
+
+export interface CreateEscrowParams extends EscrowIds {
+  amount: BN;
+  buyer: PublicKey;
+  /** When set, the escrow is sequential and releases to this address */
+  sequentialEscrowAddress?: PublicKey | null;
+}
+
+/** 32-byte hash, as accepted by the dispute instructions */
+export type Hash32 = number[] | Uint8Array;
+
+/** Token account overrides; anything omitted resolves to the party's ATA */
+export interface TokenAccountOverrides {
+  sellerTokenAccount?: PublicKey;
+  buyerTokenAccount?: PublicKey;
+  arbitratorTokenAccount?: PublicKey;
+  sequentialEscrowTokenAccount?: PublicKey;
+  partyTokenAccount?: PublicKey;
+}
+
+const toHashArg = (hash: Hash32): number[] => {
+  if (hash.length !== 32) {
+    throw new Error(`Expected a 32-byte hash, got ${hash.length} bytes`);
+  }
+  return Array.from(hash);
+};
+
+export class EscrowClient {
+  readonly program: Program<LocalsolanaContracts>;
+  readonly tokenMint: PublicKey;
+
+  constructor(program: Program<LocalsolanaContracts>, tokenMint: PublicKey) {
+    this.program = program;
+    this.tokenMint = tokenMint;
+  }
+
+  get programId(): PublicKey {
+    return this.program.programId;
+  }
+
+  /**
+   * Escrow state account address
+   */
+  escrowAddress({ escrowId, tradeId }: EscrowIds): PublicKey {
+    return deriveEscrowPDA(escrowId, tradeId, this.programId)[0];
+  }
+
+  /**
+   * Escrow token account ("vault") address
+   */
+  escrowTokenAddress(ids: EscrowIds): PublicKey {
+    return deriveEscrowTokenPDA(this.escrowAddress(ids), this.programId)[0];
+  }
+
+  buyerBondAddress(ids: EscrowIds): PublicKey {
+    return deriveBuyerBondPDA(this.escrowAddress(ids), this.programId)[0];
+  }
+
+  sellerBondAddress(ids: EscrowIds): PublicKey {
+    return deriveSellerBondPDA(this.escrowAddress(ids), this.programId)[0];
+  }
+
+  /**
+   * Associated token account of `owner` for the configured mint
+   */
+  tokenAccountFor(owner: PublicKey): PublicKey {
+    // allowOwnerOffCurve: sequential destinations may themselves be PDAs
+    return getAssociatedTokenAddressSync(this.tokenMint, owner, true);
+  }
+
+  async fetchEscrow(ids: EscrowIds): Promise<EscrowAccount> {
+    return this.program.account.escrow.fetch(this.escrowAddress(ids));
+  }
+
+  async fetchEscrowNullable(ids: EscrowIds): Promise<EscrowAccount | null> {
+    return this.program.account.escrow.fetchNullable(this.escrowAddress(ids));
+  }
+
+  async createEscrowInstruction(
+    params: CreateEscrowParams,
+    seller: PublicKey
+  ): Promise<TransactionInstruction> {
+    const sequentialEscrowAddress = params.sequentialEscrowAddress ?? null;
+    const builder = this.program.methods
+      .createEscrow(
+        params.escrowId,
+        params.tradeId,
+        params.amount,
+        sequentialEscrowAddress !== null,
+        sequentialEscrowAddress
+      )
+      .accountsStrict({
+        seller,
+        buyer: params.buyer,
+        escrow: this.escrowAddress(params),
+        systemProgram: SystemProgram.programId,
+      });
+    return builder.instruction();
+  }
+
+  async createEscrow(
+    params: CreateEscrowParams,
+    seller: Keypair
+  ): Promise<string> {
+    return this.send(
+      params,
+      await this.createEscrowInstruction(params, seller.publicKey),
+      seller
+    );
+  }
+
+  async fundEscrowInstruction(
+    ids: EscrowIds,
+    seller: PublicKey,
+    overrides: TokenAccountOverrides = {}
+  ): Promise<TransactionInstruction> {
+    const builder = this.program.methods
+      .fundEscrow(ids.escrowId, ids.tradeId)
+      .accountsStrict({
+        seller,
+        escrow: this.escrowAddress(ids),
+        sellerTokenAccount:
+          overrides.sellerTokenAccount ?? this.tokenAccountFor(seller),
+        escrowTokenAccount: this.escrowTokenAddress(ids),
+        tokenMint: this.tokenMint,
+        tokenProgram: TOKEN_PROGRAM_ID,
+        systemProgram: SystemProgram.programId,
+        rent: SYSVAR_RENT_PUBKEY,
+      });
+    return builder.instruction();
+  }
+
+  async fundEscrow(
+    ids: EscrowIds,
+    seller: Keypair,
+    overrides: TokenAccountOverrides = {}
+  ): Promise<string> {
+    return this.send(
+      ids,
+      await this.fundEscrowInstruction(ids, seller.publicKey, overrides),
+      seller
+    );
+  }
+
+  async markFiatPaidInstruction(
+    ids: EscrowIds,
+    buyer: PublicKey
+  ): Promise<TransactionInstruction> {
+    const builder = this.program.methods.markFiatPaid().accountsStrict({
+      buyer,
+      escrow: this.escrowAddress(ids),
+    });
+    return builder.instruction();
+  }
+
+  async markFiatPaid(ids: EscrowIds, buyer: Keypair): Promise<string> {
+    return this.send(
+      ids,
+      await this.markFiatPaidInstruction(ids, buyer.publicKey),
+      buyer
+    );
+  }
+
+  async updateSequentialAddressInstruction(
+    ids: EscrowIds,
+    buyer: PublicKey,
+    newAddress: PublicKey
+  ): Promise<TransactionInstruction> {
+    const builder = this.program.methods
+      .updateSequentialAddress(newAddress)
+      .accountsStrict({
+        buyer,
+        escrow: this.escrowAddress(ids),
+      });
+    return builder.instruction();
+  }
+
+  async updateSequentialAddress(
+    ids: EscrowIds,
+    buyer: Keypair,
+    newAddress: PublicKey
+  ): Promise<string> {
+    return this.send(
+      ids,
+      await this.updateSequentialAddressInstruction(
+        ids,
+        buyer.publicKey,
+        newAddress
+      ),
+      buyer
+    );
+  }
+
+  /**
+   * Release to the buyer, or to the sequential escrow address for sequential
+   * escrows. Callable by the seller or the arbitrator.
+   */
+  async releaseEscrowInstruction(
+    ids: EscrowIds,
+    authority: PublicKey,
+    overrides: TokenAccountOverrides = {}
+  ): Promise<TransactionInstruction> {
+    const escrow = await this.fetchEscrow(ids);
+
+    let sequentialEscrowTokenAccount: PublicKey | null = null;
+    if (escrow.sequential) {
+      if (
+        !escrow.sequentialEscrowAddress &&
+        !overrides.sequentialEscrowTokenAccount
+      ) {
+        throw new Error("Sequential escrow has no sequential escrow address");
+      }
+      sequentialEscrowTokenAccount =
+        overrides.sequentialEscrowTokenAccount ??
+        this.tokenAccountFor(escrow.sequentialEscrowAddress!);
+    }
+
+    const builder = this.program.methods.releaseEscrow().accountsStrict({
+      authority,
+      escrow: this.escrowAddress(ids),
+      escrowTokenAccount: this.escrowTokenAddress(ids),
+      buyerTokenAccount:
+        overrides.buyerTokenAccount ?? this.tokenAccountFor(escrow.buyer),
+      arbitratorTokenAccount:
+        overrides.arbitratorTokenAccount ??
+        this.tokenAccountFor(escrow.arbitrator),
+      sequentialEscrowTokenAccount,
+      tokenProgram: TOKEN_PROGRAM_ID,
+    });
+    return builder.instruction();
+  }
+
+  async releaseEscrow(
+    ids: EscrowIds,
+    authority: Keypair,
+    overrides: TokenAccountOverrides = {}
+  ): Promise<string> {
+    return this.send(
+      ids,
+      await this.releaseEscrowInstruction(ids, authority.publicKey, overrides),
+      authority
+    );
+  }
+
+  /**
+   * Cancel before fiat is marked paid. Callable by the seller or the
+   * arbitrator; funded escrows refund principal + fee to the seller.
+   */
+  async cancelEscrowInstruction(
+    ids: EscrowIds,
+    authority: PublicKey,
+    overrides: TokenAccountOverrides = {}
+  ): Promise<TransactionInstruction> {
+    const escrow = await this.fetchEscrow(ids);
+    const funded = "funded" in escrow.state;
+
+    const builder = this.program.methods.cancelEscrow().accountsStrict({
+      seller: escrow.seller,
+      authority,
+      escrow: this.escrowAddress(ids),
+      escrowTokenAccount: funded ? this.escrowTokenAddress(ids) : null,
+      sellerTokenAccount: funded
+        ? overrides.sellerTokenAccount ?? this.tokenAccountFor(escrow.seller)
+        : null,
+      tokenProgram: TOKEN_PROGRAM_ID,
+    });
+    return builder.instruction();
+  }
+
+  async cancelEscrow(
+    ids: EscrowIds,
+    authority: Keypair,
+    overrides: TokenAccountOverrides = {}
+  ): Promise<string> {
+    return this.send(
+      ids,
+      await this.cancelEscrowInstruction(ids, authority.publicKey, overrides),
+      authority
+    );
+  }
+
+  async initializeBuyerBondAccountInstruction(
+    ids: EscrowIds,
+    payer: PublicKey
+  ): Promise<TransactionInstruction> {
+    const builder = this.program.methods
+      .initializeBuyerBondAccount(ids.escrowId, ids.tradeId)
+      .accountsStrict({
+        payer,
+        escrow: this.escrowAddress(ids),
+        buyerBondAccount: this.buyerBondAddress(ids),
+        tokenMint: this.tokenMint,
+        tokenProgram: TOKEN_PROGRAM_ID,
+        systemProgram: SystemProgram.programId,
+        rent: SYSVAR_RENT_PUBKEY,
+      });
+    return builder.instruction();
+  }
+
+  async initializeBuyerBondAccount(
+    ids: EscrowIds,
+    payer: Keypair
+  ): Promise<string> {
+    return this.send(
+      ids,
+      await this.initializeBuyerBondAccountInstruction(ids, payer.publicKey),
+      payer
+    );
+  }
+
+  async initializeSellerBondAccountInstruction(
+    ids: EscrowIds,
+    payer: PublicKey
+  ): Promise<TransactionInstruction> {
+    const builder = this.program.methods
+      .initializeSellerBondAccount(ids.escrowId, ids.tradeId)
+      .accountsStrict({
+        payer,
+        escrow: this.escrowAddress(ids),
+        sellerBondAccount: this.sellerBondAddress(ids),
+        tokenMint: this.tokenMint,
+        tokenProgram: TOKEN_PROGRAM_ID,
+        systemProgram: SystemProgram.programId,
+        rent: SYSVAR_RENT_PUBKEY,
+      });
+    return builder.instruction();
+  }
+
+  async initializeSellerBondAccount(
+    ids: EscrowIds,
+    payer: Keypair
+  ): Promise<string> {
+    return this.send(
+      ids,
+      await this.initializeSellerBondAccountInstruction(ids, payer.publicKey),
+      payer
+    );
+  }
+
+  /**
+   * Open a dispute as buyer or seller, posting the 5% bond from
+   * `overrides.partyTokenAccount` (defaults to the disputing party's ATA)
+   */
+  async openDisputeWithBondInstruction(
+    ids: EscrowIds,
+    disputingParty: PublicKey,
+    evidenceHash: Hash32,
+    overrides: TokenAccountOverrides = {}
+  ): Promise<TransactionInstruction> {
+    const builder = this.program.methods
+      .openDisputeWithBond(toHashArg(evidenceHash))
+      .accountsStrict({
+        disputingParty,
+        escrow: this.escrowAddress(ids),
+        disputingPartyTokenAccount:
+          overrides.partyTokenAccount ?? this.tokenAccountFor(disputingParty),
+        buyerBondAccount: this.buyerBondAddress(ids),
+        sellerBondAccount: this.sellerBondAddress(ids),
+        tokenProgram: TOKEN_PROGRAM_ID,
+      });
+    return builder.instruction();
+  }
+
+  async openDisputeWithBond(
+    ids: EscrowIds,
+    disputingParty: Keypair,
+    evidenceHash: Hash32,
+    overrides: TokenAccountOverrides = {}
+  ): Promise<string> {
+    return this.send(
+      ids,
+      await this.openDisputeWithBondInstruction(
+        ids,
+        disputingParty.publicKey,
+        evidenceHash,
+        overrides
+      ),
+      disputingParty
+    );
+  }
+
+  async respondToDisputeWithBondInstruction(
+    ids: EscrowIds,
+    respondingParty: PublicKey,
+    evidenceHash: Hash32,
+    overrides: TokenAccountOverrides = {}
+  ): Promise<TransactionInstruction> {
+    const builder = this.program.methods
+      .respondToDisputeWithBond(toHashArg(evidenceHash))
+      .accountsStrict({
+        respondingParty,
+        escrow: this.escrowAddress(ids),
+        respondingPartyTokenAccount:
+          overrides.partyTokenAccount ?? this.tokenAccountFor(respondingParty),
+        buyerBondAccount: this.buyerBondAddress(ids),
+        sellerBondAccount: this.sellerBondAddress(ids),
+        tokenProgram: TOKEN_PROGRAM_ID,
+      });
+    return builder.instruction();
+  }
+
+  async respondToDisputeWithBond(
+    ids: EscrowIds,
+    respondingParty: Keypair,
+    evidenceHash: Hash32,
+    overrides: TokenAccountOverrides = {}
+  ): Promise<string> {
+    return this.send(
+      ids,
+      await this.respondToDisputeWithBondInstruction(
+        ids,
+        respondingParty.publicKey,
+        evidenceHash,
+        overrides
+      ),
+      respondingParty
+    );
+  }
+
+  async defaultJudgmentInstruction(
+    ids: EscrowIds,
+    arbitrator: PublicKey,
+    overrides: TokenAccountOverrides = {}
+  ): Promise<TransactionInstruction> {
+    const escrow = await this.fetchEscrow(ids);
+
+    const builder = this.program.methods.defaultJudgment().accountsStrict({
+      seller: escrow.seller,
+      arbitrator,
+      escrow: this.escrowAddress(ids),
+      escrowTokenAccount: this.escrowTokenAddress(ids),
+      buyerTokenAccount:
+        overrides.buyerTokenAccount ?? this.tokenAccountFor(escrow.buyer),
+      sellerTokenAccount:
+        overrides.sellerTokenAccount ?? this.tokenAccountFor(escrow.seller),
+      buyerBondAccount: this.buyerBondAddress(ids),
+      sellerBondAccount: this.sellerBondAddress(ids),
+      tokenProgram: TOKEN_PROGRAM_ID,
+    });
+    return builder.instruction();
+  }
+
+  async defaultJudgment(
+    ids: EscrowIds,
+    arbitrator: Keypair,
+    overrides: TokenAccountOverrides = {}
+  ): Promise<string> {
+    return this.send(
+      ids,
+      await this.defaultJudgmentInstruction(
+        ids,
+        arbitrator.publicKey,
+        overrides
+      ),
+      arbitrator
+    );
+  }
+
+  /**
+   * Arbitrator decision: `decision` true releases to the buyer, false returns
+   * funds to the seller
+   */
+  async resolveDisputeWithExplanationInstruction(
+    ids: EscrowIds,
+    arbitrator: PublicKey,
+    decision: boolean,
+    resolutionHash: Hash32,
+    overrides: TokenAccountOverrides = {}
+  ): Promise<TransactionInstruction> {
+    const escrow = await this.fetchEscrow(ids);
+
+    const builder = this.program.methods
+      .resolveDisputeWithExplanation(decision, toHashArg(resolutionHash))
+      .accountsStrict({
+        arbitrator,
+        seller: escrow.seller,
+        escrow: this.escrowAddress(ids),
+        escrowTokenAccount: this.escrowTokenAddress(ids),
+        buyerTokenAccount:
+          overrides.buyerTokenAccount ?? this.tokenAccountFor(escrow.buyer),
+        sellerTokenAccount:
+          overrides.sellerTokenAccount ?? this.tokenAccountFor(escrow.seller),
+        arbitratorTokenAccount:
+          overrides.arbitratorTokenAccount ??
+          this.tokenAccountFor(escrow.arbitrator),
+        buyerBondAccount: this.buyerBondAddress(ids),
+        sellerBondAccount: this.sellerBondAddress(ids),
+        tokenProgram: TOKEN_PROGRAM_ID,
+      });
+    return builder.instruction();
+  }
+
+  async resolveDisputeWithExplanation(
+    ids: EscrowIds,
+    arbitrator: Keypair,
+    decision: boolean,
+    resolutionHash: Hash32,
+    overrides: TokenAccountOverrides = {}
+  ): Promise<string> {
+    return this.send(
+      ids,
+      await this.resolveDisputeWithExplanationInstruction(
+        ids,
+        arbitrator.publicKey,
+        decision,
+        resolutionHash,
+        overrides
+      ),
+      arbitrator
+    );
+  }
+
+  /**
+   * Arbitrator-only cancel after the deposit deadline (Created) or the fiat
+   * deadline without fiat paid (Funded)
+   */
+  async autoCancelInstruction(
+    ids: EscrowIds,
+    arbitrator: PublicKey,
+    overrides: TokenAccountOverrides = {}
+  ): Promise<TransactionInstruction> {
+    const escrow = await this.fetchEscrow(ids);
+    const funded = "funded" in escrow.state;
+
+    const builder = this.program.methods.autoCancel().accountsStrict({
+      arbitrator,
+      seller: escrow.seller,
+      escrow: this.escrowAddress(ids),
+      escrowTokenAccount: funded ? this.escrowTokenAddress(ids) : null,
+      sellerTokenAccount: funded
+        ? overrides.sellerTokenAccount ?? this.tokenAccountFor(escrow.seller)
+        : null,
+      tokenProgram: TOKEN_PROGRAM_ID,
+    });
+    return builder.instruction();
+  }
+
+  async autoCancel(
+    ids: EscrowIds,
+    arbitrator: Keypair,
+    overrides: TokenAccountOverrides = {}
+  ): Promise<string> {
+    return this.send(
+      ids,
+      await this.autoCancelInstruction(ids, arbitrator.publicKey, overrides),
+      arbitrator
+    );
+  }
+
+  /**
+   * Send a single-instruction transaction, fee paid by the provider wallet.
+   * Program errors are rethrown as typed EscrowErrors (see ./errors).
+   */
+  private async send(
+    ids: EscrowIds,
+    instruction: TransactionInstruction,
+    signer: Keypair
+  ): Promise<string> {
+    const provider = this.program.provider;
+    if (!provider.sendAndConfirm) {
+      throw new Error("Provider cannot send transactions");
+    }
+    try {
+      return await provider.sendAndConfirm(new Transaction().add(instruction), [
+        signer,
+      ]);
+    } catch (error) {
+      if (!parseEscrowError(error)) throw error;
+      // Attach the pre-transaction escrow so hints can cite its deadlines
+      const escrow = await this.fetchEscrowNullable(ids).catch(() => null);
+      throw parseEscrowError(error, {
+        escrowAddress: this.escrowAddress(ids),
+        escrow: escrow ?? undefined,
+      });
+    }
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Program constants
+ *
+ * Mirrors `mod constants`, the `EscrowState` enum and the `EscrowError` codes
+ * in programs/localsolana_contracts/src/lib.rs. Keep the two in sync when the
+ * program's limits, deadlines, states or errors change.
+ *
+ * Imports nothing else from the SDK, so amounts, errors and the state machine
+ * can all depend on it.
+ */
+
+import type { IdlAccounts } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import type { LocalsolanaContracts } from "../target/types/localsolana_contracts";
+
+type EscrowState = IdlAccounts<LocalsolanaContracts>["escrow"]["state"];
+
+// Maximum amount allowed (100 USDC, 6 decimals)
+export const MAX_AMOUNT = 100_000_000n;
+
+export const FEE_BASIS_POINTS = 100n; // 1%
+export const DISPUTE_BOND_BASIS_POINTS = 500n; // 5%
+export const BASIS_POINTS_DENOMINATOR = 10_000n;
+
+export const DEPOSIT_DEADLINE_MINUTES = 15;
+export const FIAT_DEADLINE_MINUTES = 30;
+export const DISPUTE_RESPONSE_DEADLINE_HOURS = 72;
+export const ARBITRATION_DEADLINE_HOURS = 168;
+
+export const SECONDS_PER_MINUTE = 60;
+export const SECONDS_PER_HOUR = 3600;
+
+// Hardcoded arbitrator (ARBITRATOR_BYTES)
+export const ARBITRATOR = new PublicKey(
+  "GGrXhNVxUZXaA2uMopsa5q23aPmoNvQF14uxqo8qENUr"
+);
+
+export type EscrowStateName =
+  | "Created"
+  | "Funded"
+  | "Released"
+  | "Cancelled"
+  | "Disputed"
+  | "Resolved";
+
+export const TERMINAL_STATES: readonly EscrowStateName[] = [
+  "Released",
+  "Cancelled",
+  "Resolved",
+];
+
+export function escrowStateName(state: EscrowState): EscrowStateName {
+  const [key] = Object.keys(state);
+  return (key.charAt(0).toUpperCase() + key.slice(1)) as EscrowStateName;
+}
+
+/** Inverse of escrowStateName, in the shape the account coder uses */
+export function escrowStateValue(name: EscrowStateName): EscrowState {
+  const key = name.charAt(0).toLowerCase() + name.slice(1);
+  return { [key]: {} } as unknown as EscrowState;
+}
+
+export const ESCROW_ERRORS = {
+  InvalidAmount: { code: 6000, msg: "Invalid amount: Zero or negative" },
+  ExceedsMaximum: { code: 6001, msg: "Amount exceeds maximum (100 USDC)" },
+  Unauthorized: { code: 6002, msg: "Unauthorized caller" },
+  DepositDeadlineExpired: { code: 6003, msg: "Deposit deadline expired" },
+  FiatDeadlineExpired: { code: 6004, msg: "Fiat payment deadline expired" },
+  InvalidState: { code: 6005, msg: "Invalid state transition" },
+  MissingSequentialAddress: {
+    code: 6006,
+    msg: "Missing sequential escrow address",
+  },
+  TerminalState: { code: 6007, msg: "Already in terminal state" },
+  FeeCalculationError: { code: 6008, msg: "Fee calculation error" },
+  InsufficientFunds: {
+    code: 6009,
+    msg: "Insufficient funds to cover principal and fee",
+  },
+  IncorrectBondAmount: { code: 6010, msg: "Dispute bond amount incorrect" },
+  ResponseDeadlineExpired: {
+    code: 6011,
+    msg: "Dispute response deadline expired",
+  },
+  InvalidEvidenceHash: { code: 6012, msg: "Evidence hash missing or invalid" },
+  DuplicateEvidence: { code: 6013, msg: "Duplicate evidence submission" },
+  ArbitrationDeadlineExpired: {
+    code: 6014,
+    msg: "Arbitration deadline expired",
+  },
+  MissingDisputeBond: { code: 6015, msg: "Missing dispute bond" },
+  InvalidResolutionExplanation: {
+    code: 6016,
+    msg: "Invalid resolution explanation",
+  },
+  BumpNotFound: { code: 6017, msg: "Required bump seed not found" },
+} as const;
+
+export type EscrowErrorName = keyof typeof ESCROW_ERRORS;
@@ -0,0 +1,122 @@
+/**
+ * Escrow deadlines
+ *
+ * The program's four timers, read off an Escrow account the way the handlers
+ * in programs/localsolana_contracts/src/lib.rs check them. An action is still
+ * allowed at `expiresAt` itself and rejected from the next second on.
+ *
+ *   deposit          Created: the seller funds before deposit_deadline
+ *   fiat             Funded, fiat not marked paid: the buyer marks it paid
+ *                    before fiat_deadline
+ *   disputeResponse  Disputed, no response yet: the other party responds
+ *                    within DISPUTE_RESPONSE_DEADLINE_HOURS of the dispute
+ *   arbitration      Disputed and answered: the arbitrator decides within
+ *                    ARBITRATION_DEADLINE_HOURS of the response. The program
+ *                    does not enforce this one and the account does not store
+ *                    the response time, so it needs `disputeResponseTime`
+ */
+
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { EscrowAccount } from "./client";
+import {
+  ARBITRATION_DEADLINE_HOURS,
+  DISPUTE_RESPONSE_DEADLINE_HOURS,
+  SECONDS_PER_HOUR,
+} from "./constants";
+import { escrowStateName } from "./state-machine";
+
+export const DEADLINE_KINDS = [
+  "deposit",
+  "fiat",
+  "disputeResponse",
+  "arbitration",
+] as const;
+export type DeadlineKind = (typeof DEADLINE_KINDS)[number];
+
+export type DeadlineRole = "seller" | "buyer" | "arbitrator";
+
+export interface EscrowDeadline {
+  kind: DeadlineKind;
+  /** Who has to act before the deadline passes */
+  role: DeadlineRole;
+  party: PublicKey;
+  /** Unix seconds */
+  expiresAt: number;
+}
+
+export interface DeadlineSource extends EscrowAccount {
+  /** Unix time of the dispute response, if known (the account lacks it) */
+  disputeResponseTime?: BN | null;
+}
+
+/**
+ * Deadlines currently running on `escrow`; empty once it is settled
+ */
+export function escrowDeadlines(escrow: DeadlineSource): EscrowDeadline[] {
+  switch (escrowStateName(escrow.state)) {
+    case "Created":
+      return [
+        {
+          kind: "deposit",
+          role: "seller",
+          party: escrow.seller,
+          expiresAt: escrow.depositDeadline.toNumber(),
+        },
+      ];
+    case "Funded":
+      return escrow.fiatPaid
+        ? []
+        : [
+            {
+              kind: "fiat",
+              role: "buyer",
+              party: escrow.buyer,
+              expiresAt: escrow.fiatDeadline.toNumber(),
+            },
+          ];
+    case "Disputed":
+      return disputeDeadlines(escrow);
+    default:
+      return [];
+  }
+}
+
+function disputeDeadlines(escrow: DeadlineSource): EscrowDeadline[] {
+  const initiator = escrow.disputeInitiator;
+  const initiatedAt = escrow.disputeInitiatedTime;
+  if (!initiator || !initiatedAt) return [];
+
+  const responderIsBuyer = !initiator.equals(escrow.buyer);
+  const response = responderIsBuyer
+    ? escrow.disputeEvidenceHashBuyer
+    : escrow.disputeEvidenceHashSeller;
+  if (!response) {
+    return [
+      {
+        kind: "disputeResponse",
+        role: responderIsBuyer ? "buyer" : "seller",
+        party: responderIsBuyer ? escrow.buyer : escrow.seller,
+        expiresAt:
+          initiatedAt.toNumber() +
+          DISPUTE_RESPONSE_DEADLINE_HOURS * SECONDS_PER_HOUR,
+      },
+    ];
+  }
+  if (!escrow.disputeResponseTime) return [];
+  return [
+    {
+      kind: "arbitration",
+      role: "arbitrator",
+      party: escrow.arbitrator,
+      expiresAt:
+        escrow.disputeResponseTime.toNumber() +
+        ARBITRATION_DEADLINE_HOURS * SECONDS_PER_HOUR,
+    },
+  ];
+}
+
+/** Whether the deadline has passed at unix time `now` */
+export function isExpired(deadline: EscrowDeadline, now: number): boolean {
+  return now > deadline.expiresAt;
+}
@@ -0,0 +1,362 @@
+/**
+ * EscrowError variants of the escrow program
+ *
+ * Mirrors the `#[error_code] pub enum EscrowError` in
+ * programs/localsolana_contracts/src/lib.rs. Anchor numbers custom errors
+ * from 6000 in declaration order, so new variants must be appended there and
+ * here in the same position.
+ *
+ * parseEscrowError turns a failed transaction into a typed error class with a
+ * remediation hint for traders and support:
+ *   try { await client.markFiatPaid(ids, buyer); }
+ *   catch (err) { console.error(parseEscrowError(err)?.hint ?? err); }
+ */
+
+import { AnchorError, BN, ProgramError } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import type { EscrowAccount } from "./client";
+import {
+  BASIS_POINTS_DENOMINATOR,
+  DISPUTE_BOND_BASIS_POINTS,
+  DISPUTE_RESPONSE_DEADLINE_HOURS,
+  ESCROW_ERRORS,
+  EscrowErrorName,
+  escrowStateName,
+  MAX_AMOUNT,
+  SECONDS_PER_HOUR,
+} from "./constants";
+
+export { ESCROW_ERRORS, EscrowErrorName } from "./constants";
+
+const ERROR_NAMES_BY_CODE = new Map<number, EscrowErrorName>(
+  (Object.keys(ESCROW_ERRORS) as EscrowErrorName[]).map((name) => [
+    ESCROW_ERRORS[name].code,
+    name,
+  ])
+);
+
+/** What was known about the escrow when the instruction failed */
+export interface EscrowErrorContext {
+  escrowAddress?: PublicKey;
+  /** Escrow account as it was before the failed transaction */
+  escrow?: EscrowAccount;
+  /** Program logs of the failed transaction */
+  logs?: string[];
+}
+
+const formatTime = (unixSeconds: number): string =>
+  new Date(unixSeconds * 1000).toISOString();
+
+// amounts.ts throws the errors defined here, so the hints do their own
+// arithmetic on the account's u64 fields instead of importing it
+const baseUnits = (value: BN): bigint => BigInt(value.toString());
+
+const disputeBond = (escrow: EscrowAccount): bigint =>
+  (baseUnits(escrow.amount) * DISPUTE_BOND_BASIS_POINTS) /
+  BASIS_POINTS_DENOMINATOR;
+
+const responseDeadline = (escrow: EscrowAccount): number | null =>
+  escrow.disputeInitiatedTime
+    ? escrow.disputeInitiatedTime.toNumber() +
+      DISPUTE_RESPONSE_DEADLINE_HOURS * SECONDS_PER_HOUR
+    : null;
+
+/**
+ * Remediation hints shown to traders and support. Each falls back to a
+ * generic sentence when the escrow account was not available.
+ */
+const HINTS: Record<EscrowErrorName, (escrow?: EscrowAccount) => string> = {
+  InvalidAmount: () => "the escrow amount must be greater than zero",
+  ExceedsMaximum: () =>
+    `the escrow amount must not exceed ${MAX_AMOUNT} base units (100 USDC)`,
+  Unauthorized: () =>
+    "the signer is not a party allowed to perform this action on the escrow",
+  DepositDeadlineExpired: (escrow) =>
+    escrow
+      ? `deposit deadline passed at ${formatTime(
+          escrow.depositDeadline.toNumber()
+        )}; the arbitrator may now auto_cancel`
+      : "the deposit deadline has passed; the arbitrator may now auto_cancel",
+  FiatDeadlineExpired: (escrow) =>
+    escrow
+      ? `fiat deadline passed at ${formatTime(
+          escrow.fiatDeadline.toNumber()
+        )}; the arbitrator may now auto_cancel`
+      : "the fiat payment deadline has passed; the arbitrator may now auto_cancel",
+  InvalidState: (escrow) =>
+    escrow
+      ? `the escrow is ${escrowStateName(escrow.state)}${
+          escrow.fiatPaid ? " with fiat marked paid" : ""
+        }, which does not allow this instruction`
+      : "the escrow is not in a state that allows this instruction",
+  MissingSequentialAddress: () =>
+    "sequential escrows need a destination; the buyer can set one with update_sequential_address",
+  TerminalState: () =>
+    "the escrow is already released, cancelled or resolved; no further changes are possible",
+  FeeCalculationError: () =>
+    "fee or bond arithmetic overflowed; check the escrow amount",
+  InsufficientFunds: (escrow) =>
+    escrow
+      ? `the seller's token account must hold ${
+          baseUnits(escrow.amount) + baseUnits(escrow.fee)
+        } base units (principal plus 1% fee)`
+      : "the seller's token account must hold the principal plus the 1% fee",
+  IncorrectBondAmount: (escrow) =>
+    escrow
+      ? `the party's token account must hold the 5% dispute bond (${disputeBond(
+          escrow
+        )} base units)`
+      : "the party's token account must hold the 5% dispute bond",
+  ResponseDeadlineExpired: (escrow) => {
+    const deadline = escrow && responseDeadline(escrow);
+    return deadline
+      ? `response deadline passed at ${formatTime(
+          deadline
+        )}; the arbitrator may now issue a default judgment`
+      : "the dispute response deadline has passed; the arbitrator may now issue a default judgment";
+  },
+  InvalidEvidenceHash: () =>
+    "both parties must submit evidence before the arbitrator can resolve; after the response deadline use default_judgment instead",
+  DuplicateEvidence: () =>
+    "this party has already submitted evidence for the dispute",
+  ArbitrationDeadlineExpired: () => "the arbitration deadline has passed",
+  MissingDisputeBond: (escrow) =>
+    escrow
+      ? `both bond accounts must hold the dispute bond (${disputeBond(
+          escrow
+        )} base units) before resolution`
+      : "both bond accounts must hold the dispute bond before resolution",
+  InvalidResolutionExplanation: () =>
+    "the resolution explanation is missing or invalid",
+  BumpNotFound: () =>
+    "a PDA bump was not found; derive the accounts with sdk/pda and retry",
+};
+
+/**
+ * Base class for decoded EscrowError failures. `code` is the on-chain error
+ * number, `errorName` the Rust variant and `hint` a remediation sentence.
+ */
+export class EscrowError extends Error {
+  readonly code: number;
+  readonly errorName: EscrowErrorName;
+  readonly hint: string;
+  readonly context: EscrowErrorContext;
+  readonly cause?: unknown;
+
+  constructor(
+    errorName: EscrowErrorName,
+    context: EscrowErrorContext = {},
+    cause?: unknown
+  ) {
+    super(ESCROW_ERRORS[errorName].msg);
+    this.name = `${errorName}Error`;
+    this.code = ESCROW_ERRORS[errorName].code;
+    this.errorName = errorName;
+    this.hint = HINTS[errorName](context.escrow);
+    this.context = context;
+    this.cause = cause;
+  }
+}
+
+export class InvalidAmountError extends EscrowError {
+  constructor(context?: EscrowErrorContext, cause?: unknown) {
+    super("InvalidAmount", context, cause);
+  }
+}
+
+export class ExceedsMaximumError extends EscrowError {
+  constructor(context?: EscrowErrorContext, cause?: unknown) {
+    super("ExceedsMaximum", context, cause);
+  }
+}
+
+export class UnauthorizedError extends EscrowError {
+  constructor(context?: EscrowErrorContext, cause?: unknown) {
+    super("Unauthorized", context, cause);
+  }
+}
+
+export class DepositDeadlineExpiredError extends EscrowError {
+  constructor(context?: EscrowErrorContext, cause?: unknown) {
+    super("DepositDeadlineExpired", context, cause);
+  }
+}
+
+export class FiatDeadlineExpiredError extends EscrowError {
+  constructor(context?: EscrowErrorContext, cause?: unknown) {
+    super("FiatDeadlineExpired", context, cause);
+  }
+}
+
+export class InvalidStateError extends EscrowError {
+  constructor(context?: EscrowErrorContext, cause?: unknown) {
+    super("InvalidState", context, cause);
+  }
+}
+
+export class MissingSequentialAddressError extends EscrowError {
+  constructor(context?: EscrowErrorContext, cause?: unknown) {
+    super("MissingSequentialAddress", context, cause);
+  }
+}
+
+export class TerminalStateError extends EscrowError {
+  constructor(context?: EscrowErrorContext, cause?: unknown) {
+    super("TerminalState", context, cause);
+  }
+}
+
+export class FeeCalculationError extends EscrowError {
+  constructor(context?: EscrowErrorContext, cause?: unknown) {
+    super("FeeCalculationError", context, cause);
+  }
+}
+
+export class InsufficientFundsError extends EscrowError {
+  constructor(context?: EscrowErrorContext, cause?: unknown) {
+    super("InsufficientFunds", context, cause);
+  }
+}
+
+export class IncorrectBondAmountError extends EscrowError {
+  constructor(context?: EscrowErrorContext, cause?: unknown) {
+    super("IncorrectBondAmount", context, cause);
+  }
+}
+
+export class ResponseDeadlineExpiredError extends EscrowError {
+  constructor(context?: EscrowErrorContext, cause?: unknown) {
+    super("ResponseDeadlineExpired", context, cause);
+  }
+}
+
+export class InvalidEvidenceHashError extends EscrowError {
+  constructor(context?: EscrowErrorContext, cause?: unknown) {
+    super("InvalidEvidenceHash", context, cause);
+  }
+}
+
+export class DuplicateEvidenceError extends EscrowError {
+  constructor(context?: EscrowErrorContext, cause?: unknown) {
+    super("DuplicateEvidence", context, cause);
+  }
+}
+
+export class ArbitrationDeadlineExpiredError extends EscrowError {
+  constructor(context?: EscrowErrorContext, cause?: unknown) {
+    super("ArbitrationDeadlineExpired", context, cause);
+  }
+}
+
+export class MissingDisputeBondError extends EscrowError {
+  constructor(context?: EscrowErrorContext, cause?: unknown) {
+    super("MissingDisputeBond", context, cause);
+  }
+}
+
+export class InvalidResolutionExplanationError extends EscrowError {
+  constructor(context?: EscrowErrorContext, cause?: unknown) {
+    super("InvalidResolutionExplanation", context, cause);
+  }
+}
+
+export class BumpNotFoundError extends EscrowError {
+  constructor(context?: EscrowErrorContext, cause?: unknown) {
+    super("BumpNotFound", context, cause);
+  }
+}
+
+export const ESCROW_ERROR_CLASSES: Record<
+  EscrowErrorName,
+  new (context?: EscrowErrorContext, cause?: unknown) => EscrowError
+> = {
+  InvalidAmount: InvalidAmountError,
+  ExceedsMaximum: ExceedsMaximumError,
+  Unauthorized: UnauthorizedError,
+  DepositDeadlineExpired: DepositDeadlineExpiredError,
+  FiatDeadlineExpired: FiatDeadlineExpiredError,
+  InvalidState: InvalidStateError,
+  MissingSequentialAddress: MissingSequentialAddressError,
+  TerminalState: TerminalStateError,
+  FeeCalculationError: FeeCalculationError,
+  InsufficientFunds: InsufficientFundsError,
+  IncorrectBondAmount: IncorrectBondAmountError,
+  ResponseDeadlineExpired: ResponseDeadlineExpiredError,
+  InvalidEvidenceHash: InvalidEvidenceHashError,
+  DuplicateEvidence: DuplicateEvidenceError,
+  ArbitrationDeadlineExpired: ArbitrationDeadlineExpiredError,
+  MissingDisputeBond: MissingDisputeBondError,
+  InvalidResolutionExplanation: InvalidResolutionExplanationError,
+  BumpNotFound: BumpNotFoundError,
+};
+
+const CUSTOM_ERROR_LOG = /custom program error: 0x([0-9a-f]+)/i;
+const ANCHOR_ERROR_LOG = /Error Number: (\d+)/;
+
+/** Narrow untrusted input (parsed JSON, caught errors) to an object */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+export const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((line) => typeof line === "string");
+
+function logsOf(error: unknown): string[] | undefined {
+  if (!isRecord(error)) return undefined;
+  if (isStringArray(error.logs)) return error.logs;
+  if (isStringArray(error.transactionLogs)) return error.transactionLogs;
+  return undefined;
+}
+
+/**
+ * Pull a custom program error number out of whatever a failed send produced:
+ * an AnchorError or ProgramError (or an AnchorError that lost its prototype
+ * crossing a wallet boundary), a confirmation TransactionError
+ * ({ InstructionError: [i, { Custom: n }] }), or a SendTransactionError or
+ * plain Error whose logs or message contain the simulation output. Any other
+ * `code` property (RPC, network or wallet errors) is not an error number.
+ */
+export function extractErrorCode(error: unknown): number | null {
+  if (error instanceof AnchorError) return error.error.errorCode.number;
+  if (error instanceof ProgramError) return error.code;
+  if (!isRecord(error)) return null;
+
+  const errorCode = isRecord(error.error) ? error.error.errorCode : undefined;
+  if (isRecord(errorCode) && typeof errorCode.number === "number") {
+    return errorCode.number;
+  }
+
+  const instructionError = error.InstructionError;
+  const detail = Array.isArray(instructionError)
+    ? instructionError[1]
+    : undefined;
+  if (isRecord(detail) && typeof detail.Custom === "number") {
+    return detail.Custom;
+  }
+
+  const sources = [...(logsOf(error) ?? []), String(error.message ?? "")];
+  for (const line of sources) {
+    const anchor = ANCHOR_ERROR_LOG.exec(line);
+    if (anchor) return Number(anchor[1]);
+    const raw = CUSTOM_ERROR_LOG.exec(line);
+    if (raw) return parseInt(raw[1], 16);
+  }
+  return null;
+}
+
+/**
+ * Decode `error` into a typed EscrowError, or null if it is not one of the
+ * program's custom errors (e.g. an Anchor constraint or a network failure).
+ */
+export function parseEscrowError(
+  error: unknown,
+  context: EscrowErrorContext = {}
+): EscrowError | null {
+  if (error instanceof EscrowError) return error;
+  const code = extractErrorCode(error);
+  const name = code === null ? undefined : ERROR_NAMES_BY_CODE.get(code);
+  if (!name) return null;
+  return new ESCROW_ERROR_CLASSES[name](
+    { ...context, logs: context.logs ?? logsOf(error) },
+    error
+  );
+}
@@ -0,0 +1,9 @@
+export * from "./amounts";
+export * from "./client";
+export * from "./constants";
+export * from "./deadlines";
+export * from "./errors";
+export * from "./networks";
+export * from "./pda";
+export * from "./state-machine";
+export * from "./transactions";
@@ -0,0 +1,163 @@
+/**
+ * Network profiles
+ *
+ * One typed profile per cluster (localnet, devnet, mainnet) with everything a
+ * script needs to talk to the deployed program: RPC URL, program id, USDC
+ * mint, arbitrator and block explorer. Program ids come from the
+ * `[programs.<cluster>]` sections of Anchor.toml, so a redeploy only has to
+ * update that file. Per-cluster environment variables override the defaults:
+ *   RPC_URL_<CLUSTER>, USDC_MINT_<CLUSTER>, BLOCK_EXPLORER_<CLUSTER>
+ */
+
+import { PublicKey } from "@solana/web3.js";
+import * as fs from "fs";
+import * as path from "path";
+import { ARBITRATOR } from "./constants";
+import { PROGRAM_ID } from "./pda";
+
+export const CLUSTER_NAMES = ["localnet", "devnet", "mainnet"] as const;
+export type ClusterName = (typeof CLUSTER_NAMES)[number];
+
+export const DEFAULT_CLUSTER: ClusterName = "devnet";
+
+/** Key of the program in Anchor.toml `[programs.*]` sections */
+export const ANCHOR_PROGRAM_NAME = "localsolana_contracts";
+
+export const DEFAULT_ANCHOR_TOML = path.resolve(__dirname, "../Anchor.toml");
+
+export const USDC_MINTS = {
+  devnet: new PublicKey("4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU"),
+  mainnet: new PublicKey("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v"),
+};
+
+export interface NetworkProfile {
+  cluster: ClusterName;
+  rpcUrl: string;
+  programId: PublicKey;
+  usdcMint: PublicKey;
+  /** Hardcoded in the program, so the same on every cluster */
+  arbitrator: PublicKey;
+  explorerUrl: string;
+}
+
+const DEFAULTS: Record<
+  ClusterName,
+  { rpcUrl: string; usdcMint: PublicKey; explorerUrl: string }
+> = {
+  localnet: {
+    rpcUrl: "http://127.0.0.1:8899",
+    // Tests and local validators clone the devnet mint
+    usdcMint: USDC_MINTS.devnet,
+    explorerUrl: "https://explorer.solana.com",
+  },
+  devnet: {
+    rpcUrl: "https://api.devnet.solana.com",
+    usdcMint: USDC_MINTS.devnet,
+    explorerUrl: "https://explorer.solana.com",
+  },
+  mainnet: {
+    rpcUrl: "https://api.mainnet-beta.solana.com",
+    usdcMint: USDC_MINTS.mainnet,
+    explorerUrl: "https://explorer.solana.com",
+  },
+};
+
+export function isClusterName(value: string): value is ClusterName {
+  return (CLUSTER_NAMES as readonly string[]).includes(value);
+}
+
+export function parseClusterName(value: string): ClusterName {
+  if (!isClusterName(value)) {
+    throw new Error(
+      `Unknown cluster: ${value} (expected ${CLUSTER_NAMES.join(", ")})`
+    );
+  }
+  return value;
+}
+
+/**
+ * Read the `[programs.<cluster>]` sections of an Anchor.toml:
+ * cluster -> program name -> program id. Only the flat `name = "value"`
+ * entries those sections use are understood.
+ */
+export function parseAnchorPrograms(
+  toml: string
+): Record<string, Record<string, string>> {
+  const programs: Record<string, Record<string, string>> = {};
+  let section: Record<string, string> | null = null;
+  for (const rawLine of toml.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    if (!line) continue;
+    const header = line.match(/^\[([^\]]+)\]$/);
+    if (header) {
+      const match = header[1].trim().match(/^programs\.([\w-]+)$/);
+      section = match ? (programs[match[1]] ??= {}) : null;
+      continue;
+    }
+    const entry = line.match(/^([\w-]+)\s*=\s*"([^"]*)"$/);
+    if (section && entry) {
+      section[entry[1]] = entry[2];
+    }
+  }
+  return programs;
+}
+
+export interface NetworkProfileOptions {
+  /** Contents of Anchor.toml; read from the repository root if omitted */
+  anchorToml?: string;
+  /** Defaults to process.env */
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * Build the profile for `cluster`. The program id falls back to the id the
+ * program declares when Anchor.toml has no section for the cluster.
+ */
+export function loadNetworkProfile(
+  cluster: ClusterName,
+  options: NetworkProfileOptions = {}
+): NetworkProfile {
+  const env = options.env ?? process.env;
+  const toml =
+    options.anchorToml ??
+    (fs.existsSync(DEFAULT_ANCHOR_TOML)
+      ? fs.readFileSync(DEFAULT_ANCHOR_TOML, "utf8")
+      : "");
+  const programId = parseAnchorPrograms(toml)[cluster]?.[ANCHOR_PROGRAM_NAME];
+  const suffix = cluster.toUpperCase();
+  const defaults = DEFAULTS[cluster];
+  const usdcMint = env[`USDC_MINT_${suffix}`];
+
+  return {
+    cluster,
+    rpcUrl: env[`RPC_URL_${suffix}`] || defaults.rpcUrl,
+    programId: programId ? new PublicKey(programId) : PROGRAM_ID,
+    usdcMint: usdcMint ? new PublicKey(usdcMint) : defaults.usdcMint,
+    arbitrator: ARBITRATOR,
+    explorerUrl: (
+      env[`BLOCK_EXPLORER_${suffix}`] || defaults.explorerUrl
+    ).replace(/\/+$/, ""),
+  };
+}
+
+/**
+ * Block explorer link to a transaction or account on the profile's cluster
+ */
+export function explorerLink(
+  profile: NetworkProfile,
+  kind: "tx" | "address",
+  value: string | PublicKey
+): string {
+  const id = typeof value === "string" ? value : value.toBase58();
+  const url = `${profile.explorerUrl}/${kind}/${id}`;
+  switch (profile.cluster) {
+    case "mainnet":
+      return url;
+    case "devnet":
+      return `${url}?cluster=devnet`;
+    case "localnet":
+      return `${url}?cluster=custom&customUrl=${encodeURIComponent(
+        profile.rpcUrl
+      )}`;
+  }
+}
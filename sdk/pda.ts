@@ -0,0 +1,130 @@
+/**
+ * PDA derivation for the escrow program
+ *
+ * Single source of truth for the program's seeds. Must stay in sync with the
+ * `seeds = [...]` constraints in programs/localsolana_contracts/src/lib.rs:
+ *   escrow        ["escrow", escrow_id (u64 LE), trade_id (u64 LE)]
+ *   escrow_token  ["escrow_token", escrow]
+ *   buyer_bond    ["buyer_bond", escrow]
+ *   seller_bond   ["seller_bond", escrow]
+ */
+
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+
+export const PROGRAM_ID = new PublicKey(
+  "4PonUp1nPEzDPnRMPjTqufLT3f37QuBJGk1CVnsTXx7x"
+);
+
+export const ESCROW_SEED = "escrow";
+export const ESCROW_TOKEN_SEED = "escrow_token";
+export const BUYER_BOND_SEED = "buyer_bond";
+export const SELLER_BOND_SEED = "seller_bond";
+
+/** Identifies an escrow: both ids are part of the escrow PDA seeds */
+export interface EscrowIds {
+  escrowId: BN;
+  tradeId: BN;
+}
+
+export interface DerivedAddress {
+  address: PublicKey;
+  bump: number;
+}
+
+export type EscrowAddressKind =
+  | "escrow"
+  | "escrowToken"
+  | "buyerBond"
+  | "sellerBond";
+
+export type EscrowAddresses = Record<EscrowAddressKind, DerivedAddress>;
+
+export const deriveEscrowPDA = (
+  escrowId: BN,
+  tradeId: BN,
+  programId: PublicKey = PROGRAM_ID
+): [PublicKey, number] =>
+  PublicKey.findProgramAddressSync(
+    [
+      Buffer.from(ESCROW_SEED),
+      escrowId.toArrayLike(Buffer, "le", 8),
+      tradeId.toArrayLike(Buffer, "le", 8),
+    ],
+    programId
+  );
+
+export const deriveEscrowTokenPDA = (
+  escrow: PublicKey,
+  programId: PublicKey = PROGRAM_ID
+): [PublicKey, number] =>
+  PublicKey.findProgramAddressSync(
+    [Buffer.from(ESCROW_TOKEN_SEED), escrow.toBuffer()],
+    programId
+  );
+
+export const deriveBuyerBondPDA = (
+  escrow: PublicKey,
+  programId: PublicKey = PROGRAM_ID
+): [PublicKey, number] =>
+  PublicKey.findProgramAddressSync(
+    [Buffer.from(BUYER_BOND_SEED), escrow.toBuffer()],
+    programId
+  );
+
+export const deriveSellerBondPDA = (
+  escrow: PublicKey,
+  programId: PublicKey = PROGRAM_ID
+): [PublicKey, number] =>
+  PublicKey.findProgramAddressSync(
+    [Buffer.from(SELLER_BOND_SEED), escrow.toBuffer()],
+    programId
+  );
+
+const toDerived = ([address, bump]: [PublicKey, number]): DerivedAddress => ({
+  address,
+  bump,
+});
+
+/**
+ * Derive all four program addresses (with bumps) for one escrow
+ */
+export function deriveEscrowAddresses(
+  { escrowId, tradeId }: EscrowIds,
+  programId: PublicKey = PROGRAM_ID
+): EscrowAddresses {
+  const escrow = deriveEscrowPDA(escrowId, tradeId, programId);
+  return {
+    escrow: toDerived(escrow),
+    escrowToken: toDerived(deriveEscrowTokenPDA(escrow[0], programId)),
+    buyerBond: toDerived(deriveBuyerBondPDA(escrow[0], programId)),
+    sellerBond: toDerived(deriveSellerBondPDA(escrow[0], programId)),
+  };
+}
+
+export interface EscrowAddressMatch {
+  ids: EscrowIds;
+  kind: EscrowAddressKind;
+  addresses: EscrowAddresses;
+}
+
+/**
+ * Reverse lookup: find which of the candidate escrows `address` belongs to,
+ * and which of its four accounts it is. Returns null if none match.
+ */
+export function findEscrowForAddress(
+  address: PublicKey,
+  candidates: Iterable<EscrowIds>,
+  programId: PublicKey = PROGRAM_ID
+): EscrowAddressMatch | null {
+  for (const ids of candidates) {
+    const addresses = deriveEscrowAddresses(ids, programId);
+    const kind = (Object.keys(addresses) as EscrowAddressKind[]).find((k) =>
+      addresses[k].address.equals(address)
+    );
+    if (kind) {
+      return { ids, kind, addresses };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,303 @@
+/**
+ * Offline model of the escrow state machine
+ *
+ * Predicts, from a decoded Escrow account and a clock value, whether each
+ * instruction would succeed and which error the program would raise
+ * otherwise, without a simulation RPC call. Checks are evaluated in the same
+ * order as the program: account constraints first, in the declaration order
+ * of the instruction's Accounts struct (Anchor's ConstraintRaw,
+ * AccountNotInitialized, or the system program's "already in use" for `init`
+ * accounts), then the handler's `require!`s.
+ *
+ * Anything the account alone cannot tell (the signer, token balances, whether
+ * bond accounts exist) comes from the optional SimulationContext; checks whose
+ * inputs are omitted are assumed to pass.
+ */
+
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { EscrowAccount } from "./client";
+import { calculateDisputeBond, toBaseUnits } from "./amounts";
+import {
+  DISPUTE_RESPONSE_DEADLINE_HOURS,
+  EscrowErrorName,
+  EscrowStateName,
+  escrowStateName,
+  MAX_AMOUNT,
+  SECONDS_PER_HOUR,
+  TERMINAL_STATES,
+} from "./constants";
+
+export {
+  EscrowStateName,
+  escrowStateName,
+  escrowStateValue,
+  TERMINAL_STATES,
+} from "./constants";
+
+/** Errors raised before the handler runs, outside EscrowError */
+export type AccountErrorName =
+  | "ConstraintRaw"
+  | "AccountNotInitialized"
+  | "AccountAlreadyInUse";
+
+export type SimulatedErrorName = EscrowErrorName | AccountErrorName;
+
+export type EscrowInstructionName =
+  | "fundEscrow"
+  | "markFiatPaid"
+  | "updateSequentialAddress"
+  | "releaseEscrow"
+  | "cancelEscrow"
+  | "initializeBuyerBondAccount"
+  | "initializeSellerBondAccount"
+  | "openDisputeWithBond"
+  | "respondToDisputeWithBond"
+  | "defaultJudgment"
+  | "resolveDisputeWithExplanation"
+  | "autoCancel";
+
+export type InstructionOutcome =
+  | { ok: true; nextState: EscrowStateName }
+  | { ok: false; error: SimulatedErrorName };
+
+export interface SimulationContext {
+  /** Transaction signer; authorization checks are skipped when omitted */
+  signer?: PublicKey;
+  /** Signer's token balance (base units), for deposit and bond checks */
+  signerTokenBalance?: BN | bigint;
+  /** Whether each bond account has been initialized */
+  bondAccounts?: { buyer: boolean; seller: boolean };
+  /** Current bond account balances (base units), for resolution */
+  bondBalances?: { buyer: BN | bigint; seller: BN | bigint };
+}
+
+export type EscrowSimulation = Record<
+  EscrowInstructionName,
+  InstructionOutcome
+>;
+
+const ok = (nextState: EscrowStateName): InstructionOutcome => ({
+  ok: true,
+  nextState,
+});
+
+const fail = (error: SimulatedErrorName): InstructionOutcome => ({
+  ok: false,
+  error,
+});
+
+/**
+ * create_escrow has no prior account to inspect; it only validates its args
+ */
+export function simulateCreateEscrow(
+  amount: BN | bigint,
+  sequentialEscrowAddress: PublicKey | null = null,
+  sequential: boolean = sequentialEscrowAddress !== null
+): InstructionOutcome {
+  const value = toBaseUnits(amount);
+  if (value <= 0n) return fail("InvalidAmount");
+  if (value > MAX_AMOUNT) return fail("ExceedsMaximum");
+  if (sequential && !sequentialEscrowAddress) {
+    return fail("MissingSequentialAddress");
+  }
+  return ok("Created");
+}
+
+/**
+ * Predict the outcome of every instruction against `escrow` at unix time `now`
+ */
+export function simulateEscrow(
+  escrow: EscrowAccount,
+  now: number,
+  context: SimulationContext = {}
+): EscrowSimulation {
+  const state = escrowStateName(escrow.state);
+  const { signer } = context;
+  const is = (key: PublicKey) => !signer || signer.equals(key);
+  const isParty = is(escrow.buyer) || is(escrow.seller);
+
+  const totalDeposit = toBaseUnits(escrow.amount) + toBaseUnits(escrow.fee);
+  const bondAmount = calculateDisputeBond(escrow.amount);
+  const signerBalance =
+    context.signerTokenBalance !== undefined
+      ? toBaseUnits(context.signerTokenBalance)
+      : undefined;
+
+  // The escrow token account only exists while funds are held
+  const vaultExists = state === "Funded" || state === "Disputed";
+  const terminal = TERMINAL_STATES.includes(state);
+  const bondsInitialized = context.bondAccounts ?? {
+    buyer: true,
+    seller: true,
+  };
+
+  const fundEscrow = (): InstructionOutcome => {
+    if (!is(escrow.seller)) return fail("ConstraintRaw");
+    if (vaultExists) return fail("AccountAlreadyInUse");
+    if (state !== "Created") return fail("InvalidState");
+    if (now > escrow.depositDeadline.toNumber()) {
+      return fail("DepositDeadlineExpired");
+    }
+    if (signerBalance !== undefined && signerBalance < totalDeposit) {
+      return fail("InsufficientFunds");
+    }
+    return ok("Funded");
+  };
+
+  const markFiatPaid = (): InstructionOutcome => {
+    if (!is(escrow.buyer)) return fail("ConstraintRaw");
+    if (state !== "Funded") return fail("InvalidState");
+    if (now > escrow.fiatDeadline.toNumber()) {
+      return fail("FiatDeadlineExpired");
+    }
+    return ok("Funded");
+  };
+
+  const updateSequentialAddress = (): InstructionOutcome => {
+    if (!is(escrow.buyer)) return fail("ConstraintRaw");
+    if (!escrow.sequential) return fail("InvalidState");
+    if (terminal) return fail("TerminalState");
+    return ok(state);
+  };
+
+  const releaseEscrow = (): InstructionOutcome => {
+    if (!is(escrow.seller) && !is(escrow.arbitrator)) {
+      return fail("ConstraintRaw");
+    }
+    if (!vaultExists) return fail("AccountNotInitialized");
+    if (state !== "Funded") return fail("InvalidState");
+    if (!escrow.fiatPaid) return fail("InvalidState");
+    if (escrow.sequential && !escrow.sequentialEscrowAddress) {
+      return fail("MissingSequentialAddress");
+    }
+    return ok("Released");
+  };
+
+  const cancelEscrow = (): InstructionOutcome => {
+    if (!is(escrow.seller) && !is(escrow.arbitrator)) {
+      return fail("ConstraintRaw");
+    }
+    if (state !== "Created" && state !== "Funded") {
+      return fail("InvalidState");
+    }
+    if (escrow.fiatPaid) return fail("InvalidState");
+    return ok("Cancelled");
+  };
+
+  const initializeBond = (initialized = false): InstructionOutcome =>
+    initialized ? fail("AccountAlreadyInUse") : ok(state);
+
+  const openDisputeWithBond = (): InstructionOutcome => {
+    if (!isParty) return fail("ConstraintRaw");
+    if (!bondsInitialized.buyer || !bondsInitialized.seller) {
+      return fail("AccountNotInitialized");
+    }
+    if (state !== "Funded") return fail("InvalidState");
+    if (!escrow.fiatPaid) return fail("InvalidState");
+    if (signerBalance !== undefined && signerBalance < bondAmount) {
+      return fail("IncorrectBondAmount");
+    }
+    return ok("Disputed");
+  };
+
+  const respondToDisputeWithBond = (): InstructionOutcome => {
+    if (!bondsInitialized.buyer || !bondsInitialized.seller) {
+      return fail("AccountNotInitialized");
+    }
+    if (state !== "Disputed") return fail("InvalidState");
+    const initiator = escrow.disputeInitiator;
+    if (!initiator) return fail("InvalidState");
+    if (signer && (signer.equals(initiator) || !isParty)) {
+      return fail("Unauthorized");
+    }
+    const deadline =
+      (escrow.disputeInitiatedTime?.toNumber() ?? 0) +
+      DISPUTE_RESPONSE_DEADLINE_HOURS * SECONDS_PER_HOUR;
+    if (now > deadline) return fail("ResponseDeadlineExpired");
+    if (signerBalance !== undefined && signerBalance < bondAmount) {
+      return fail("IncorrectBondAmount");
+    }
+    // Without a signer, the responder is whoever did not initiate
+    const responderIsBuyer = signer
+      ? signer.equals(escrow.buyer)
+      : !initiator.equals(escrow.buyer);
+    const existing = responderIsBuyer
+      ? escrow.disputeEvidenceHashBuyer
+      : escrow.disputeEvidenceHashSeller;
+    if (existing) return fail("DuplicateEvidence");
+    return ok("Disputed");
+  };
+
+  const defaultJudgment = (): InstructionOutcome => {
+    if (!is(escrow.arbitrator)) return fail("ConstraintRaw");
+    if (!vaultExists) return fail("AccountNotInitialized");
+    if (!bondsInitialized.buyer || !bondsInitialized.seller) {
+      return fail("AccountNotInitialized");
+    }
+    if (state !== "Disputed") return fail("InvalidState");
+    const initiator = escrow.disputeInitiator;
+    if (!initiator) return fail("InvalidState");
+    const deadline =
+      (escrow.disputeInitiatedTime?.toNumber() ?? 0) +
+      DISPUTE_RESPONSE_DEADLINE_HOURS * SECONDS_PER_HOUR;
+    if (now <= deadline) return fail("InvalidState");
+    // Both parties responded: only resolve_dispute_with_explanation applies
+    const responded = initiator.equals(escrow.buyer)
+      ? escrow.disputeEvidenceHashSeller
+      : escrow.disputeEvidenceHashBuyer;
+    if (responded) return fail("InvalidState");
+    return ok("Resolved");
+  };
+
+  const resolveDisputeWithExplanation = (): InstructionOutcome => {
+    if (!is(escrow.arbitrator)) return fail("ConstraintRaw");
+    if (!vaultExists) return fail("AccountNotInitialized");
+    if (!bondsInitialized.buyer || !bondsInitialized.seller) {
+      return fail("AccountNotInitialized");
+    }
+    if (state !== "Disputed") return fail("InvalidState");
+    if (!escrow.disputeEvidenceHashBuyer || !escrow.disputeEvidenceHashSeller) {
+      return fail("InvalidEvidenceHash");
+    }
+    if (context.bondBalances) {
+      const buyerBond = toBaseUnits(context.bondBalances.buyer);
+      const sellerBond = toBaseUnits(context.bondBalances.seller);
+      if (buyerBond < bondAmount || sellerBond < bondAmount) {
+        return fail("MissingDisputeBond");
+      }
+    }
+    return ok("Resolved");
+  };
+
+  const autoCancel = (): InstructionOutcome => {
+    if (!is(escrow.arbitrator)) return fail("ConstraintRaw");
+    if (terminal) return fail("TerminalState");
+    if (state === "Created" && now <= escrow.depositDeadline.toNumber()) {
+      return fail("InvalidState");
+    }
+    if (
+      state === "Funded" &&
+      (now <= escrow.fiatDeadline.toNumber() || escrow.fiatPaid)
+    ) {
+      return fail("InvalidState");
+    }
+    // Note: the program does not reject Disputed escrows here
+    return ok("Cancelled");
+  };
+
+  return {
+    fundEscrow: fundEscrow(),
+    markFiatPaid: markFiatPaid(),
+    updateSequentialAddress: updateSequentialAddress(),
+    releaseEscrow: releaseEscrow(),
+    cancelEscrow: cancelEscrow(),
+    initializeBuyerBondAccount: initializeBond(context.bondAccounts?.buyer),
+    initializeSellerBondAccount: initializeBond(context.bondAccounts?.seller),
+    openDisputeWithBond: openDisputeWithBond(),
+    respondToDisputeWithBond: respondToDisputeWithBond(),
+    defaultJudgment: defaultJudgment(),
+    resolveDisputeWithExplanation: resolveDisputeWithExplanation(),
+    autoCancel: autoCancel(),
+  };
+}
@@ -0,0 +1,305 @@
+/**
+ * Unsigned transaction builders for wallet-adapter frontends
+ *
+ * Each builder resolves accounts through the same EscrowClient instruction
+ * methods the Keypair flows use, then compiles a v0 VersionedTransaction with
+ * the fee payer and a recent blockhash filled in. The transaction is left
+ * unsigned so the browser wallet can sign it; `submitSigned` sends it back.
+ *
+ * Usage:
+ *   const builder = new EscrowTransactionBuilder(client);
+ *   const unsigned = await builder.fundEscrow(ids, wallet.publicKey);
+ *   const signed = await wallet.signTransaction(unsigned.transaction);
+ *   await submitSigned(connection, signed, unsigned);
+ */
+
+import {
+  BlockhashWithExpiryBlockHeight,
+  Commitment,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  CreateEscrowParams,
+  EscrowClient,
+  Hash32,
+  TokenAccountOverrides,
+} from "./client";
+import { parseEscrowError } from "./errors";
+import { EscrowIds } from "./pda";
+
+export interface UnsignedTransaction extends BlockhashWithExpiryBlockHeight {
+  transaction: VersionedTransaction;
+}
+
+export interface TransactionBuilderOptions {
+  /** Commitment used to fetch the recent blockhash (default "confirmed") */
+  commitment?: Commitment;
+}
+
+/**
+ * Serialize a (signed or unsigned) transaction to base64 for transport
+ */
+export function serializeTransaction(
+  transaction: VersionedTransaction
+): string {
+  return Buffer.from(transaction.serialize()).toString("base64");
+}
+
+export function deserializeTransaction(base64: string): VersionedTransaction {
+  return VersionedTransaction.deserialize(Buffer.from(base64, "base64"));
+}
+
+/**
+ * Submit a wallet-signed transaction and wait for confirmation against the
+ * expiry of the blockhash it was built with: pass the blockhash info the
+ * builder returned. A wallet that swapped in its own blockhash leaves that
+ * expiry unknown, so the transaction is rejected before sending.
+ */
+export async function submitSigned(
+  connection: Connection,
+  signed: VersionedTransaction | string,
+  blockhash: BlockhashWithExpiryBlockHeight,
+  commitment: Commitment = "confirmed"
+): Promise<string> {
+  const transaction =
+    typeof signed === "string" ? deserializeTransaction(signed) : signed;
+  if (transaction.message.recentBlockhash !== blockhash.blockhash) {
+    throw new Error(
+      `Transaction was signed with blockhash ${transaction.message.recentBlockhash}, not ${blockhash.blockhash}`
+    );
+  }
+
+  // Program errors usually surface in preflight, as a SendTransactionError
+  let signature: string;
+  try {
+    signature = await connection.sendRawTransaction(transaction.serialize(), {
+      preflightCommitment: commitment,
+    });
+  } catch (error) {
+    throw parseEscrowError(error) ?? error;
+  }
+
+  const result = await connection.confirmTransaction(
+    {
+      signature,
+      blockhash: blockhash.blockhash,
+      lastValidBlockHeight: blockhash.lastValidBlockHeight,
+    },
+    commitment
+  );
+  if (result.value.err) {
+    throw (
+      parseEscrowError(result.value.err) ??
+      new Error(
+        `Transaction ${signature} failed: ${JSON.stringify(result.value.err)}`
+      )
+    );
+  }
+  return signature;
+}
+
+export class EscrowTransactionBuilder {
+  private client: EscrowClient;
+  private connection: Connection;
+  private commitment: Commitment;
+
+  constructor(client: EscrowClient, options: TransactionBuilderOptions = {}) {
+    this.client = client;
+    this.connection = client.program.provider.connection;
+    this.commitment = options.commitment ?? "confirmed";
+  }
+
+  /**
+   * Compile instructions into an unsigned v0 transaction paid by `feePayer`.
+   * The per-instruction builders below default the fee payer to the signer.
+   */
+  async build(
+    instructions: TransactionInstruction[],
+    feePayer: PublicKey
+  ): Promise<UnsignedTransaction> {
+    const latest = await this.connection.getLatestBlockhash(this.commitment);
+    const message = new TransactionMessage({
+      payerKey: feePayer,
+      recentBlockhash: latest.blockhash,
+      instructions,
+    }).compileToV0Message();
+
+    return { transaction: new VersionedTransaction(message), ...latest };
+  }
+
+  async createEscrow(
+    params: CreateEscrowParams,
+    seller: PublicKey,
+    feePayer: PublicKey = seller
+  ): Promise<UnsignedTransaction> {
+    const ix = await this.client.createEscrowInstruction(params, seller);
+    return this.build([ix], feePayer);
+  }
+
+  async fundEscrow(
+    ids: EscrowIds,
+    seller: PublicKey,
+    overrides: TokenAccountOverrides = {},
+    feePayer: PublicKey = seller
+  ): Promise<UnsignedTransaction> {
+    const ix = await this.client.fundEscrowInstruction(ids, seller, overrides);
+    return this.build([ix], feePayer);
+  }
+
+  async markFiatPaid(
+    ids: EscrowIds,
+    buyer: PublicKey,
+    feePayer: PublicKey = buyer
+  ): Promise<UnsignedTransaction> {
+    const ix = await this.client.markFiatPaidInstruction(ids, buyer);
+    return this.build([ix], feePayer);
+  }
+
+  async updateSequentialAddress(
+    ids: EscrowIds,
+    buyer: PublicKey,
+    newAddress: PublicKey,
+    feePayer: PublicKey = buyer
+  ): Promise<UnsignedTransaction> {
+    const ix = await this.client.updateSequentialAddressInstruction(
+      ids,
+      buyer,
+      newAddress
+    );
+    return this.build([ix], feePayer);
+  }
+
+  async releaseEscrow(
+    ids: EscrowIds,
+    authority: PublicKey,
+    overrides: TokenAccountOverrides = {},
+    feePayer: PublicKey = authority
+  ): Promise<UnsignedTransaction> {
+    const ix = await this.client.releaseEscrowInstruction(
+      ids,
+      authority,
+      overrides
+    );
+    return this.build([ix], feePayer);
+  }
+
+  async cancelEscrow(
+    ids: EscrowIds,
+    authority: PublicKey,
+    overrides: TokenAccountOverrides = {},
+    feePayer: PublicKey = authority
+  ): Promise<UnsignedTransaction> {
+    const ix = await this.client.cancelEscrowInstruction(
+      ids,
+      authority,
+      overrides
+    );
+    return this.build([ix], feePayer);
+  }
+
+  async initializeBuyerBondAccount(
+    ids: EscrowIds,
+    payer: PublicKey,
+    feePayer: PublicKey = payer
+  ): Promise<UnsignedTransaction> {
+    const ix = await this.client.initializeBuyerBondAccountInstruction(
+      ids,
+      payer
+    );
+    return this.build([ix], feePayer);
+  }
+
+  async initializeSellerBondAccount(
+    ids: EscrowIds,
+    payer: PublicKey,
+    feePayer: PublicKey = payer
+  ): Promise<UnsignedTransaction> {
+    const ix = await this.client.initializeSellerBondAccountInstruction(
+      ids,
+      payer
+    );
+    return this.build([ix], feePayer);
+  }
+
+  async openDisputeWithBond(
+    ids: EscrowIds,
+    disputingParty: PublicKey,
+    evidenceHash: Hash32,
+    overrides: TokenAccountOverrides = {},
+    feePayer: PublicKey = disputingParty
+  ): Promise<UnsignedTransaction> {
+    const ix = await this.client.openDisputeWithBondInstruction(
+      ids,
+      disputingParty,
+      evidenceHash,
+      overrides
+    );
+    return this.build([ix], feePayer);
+  }
+
+  async respondToDisputeWithBond(
+    ids: EscrowIds,
+    respondingParty: PublicKey,
+    evidenceHash: Hash32,
+    overrides: TokenAccountOverrides = {},
+    feePayer: PublicKey = respondingParty
+  ): Promise<UnsignedTransaction> {
+    const ix = await this.client.respondToDisputeWithBondInstruction(
+      ids,
+      respondingParty,
+      evidenceHash,
+      overrides
+    );
+    return this.build([ix], feePayer);
+  }
+
+  async defaultJudgment(
+    ids: EscrowIds,
+    arbitrator: PublicKey,
+    overrides: TokenAccountOverrides = {},
+    feePayer: PublicKey = arbitrator
+  ): Promise<UnsignedTransaction> {
+    const ix = await this.client.defaultJudgmentInstruction(
+      ids,
+      arbitrator,
+      overrides
+    );
+    return this.build([ix], feePayer);
+  }
+
+  async resolveDisputeWithExplanation(
+    ids: EscrowIds,
+    arbitrator: PublicKey,
+    decision: boolean,
+    resolutionHash: Hash32,
+    overrides: TokenAccountOverrides = {},
+    feePayer: PublicKey = arbitrator
+  ): Promise<UnsignedTransaction> {
+    const ix = await this.client.resolveDisputeWithExplanationInstruction(
+      ids,
+      arbitrator,
+      decision,
+      resolutionHash,
+      overrides
+    );
+    return this.build([ix], feePayer);
+  }
+
+  async autoCancel(
+    ids: EscrowIds,
+    arbitrator: PublicKey,
+    overrides: TokenAccountOverrides = {},
+    feePayer: PublicKey = arbitrator
+  ): Promise<UnsignedTransaction> {
+    const ix = await this.client.autoCancelInstruction(
+      ids,
+      arbitrator,
+      overrides
+    );
+    return this.build([ix], feePayer);
+  }
+}
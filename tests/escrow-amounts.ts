@@ -0,0 +1,54 @@
+import { BN } from "@coral-xyz/anchor";
+import { assert } from "chai";
+import {
+  calculateDisputeBond,
+  calculateFee,
+  formatAmount,
+  formatQuote,
+  parseAmount,
+  quoteEscrow,
+} from "../sdk/amounts";
+import { FeeCalculationError } from "../sdk/errors";
+
+describe("Escrow Amount Calculator", () => {
+  it("Rounds fee and bond down like the program", () => {
+    assert.equal(calculateFee(1_000_000n), 10_000n);
+    assert.equal(calculateFee(new BN(199)), 1n);
+    assert.equal(calculateFee(99), 0n);
+    assert.equal(calculateDisputeBond("1000000"), 50_000n);
+    assert.equal(calculateDisputeBond(39n), 1n);
+  });
+
+  it("Quotes the exact deposit fund_escrow pulls", () => {
+    assert.deepEqual(quoteEscrow(new BN(12_345_678)), {
+      principal: 12_345_678n,
+      fee: 123_456n,
+      totalDeposit: 12_469_134n,
+      bond: 617_283n,
+    });
+    assert.deepEqual(formatQuote(quoteEscrow(1_000_000n)), {
+      principal: "1.00 USDC",
+      fee: "0.01 USDC",
+      totalDeposit: "1.01 USDC",
+      bond: "0.05 USDC",
+    });
+  });
+
+  it("Fails on u64 overflow like checked_mul", () => {
+    assert.throws(() => calculateFee((1n << 64n) - 1n), FeeCalculationError);
+    assert.throws(() => calculateFee(-1n), RangeError);
+    assert.throws(() => calculateFee(0.5), RangeError);
+  });
+
+  it("Formats and parses decimal amounts without rounding", () => {
+    assert.equal(formatAmount(1_234_567n), "1.234567");
+    assert.equal(formatAmount(100_000_000n), "100.00");
+    assert.equal(formatAmount(1n), "0.000001");
+    assert.equal(formatAmount(5n, 0), "5");
+    assert.equal(formatAmount(1_500_000_000n, 9, 0), "1.5");
+    assert.equal(parseAmount("1.01"), 1_010_000n);
+    assert.equal(parseAmount("100"), 100_000_000n);
+    assert.throws(() => parseAmount("0.0000001"));
+    assert.throws(() => parseAmount("1e6"));
+  });
+});
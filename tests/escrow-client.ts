@@ -0,0 +1,289 @@
+import { BN, Program } from "@coral-xyz/anchor";
+import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  SYSVAR_RENT_PUBKEY,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { assert } from "chai";
+import { EscrowAccount, EscrowClient } from "../sdk/client";
+import { ARBITRATOR } from "../sdk/constants";
+import { LocalsolanaContracts } from "../target/types/localsolana_contracts";
+import { buyer, evidenceHash, makeEscrow, seller } from "./helpers/escrows";
+import { idl, PROGRAM_ID } from "./helpers/events";
+
+describe("Escrow Client Instructions", () => {
+  const mint = Keypair.generate().publicKey;
+  const sequentialAddress = Keypair.generate().publicKey;
+  const ids = { escrowId: new BN(3), tradeId: new BN(42) };
+  // Nothing is sent; the connection is only needed to build the program
+  const program = new Program<LocalsolanaContracts>(idl, {
+    connection: new Connection("http://127.0.0.1:8899"),
+  });
+  const client = new EscrowClient(program, mint);
+  let account: EscrowAccount;
+  client.fetchEscrow = async () => account;
+
+  const escrow = client.escrowAddress(ids);
+  const vault = client.escrowTokenAddress(ids);
+  const buyerBond = client.buyerBondAddress(ids);
+  const sellerBond = client.sellerBondAddress(ids);
+  const ata = (owner: PublicKey) => client.tokenAccountFor(owner);
+
+  beforeEach(() => {
+    account = makeEscrow({ ...ids, state: { funded: {} } });
+  });
+
+  /**
+   * Check the instruction's accounts, in order, against the IDL's signer and
+   * writable flags and the expected addresses. Optional accounts left out
+   * (null) are passed as the program id, read-only.
+   */
+  function assertAccounts(
+    instruction: TransactionInstruction,
+    name: string,
+    expected: Record<string, PublicKey | null>
+  ) {
+    const idlInstruction = idl.instructions.find(
+      (ix: { name: string }) => ix.name === name
+    );
+    assert.isTrue(instruction.programId.equals(PROGRAM_ID));
+    assert.deepEqual(
+      instruction.keys.map((_, i) => idlInstruction.accounts[i]?.name),
+      idlInstruction.accounts.map((a: { name: string }) => a.name)
+    );
+    idlInstruction.accounts.forEach(
+      (
+        idlAccount: { name: string; signer?: boolean; writable?: boolean },
+        i: number
+      ) => {
+        const key = instruction.keys[i];
+        const address = expected[idlAccount.name];
+        assert.isDefined(address, `No expectation for ${idlAccount.name}`);
+        if (address === null) {
+          assert.isTrue(key.pubkey.equals(PROGRAM_ID), idlAccount.name);
+          assert.isFalse(key.isWritable, idlAccount.name);
+        } else {
+          assert.equal(
+            key.pubkey.toBase58(),
+            address.toBase58(),
+            idlAccount.name
+          );
+          assert.equal(
+            key.isWritable,
+            !!idlAccount.writable,
+            `${idlAccount.name} writable`
+          );
+        }
+        assert.equal(
+          key.isSigner,
+          !!idlAccount.signer,
+          `${idlAccount.name} signer`
+        );
+      }
+    );
+  }
+
+  it("Builds create, fund, fiat and sequential address instructions", async () => {
+    assertAccounts(
+      await client.createEscrowInstruction(
+        { ...ids, amount: new BN(1_000_000), buyer },
+        seller
+      ),
+      "create_escrow",
+      {
+        seller,
+        buyer,
+        escrow,
+        system_program: SystemProgram.programId,
+      }
+    );
+    assertAccounts(
+      await client.fundEscrowInstruction(ids, seller),
+      "fund_escrow",
+      {
+        seller,
+        escrow,
+        seller_token_account: ata(seller),
+        escrow_token_account: vault,
+        token_mint: mint,
+        token_program: TOKEN_PROGRAM_ID,
+        system_program: SystemProgram.programId,
+        rent: SYSVAR_RENT_PUBKEY,
+      }
+    );
+    assertAccounts(
+      await client.markFiatPaidInstruction(ids, buyer),
+      "mark_fiat_paid",
+      { buyer, escrow }
+    );
+    assertAccounts(
+      await client.updateSequentialAddressInstruction(
+        ids,
+        buyer,
+        sequentialAddress
+      ),
+      "update_sequential_address",
+      { buyer, escrow }
+    );
+  });
+
+  it("Builds release instructions for plain and sequential escrows", async () => {
+    const release = {
+      authority: seller,
+      escrow,
+      escrow_token_account: vault,
+      buyer_token_account: ata(buyer),
+      arbitrator_token_account: ata(ARBITRATOR),
+      token_program: TOKEN_PROGRAM_ID,
+    };
+    assertAccounts(
+      await client.releaseEscrowInstruction(ids, seller),
+      "release_escrow",
+      { ...release, sequential_escrow_token_account: null }
+    );
+
+    account = makeEscrow({
+      ...ids,
+      state: { funded: {} },
+      sequential: true,
+      sequentialEscrowAddress: sequentialAddress,
+    });
+    assertAccounts(
+      await client.releaseEscrowInstruction(ids, seller),
+      "release_escrow",
+      { ...release, sequential_escrow_token_account: ata(sequentialAddress) }
+    );
+  });
+
+  it("Passes the vault to cancellations only once funded", async () => {
+    const funded = {
+      escrow,
+      escrow_token_account: vault,
+      seller_token_account: ata(seller),
+      token_program: TOKEN_PROGRAM_ID,
+    };
+    assertAccounts(
+      await client.cancelEscrowInstruction(ids, ARBITRATOR),
+      "cancel_escrow",
+      { ...funded, seller, authority: ARBITRATOR }
+    );
+    assertAccounts(
+      await client.autoCancelInstruction(ids, ARBITRATOR),
+      "auto_cancel",
+      { ...funded, seller, arbitrator: ARBITRATOR }
+    );
+
+    account = makeEscrow({ ...ids });
+    const unfunded = {
+      ...funded,
+      escrow_token_account: null,
+      seller_token_account: null,
+    };
+    assertAccounts(
+      await client.cancelEscrowInstruction(ids, seller),
+      "cancel_escrow",
+      { ...unfunded, seller, authority: seller }
+    );
+    assertAccounts(
+      await client.autoCancelInstruction(ids, ARBITRATOR),
+      "auto_cancel",
+      { ...unfunded, seller, arbitrator: ARBITRATOR }
+    );
+  });
+
+  it("Builds bond and dispute instructions", async () => {
+    const bondAccount = {
+      payer: buyer,
+      escrow,
+      token_mint: mint,
+      token_program: TOKEN_PROGRAM_ID,
+      system_program: SystemProgram.programId,
+      rent: SYSVAR_RENT_PUBKEY,
+    };
+    assertAccounts(
+      await client.initializeBuyerBondAccountInstruction(ids, buyer),
+      "initialize_buyer_bond_account",
+      { ...bondAccount, buyer_bond_account: buyerBond }
+    );
+    assertAccounts(
+      await client.initializeSellerBondAccountInstruction(ids, buyer),
+      "initialize_seller_bond_account",
+      { ...bondAccount, seller_bond_account: sellerBond }
+    );
+
+    const bonds = {
+      escrow,
+      buyer_bond_account: buyerBond,
+      seller_bond_account: sellerBond,
+      token_program: TOKEN_PROGRAM_ID,
+    };
+    assertAccounts(
+      await client.openDisputeWithBondInstruction(ids, buyer, evidenceHash),
+      "open_dispute_with_bond",
+      {
+        ...bonds,
+        disputing_party: buyer,
+        disputing_party_token_account: ata(buyer),
+      }
+    );
+    assertAccounts(
+      await client.respondToDisputeWithBondInstruction(
+        ids,
+        seller,
+        evidenceHash
+      ),
+      "respond_to_dispute_with_bond",
+      {
+        ...bonds,
+        responding_party: seller,
+        responding_party_token_account: ata(seller),
+      }
+    );
+
+    const settlement = {
+      ...bonds,
+      seller,
+      arbitrator: ARBITRATOR,
+      escrow_token_account: vault,
+      buyer_token_account: ata(buyer),
+      seller_token_account: ata(seller),
+    };
+    assertAccounts(
+      await client.defaultJudgmentInstruction(ids, ARBITRATOR),
+      "default_judgment",
+      settlement
+    );
+    assertAccounts(
+      await client.resolveDisputeWithExplanationInstruction(
+        ids,
+        ARBITRATOR,
+        true,
+        evidenceHash
+      ),
+      "resolve_dispute_with_explanation",
+      { ...settlement, arbitrator_token_account: ata(ARBITRATOR) }
+    );
+  });
+
+  it("Uses token account overrides and rejects short hashes", async () => {
+    const party = Keypair.generate().publicKey;
+    const instruction = await client.openDisputeWithBondInstruction(
+      ids,
+      buyer,
+      evidenceHash,
+      { partyTokenAccount: party }
+    );
+    assert.isTrue(instruction.keys[2].pubkey.equals(party));
+
+    try {
+      await client.openDisputeWithBondInstruction(ids, buyer, [1, 2, 3]);
+      assert.fail("Expected a short hash to be rejected");
+    } catch (error) {
+      assert.match((error as Error).message, /Expected a 32-byte hash/);
+    }
+  });
+});
@@ -0,0 +1,138 @@
+import { AnchorError, BN, ProgramError } from "@coral-xyz/anchor";
+import { Keypair } from "@solana/web3.js";
+import { assert } from "chai";
+import { EscrowAccount } from "../sdk/client";
+import { ARBITRATOR } from "../sdk/constants";
+import {
+  ESCROW_ERRORS,
+  EscrowError,
+  FiatDeadlineExpiredError,
+  InvalidStateError,
+  ResponseDeadlineExpiredError,
+  extractErrorCode,
+  parseEscrowError,
+} from "../sdk/errors";
+
+describe("Escrow Error Decoding", () => {
+  const created = 1_700_000_000;
+  const escrow: EscrowAccount = {
+    escrowId: new BN(1),
+    tradeId: new BN(1),
+    seller: Keypair.generate().publicKey,
+    buyer: Keypair.generate().publicKey,
+    arbitrator: ARBITRATOR,
+    amount: new BN(1_000_000),
+    fee: new BN(10_000),
+    depositDeadline: new BN(created + 15 * 60),
+    fiatDeadline: new BN(created + 45 * 60),
+    state: { funded: {} },
+    sequential: false,
+    sequentialEscrowAddress: null,
+    fiatPaid: false,
+    counter: new BN(0),
+    disputeInitiator: null,
+    disputeInitiatedTime: null,
+    disputeEvidenceHashBuyer: null,
+    disputeEvidenceHashSeller: null,
+    disputeResolutionHash: null,
+    trackedBalance: new BN(1_010_000),
+  };
+
+  it("Extracts error numbers from every failure shape", () => {
+    assert.equal(
+      extractErrorCode({ error: { errorCode: { number: 6004 } } }),
+      6004
+    );
+    assert.equal(
+      extractErrorCode({ InstructionError: [0, { Custom: 6005 }] }),
+      6005
+    );
+    assert.equal(
+      extractErrorCode({
+        logs: [
+          "Program log: AnchorError occurred. Error Code: FiatDeadlineExpired. Error Number: 6004. Error Message: Fiat payment deadline expired.",
+        ],
+      }),
+      6004
+    );
+    assert.equal(
+      extractErrorCode(
+        new Error(
+          "failed to send transaction: Transaction simulation failed: Error processing Instruction 0: custom program error: 0x1770"
+        )
+      ),
+      6000
+    );
+    assert.isNull(extractErrorCode(new Error("fetch failed")));
+  });
+
+  it("Trusts a code property only on Anchor and program errors", () => {
+    const anchor = new AnchorError(
+      { code: "InvalidState", number: 6005 },
+      "Invalid state transition",
+      [],
+      []
+    );
+    assert.equal(extractErrorCode(anchor), 6005);
+    assert.equal(extractErrorCode(new ProgramError(6013, "Duplicate")), 6013);
+
+    // A JSON-RPC error code, with the program error in the simulation logs
+    const rpc = Object.assign(new Error("Transaction simulation failed"), {
+      code: -32002,
+      logs: [
+        "Program log: AnchorError occurred. Error Code: ExceedsMaximum. Error Number: 6001. Error Message: Amount exceeds maximum (100 USDC).",
+      ],
+    });
+    assert.equal(extractErrorCode(rpc), 6001);
+    // Wallet rejections and plain objects carry codes that are not errors
+    assert.isNull(extractErrorCode({ code: 6005 }));
+    assert.isNull(
+      extractErrorCode(
+        Object.assign(new Error("User rejected"), { code: 4001 })
+      )
+    );
+    assert.isNull(extractErrorCode("custom program error"));
+    assert.isNull(extractErrorCode(null));
+  });
+
+  it("Maps every variant to its own error class", () => {
+    for (const [name, { code, msg }] of Object.entries(ESCROW_ERRORS)) {
+      const error = parseEscrowError({
+        InstructionError: [0, { Custom: code }],
+      });
+      assert.instanceOf(error, EscrowError);
+      assert.equal(error!.errorName, name);
+      assert.equal(error!.name, `${name}Error`);
+      assert.equal(error!.message, msg);
+      assert.isNotEmpty(error!.hint);
+    }
+  });
+
+  it("Ignores non-escrow errors", () => {
+    // System program "account already in use" and Anchor constraint errors
+    assert.isNull(parseEscrowError({ InstructionError: [0, { Custom: 0 }] }));
+    assert.isNull(parseEscrowError({ error: { errorCode: { number: 2003 } } }));
+  });
+
+  it("Builds hints from the escrow context", () => {
+    const fiat = parseEscrowError(
+      { InstructionError: [0, { Custom: 6004 }] },
+      { escrow }
+    );
+    assert.instanceOf(fiat, FiatDeadlineExpiredError);
+    assert.equal(
+      fiat!.hint,
+      "fiat deadline passed at 2023-11-14T22:58:20.000Z; the arbitrator may now auto_cancel"
+    );
+
+    const state = new InvalidStateError({
+      escrow: { ...escrow, fiatPaid: true },
+    });
+    assert.include(state.hint, "Funded with fiat marked paid");
+
+    const response = new ResponseDeadlineExpiredError({
+      escrow: { ...escrow, disputeInitiatedTime: new BN(created) },
+    });
+    assert.include(response.hint, "2023-11-17T22:13:20.000Z");
+  });
+});
@@ -0,0 +1,91 @@
+import { Keypair } from "@solana/web3.js";
+import { assert } from "chai";
+import { ARBITRATOR } from "../sdk/constants";
+import {
+  explorerLink,
+  loadNetworkProfile,
+  parseAnchorPrograms,
+  parseClusterName,
+  USDC_MINTS,
+} from "../sdk/networks";
+import { PROGRAM_ID } from "../sdk/pda";
+
+describe("Escrow Network Profiles", () => {
+  const localnetId = Keypair.generate().publicKey.toBase58();
+  const anchorToml = `
+[toolchain]
+anchor_version = "0.31.0"
+
+[programs.localnet]
+localsolana_contracts = "${localnetId}" # local deploy
+
+[programs.devnet]
+localsolana_contracts = "${PROGRAM_ID.toBase58()}"
+
+[provider]
+cluster = "devnet"
+`;
+
+  it("Reads program ids from the [programs.*] sections", () => {
+    assert.deepEqual(parseAnchorPrograms(anchorToml), {
+      localnet: { localsolana_contracts: localnetId },
+      devnet: { localsolana_contracts: PROGRAM_ID.toBase58() },
+    });
+  });
+
+  it("Builds a profile per cluster", () => {
+    const localnet = loadNetworkProfile("localnet", { anchorToml, env: {} });
+    assert.equal(localnet.rpcUrl, "http://127.0.0.1:8899");
+    assert.equal(localnet.programId.toBase58(), localnetId);
+    assert.isTrue(localnet.arbitrator.equals(ARBITRATOR));
+
+    const mainnet = loadNetworkProfile("mainnet", { anchorToml, env: {} });
+    assert.equal(mainnet.rpcUrl, "https://api.mainnet-beta.solana.com");
+    assert.isTrue(mainnet.usdcMint.equals(USDC_MINTS.mainnet));
+    // No [programs.mainnet] section: the program's declared id
+    assert.isTrue(mainnet.programId.equals(PROGRAM_ID));
+  });
+
+  it("Applies per-cluster environment overrides", () => {
+    const mint = Keypair.generate().publicKey;
+    const devnet = loadNetworkProfile("devnet", {
+      anchorToml,
+      env: {
+        RPC_URL_DEVNET: "https://rpc.example.com",
+        USDC_MINT_DEVNET: mint.toBase58(),
+        BLOCK_EXPLORER_DEVNET: "https://explorer.example.com/",
+        RPC_URL_MAINNET: "https://ignored.example.com",
+      },
+    });
+    assert.equal(devnet.rpcUrl, "https://rpc.example.com");
+    assert.isTrue(devnet.usdcMint.equals(mint));
+    assert.equal(
+      explorerLink(devnet, "tx", "abc"),
+      "https://explorer.example.com/tx/abc?cluster=devnet"
+    );
+  });
+
+  it("Links the explorer to the profile's cluster", () => {
+    const env = {};
+    assert.equal(
+      explorerLink(
+        loadNetworkProfile("mainnet", { env }),
+        "address",
+        PROGRAM_ID
+      ),
+      `https://explorer.solana.com/address/${PROGRAM_ID.toBase58()}`
+    );
+    assert.equal(
+      explorerLink(loadNetworkProfile("localnet", { env }), "tx", "abc"),
+      "https://explorer.solana.com/tx/abc?cluster=custom&customUrl=http%3A%2F%2F127.0.0.1%3A8899"
+    );
+  });
+
+  it("Rejects unknown clusters", () => {
+    assert.equal(parseClusterName("devnet"), "devnet");
+    assert.throws(
+      () => parseClusterName("testnet"),
+      /Unknown cluster: testnet/
+    );
+  });
+});
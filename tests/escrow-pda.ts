@@ -0,0 +1,96 @@
+import { BN } from "@coral-xyz/anchor";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { assert } from "chai";
+import {
+  deriveEscrowAddresses,
+  deriveEscrowPDA,
+  EscrowAddressKind,
+  EscrowIds,
+  findEscrowForAddress,
+  PROGRAM_ID,
+} from "../sdk/pda";
+
+describe("Escrow Program Addresses", () => {
+  const candidates: EscrowIds[] = [1, 2, 3].map((n) => ({
+    escrowId: new BN(n),
+    tradeId: new BN(1000 + n),
+  }));
+
+  it("Derives the escrow from little-endian ids", () => {
+    const ids = {
+      escrowId: new BN(258),
+      tradeId: new BN("18446744073709551615"),
+    };
+    const [expected, bump] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from("escrow"),
+        Buffer.from([2, 1, 0, 0, 0, 0, 0, 0]),
+        Buffer.alloc(8, 0xff),
+      ],
+      PROGRAM_ID
+    );
+    const { escrow, escrowToken, buyerBond, sellerBond } =
+      deriveEscrowAddresses(ids);
+
+    assert.isTrue(escrow.address.equals(expected));
+    assert.equal(escrow.bump, bump);
+    assert.deepEqual(deriveEscrowPDA(ids.escrowId, ids.tradeId), [
+      expected,
+      bump,
+    ]);
+    for (const [seed, derived] of [
+      ["escrow_token", escrowToken],
+      ["buyer_bond", buyerBond],
+      ["seller_bond", sellerBond],
+    ] as const) {
+      const [address] = PublicKey.findProgramAddressSync(
+        [Buffer.from(seed), expected.toBuffer()],
+        PROGRAM_ID
+      );
+      assert.isTrue(derived.address.equals(address), seed);
+    }
+  });
+
+  it("Finds the escrow behind each of its addresses", () => {
+    const ids = candidates[1];
+    const addresses = deriveEscrowAddresses(ids);
+    const kinds: EscrowAddressKind[] = [
+      "escrow",
+      "escrowToken",
+      "buyerBond",
+      "sellerBond",
+    ];
+
+    for (const kind of kinds) {
+      const match = findEscrowForAddress(addresses[kind].address, candidates);
+      assert.isNotNull(match, kind);
+      assert.equal(match!.kind, kind);
+      assert.strictEqual(match!.ids, ids);
+      assert.deepEqual(match!.addresses, addresses);
+    }
+  });
+
+  it("Returns null for addresses outside the candidates", () => {
+    assert.isNull(
+      findEscrowForAddress(Keypair.generate().publicKey, candidates)
+    );
+    const [other] = deriveEscrowPDA(new BN(4), new BN(1004));
+    assert.isNull(findEscrowForAddress(other, candidates));
+    assert.isNull(
+      findEscrowForAddress(
+        deriveEscrowAddresses(candidates[0]).escrow.address,
+        []
+      )
+    );
+  });
+
+  it("Derives against the given program id", () => {
+    const programId = Keypair.generate().publicKey;
+    const vault = deriveEscrowAddresses(candidates[0], programId).escrowToken;
+
+    assert.isNull(findEscrowForAddress(vault.address, candidates));
+    const match = findEscrowForAddress(vault.address, candidates, programId);
+    assert.equal(match?.kind, "escrowToken");
+    assert.strictEqual(match?.ids, candidates[0]);
+  });
+});
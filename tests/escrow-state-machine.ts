@@ -0,0 +1,249 @@
+import { BN } from "@coral-xyz/anchor";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { assert } from "chai";
+import { EscrowAccount } from "../sdk/client";
+import { ARBITRATOR } from "../sdk/constants";
+import { simulateCreateEscrow, simulateEscrow } from "../sdk/state-machine";
+
+// Offline: no validator needed. Expected errors mirror the integration tests.
+describe("Escrow State Machine Simulator", () => {
+  const seller = Keypair.generate().publicKey;
+  const buyer = Keypair.generate().publicKey;
+  const stranger = Keypair.generate().publicKey;
+  const created = 1_700_000_000;
+  const hash = Array(32).fill(1);
+
+  const makeEscrow = (
+    overrides: Partial<EscrowAccount> = {}
+  ): EscrowAccount => ({
+    escrowId: new BN(1),
+    tradeId: new BN(1),
+    seller,
+    buyer,
+    arbitrator: ARBITRATOR,
+    amount: new BN(1_000_000),
+    fee: new BN(10_000),
+    depositDeadline: new BN(created + 15 * 60),
+    fiatDeadline: new BN(created + 45 * 60),
+    state: { created: {} },
+    sequential: false,
+    sequentialEscrowAddress: null,
+    fiatPaid: false,
+    counter: new BN(0),
+    disputeInitiator: null,
+    disputeInitiatedTime: null,
+    disputeEvidenceHashBuyer: null,
+    disputeEvidenceHashSeller: null,
+    disputeResolutionHash: null,
+    trackedBalance: new BN(0),
+    ...overrides,
+  });
+
+  it("Validates create_escrow arguments", () => {
+    assert.deepEqual(simulateCreateEscrow(new BN(0)), {
+      ok: false,
+      error: "InvalidAmount",
+    });
+    assert.deepEqual(simulateCreateEscrow(100_000_001n), {
+      ok: false,
+      error: "ExceedsMaximum",
+    });
+    assert.deepEqual(simulateCreateEscrow(1n, null, true), {
+      ok: false,
+      error: "MissingSequentialAddress",
+    });
+    assert.deepEqual(simulateCreateEscrow(new BN(1_000_000)), {
+      ok: true,
+      nextState: "Created",
+    });
+  });
+
+  it("Allows funding only by the seller before the deposit deadline", () => {
+    const escrow = makeEscrow();
+    assert.deepEqual(
+      simulateEscrow(escrow, created, { signer: seller }).fundEscrow,
+      {
+        ok: true,
+        nextState: "Funded",
+      }
+    );
+    assert.deepEqual(
+      simulateEscrow(escrow, created, { signer: stranger }).fundEscrow,
+      { ok: false, error: "ConstraintRaw" }
+    );
+    assert.deepEqual(simulateEscrow(escrow, created + 16 * 60).fundEscrow, {
+      ok: false,
+      error: "DepositDeadlineExpired",
+    });
+    assert.deepEqual(
+      simulateEscrow(escrow, created, { signerTokenBalance: 1_009_999n })
+        .fundEscrow,
+      { ok: false, error: "InsufficientFunds" }
+    );
+    assert.deepEqual(
+      simulateEscrow(makeEscrow({ state: { funded: {} } }), created).fundEscrow,
+      { ok: false, error: "AccountAlreadyInUse" }
+    );
+  });
+
+  it("Blocks cancellation and auto-cancel after fiat is marked paid", () => {
+    const escrow = makeEscrow({ state: { funded: {} }, fiatPaid: true });
+    const result = simulateEscrow(escrow, created + 60 * 60);
+    assert.deepEqual(result.cancelEscrow, { ok: false, error: "InvalidState" });
+    assert.deepEqual(result.autoCancel, { ok: false, error: "InvalidState" });
+    assert.deepEqual(result.releaseEscrow, { ok: true, nextState: "Released" });
+    assert.deepEqual(result.openDisputeWithBond, {
+      ok: true,
+      nextState: "Disputed",
+    });
+  });
+
+  it("Allows auto-cancel only after the relevant deadline", () => {
+    const escrow = makeEscrow();
+    assert.isFalse(simulateEscrow(escrow, created).autoCancel.ok);
+    assert.deepEqual(simulateEscrow(escrow, created + 16 * 60).autoCancel, {
+      ok: true,
+      nextState: "Cancelled",
+    });
+    assert.deepEqual(
+      simulateEscrow(escrow, created + 16 * 60, { signer: seller }).autoCancel,
+      { ok: false, error: "ConstraintRaw" }
+    );
+
+    const funded = makeEscrow({ state: { funded: {} } });
+    assert.isFalse(simulateEscrow(funded, created + 30 * 60).autoCancel.ok);
+    assert.isTrue(simulateEscrow(funded, created + 46 * 60).autoCancel.ok);
+  });
+
+  it("Models the dispute response window", () => {
+    const opened = created + 20 * 60;
+    const escrow = makeEscrow({
+      state: { disputed: {} },
+      fiatPaid: true,
+      disputeInitiator: buyer,
+      disputeInitiatedTime: new BN(opened),
+      disputeEvidenceHashBuyer: hash,
+    });
+    const deadline = opened + 72 * 60 * 60;
+
+    const before = simulateEscrow(escrow, deadline, { signer: seller });
+    assert.deepEqual(before.respondToDisputeWithBond, {
+      ok: true,
+      nextState: "Disputed",
+    });
+    assert.deepEqual(
+      simulateEscrow(escrow, deadline, { signer: buyer })
+        .respondToDisputeWithBond,
+      { ok: false, error: "Unauthorized" }
+    );
+    assert.deepEqual(before.defaultJudgment, {
+      ok: false,
+      error: "ConstraintRaw",
+    });
+
+    const after = simulateEscrow(escrow, deadline + 1);
+    assert.deepEqual(after.respondToDisputeWithBond, {
+      ok: false,
+      error: "ResponseDeadlineExpired",
+    });
+    assert.deepEqual(after.defaultJudgment, {
+      ok: true,
+      nextState: "Resolved",
+    });
+    assert.deepEqual(after.resolveDisputeWithExplanation, {
+      ok: false,
+      error: "InvalidEvidenceHash",
+    });
+  });
+
+  it("Requires both bonds for resolution", () => {
+    const escrow = makeEscrow({
+      state: { disputed: {} },
+      fiatPaid: true,
+      disputeInitiator: buyer,
+      disputeInitiatedTime: new BN(created),
+      disputeEvidenceHashBuyer: hash,
+      disputeEvidenceHashSeller: hash,
+    });
+    const signer = ARBITRATOR;
+    assert.deepEqual(
+      simulateEscrow(escrow, created, {
+        signer,
+        bondBalances: { buyer: 50_000n, seller: 0n },
+      }).resolveDisputeWithExplanation,
+      { ok: false, error: "MissingDisputeBond" }
+    );
+    const result = simulateEscrow(escrow, created, {
+      signer,
+      bondBalances: { buyer: new BN(50_000), seller: new BN(50_000) },
+    });
+    assert.deepEqual(result.resolveDisputeWithExplanation, {
+      ok: true,
+      nextState: "Resolved",
+    });
+    assert.deepEqual(result.defaultJudgment, {
+      ok: false,
+      error: "InvalidState",
+    });
+  });
+
+  it("Reports existing bond accounts", () => {
+    const result = simulateEscrow(
+      makeEscrow({ state: { funded: {} } }),
+      created,
+      {
+        bondAccounts: { buyer: true, seller: false },
+      }
+    );
+    assert.deepEqual(result.initializeBuyerBondAccount, {
+      ok: false,
+      error: "AccountAlreadyInUse",
+    });
+    assert.isTrue(result.initializeSellerBondAccount.ok);
+    assert.deepEqual(result.openDisputeWithBond, {
+      ok: false,
+      error: "AccountNotInitialized",
+    });
+  });
+
+  // Anchor checks accounts in declaration order, and the escrow (with its
+  // signer constraint) comes before the vault and bond accounts
+  const constraintFirst: [
+    keyof ReturnType<typeof simulateEscrow>,
+    EscrowAccount["state"]
+  ][] = [
+    ["releaseEscrow", { created: {} }],
+    ["openDisputeWithBond", { funded: {} }],
+    ["defaultJudgment", { created: {} }],
+    ["resolveDisputeWithExplanation", { created: {} }],
+  ];
+  for (const [instruction, state] of constraintFirst) {
+    it(`Reports ConstraintRaw before missing accounts for ${instruction}`, () => {
+      const result = simulateEscrow(
+        makeEscrow({ state, fiatPaid: true }),
+        created,
+        { signer: stranger, bondAccounts: { buyer: false, seller: false } }
+      );
+      assert.deepEqual(result[instruction], {
+        ok: false,
+        error: "ConstraintRaw",
+      });
+    });
+  }
+
+  it("Only lets the buyer update a sequential address", () => {
+    const escrow = makeEscrow({
+      sequential: true,
+      sequentialEscrowAddress: PublicKey.default,
+    });
+    assert.isTrue(
+      simulateEscrow(escrow, created, { signer: buyer }).updateSequentialAddress
+        .ok
+    );
+    assert.deepEqual(
+      simulateEscrow(makeEscrow(), created, { signer: buyer })
+        .updateSequentialAddress,
+      { ok: false, error: "InvalidState" }
+    );
+  });
+});
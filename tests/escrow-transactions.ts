@@ -0,0 +1,149 @@
+import {
+  BlockhashWithExpiryBlockHeight,
+  Connection,
+  Keypair,
+  SendTransactionError,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { assert } from "chai";
+import { InvalidStateError } from "../sdk/errors";
+import { serializeTransaction, submitSigned } from "../sdk/transactions";
+
+describe("Escrow Transaction Submission", () => {
+  const payer = Keypair.generate();
+  const built: BlockhashWithExpiryBlockHeight = {
+    blockhash: Keypair.generate().publicKey.toBase58(),
+    lastValidBlockHeight: 1_000,
+  };
+
+  function sign(blockhash: string): VersionedTransaction {
+    const transaction = new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: payer.publicKey,
+        recentBlockhash: blockhash,
+        instructions: [
+          SystemProgram.transfer({
+            fromPubkey: payer.publicKey,
+            toPubkey: Keypair.generate().publicKey,
+            lamports: 1,
+          }),
+        ],
+      }).compileToV0Message()
+    );
+    transaction.sign([payer]);
+    return transaction;
+  }
+
+  /**
+   * A connection that records what was sent and confirmed. The chain has
+   * moved on since the transaction was built, so the latest blockhash has a
+   * later expiry than the one the transaction carries.
+   */
+  function fakeConnection(err: unknown = null, sendError?: Error) {
+    const sent: Buffer[] = [];
+    const confirmed: unknown[] = [];
+    const connection = {
+      sendRawTransaction: async (raw: Buffer) => {
+        if (sendError) throw sendError;
+        sent.push(raw);
+        return "sig";
+      },
+      getLatestBlockhash: async () => ({
+        blockhash: Keypair.generate().publicKey.toBase58(),
+        lastValidBlockHeight: 2_000,
+      }),
+      confirmTransaction: async (strategy: unknown) => {
+        confirmed.push(strategy);
+        return { context: { slot: 1 }, value: { err } };
+      },
+    } as unknown as Connection;
+    return { connection, sent, confirmed };
+  }
+
+  it("Confirms against the blockhash the transaction was built with", async () => {
+    const signed = sign(built.blockhash);
+    for (const input of [signed, serializeTransaction(signed)]) {
+      const { connection, sent, confirmed } = fakeConnection();
+      assert.equal(await submitSigned(connection, input, built), "sig");
+      assert.deepEqual(sent, [Buffer.from(signed.serialize())]);
+      assert.deepEqual(confirmed, [
+        {
+          signature: "sig",
+          blockhash: built.blockhash,
+          lastValidBlockHeight: 1_000,
+        },
+      ]);
+    }
+  });
+
+  it("Rejects a transaction signed with another blockhash", async () => {
+    const { connection, sent } = fakeConnection();
+    const other = Keypair.generate().publicKey.toBase58();
+    try {
+      await submitSigned(connection, sign(other), built);
+      assert.fail("Expected the blockhash mismatch to be rejected");
+    } catch (error) {
+      assert.equal(
+        (error as Error).message,
+        `Transaction was signed with blockhash ${other}, not ${built.blockhash}`
+      );
+    }
+    assert.isEmpty(sent);
+  });
+
+  it("Throws the program error of a failed confirmation", async () => {
+    const { connection } = fakeConnection({
+      InstructionError: [0, { Custom: 6005 }],
+    });
+    try {
+      await submitSigned(connection, sign(built.blockhash), built);
+      assert.fail("Expected an InvalidStateError");
+    } catch (error) {
+      assert.instanceOf(error, InvalidStateError);
+    }
+
+    const { connection: failing } = fakeConnection({
+      InstructionError: [0, "InvalidAccountData"],
+    });
+    try {
+      await submitSigned(failing, sign(built.blockhash), built);
+      assert.fail("Expected the transaction to fail");
+    } catch (error) {
+      assert.equal(
+        (error as Error).message,
+        'Transaction sig failed: {"InstructionError":[0,"InvalidAccountData"]}'
+      );
+    }
+  });
+
+  it("Throws the program error of a failed preflight", async () => {
+    const preflight = new SendTransactionError({
+      action: "send",
+      signature: "",
+      transactionMessage: "Transaction simulation failed",
+      logs: [
+        "Program log: AnchorError occurred. Error Code: InvalidState. Error Number: 6005. Error Message: Invalid state transition.",
+      ],
+    });
+    const { connection, confirmed } = fakeConnection(null, preflight);
+    try {
+      await submitSigned(connection, sign(built.blockhash), built);
+      assert.fail("Expected an InvalidStateError");
+    } catch (error) {
+      assert.instanceOf(error, InvalidStateError);
+      assert.strictEqual((error as InvalidStateError).cause, preflight);
+    }
+    assert.isEmpty(confirmed);
+
+    const network = new Error("fetch failed");
+    const { connection: offline } = fakeConnection(null, network);
+    try {
+      await submitSigned(offline, sign(built.blockhash), built);
+      assert.fail("Expected the send to fail");
+    } catch (error) {
+      assert.strictEqual(error, network);
+    }
+  });
+});
@@ -0,0 +1,120 @@
+import { ConfirmedSignatureInfo, Connection, Keypair } from "@solana/web3.js";
+import { assert } from "chai";
+import {
+  backfillTransactions,
+  fetchProgramSignatures,
+} from "../scripts/listener/backfill";
+
+// In-memory stand-in for the two RPC methods backfill uses
+function fakeConnection(history: ConfirmedSignatureInfo[]) {
+  const calls: any[] = [];
+  // getSignaturesForAddress returns newest first
+  const newestFirst = [...history].sort((a, b) => b.slot - a.slot);
+  const connection = {
+    async getSignaturesForAddress(_address: any, options: any) {
+      calls.push(options);
+      let start = 0;
+      if (options.before) {
+        start =
+          newestFirst.findIndex((s) => s.signature === options.before) + 1;
+      }
+      const page: ConfirmedSignatureInfo[] = [];
+      for (const info of newestFirst.slice(start)) {
+        if (info.signature === options.until || page.length >= options.limit) {
+          break;
+        }
+        page.push(info);
+      }
+      return page;
+    },
+    async getTransaction(signature: string) {
+      const info = history.find((s) => s.signature === signature)!;
+      return {
+        slot: info.slot,
+        blockTime: info.blockTime,
+        meta: { logMessages: [`Program log: ${signature}`] },
+      };
+    },
+  } as unknown as Connection;
+  return { connection, calls };
+}
+
+describe("Event Listener Backfill", () => {
+  const programId = Keypair.generate().publicKey;
+  const history: ConfirmedSignatureInfo[] = Array.from(
+    { length: 25 },
+    (_, i) => ({
+      signature: `sig${i}`,
+      slot: 100 + i * 10,
+      blockTime: 1_700_000_000 + i * 60,
+      err: i === 7 ? { InstructionError: [0, { Custom: 6005 }] } : null,
+      memo: null,
+    })
+  );
+
+  it("Pages with before until history is exhausted, oldest first", async () => {
+    const { connection, calls } = fakeConnection(history);
+    const signatures = await fetchProgramSignatures(
+      connection,
+      programId,
+      {},
+      {
+        pageSize: 10,
+      }
+    );
+    assert.equal(calls.length, 3);
+    assert.equal(calls[1].before, "sig15");
+    assert.equal(signatures.length, 24, "failed transaction skipped");
+    assert.equal(signatures[0].signature, "sig0");
+    assert.equal(signatures[23].signature, "sig24");
+  });
+
+  it("Bounds the range by slot and time", async () => {
+    const { connection } = fakeConnection(history);
+    const bySlot = await fetchProgramSignatures(connection, programId, {
+      startSlot: 150,
+      endSlot: 200,
+    });
+    assert.deepEqual(
+      bySlot.map((s) => s.slot),
+      [150, 160, 180, 190, 200]
+    );
+
+    const byTime = await fetchProgramSignatures(connection, programId, {
+      startTime: 1_700_000_000 + 20 * 60,
+    });
+    assert.deepEqual(
+      byTime.map((s) => s.signature),
+      ["sig20", "sig21", "sig22", "sig23", "sig24"]
+    );
+  });
+
+  it("Stops early once past the start of the range", async () => {
+    const { connection, calls } = fakeConnection(history);
+    await fetchProgramSignatures(
+      connection,
+      programId,
+      { startSlot: 300 },
+      { pageSize: 5 }
+    );
+    assert.equal(calls.length, 2);
+  });
+
+  it("Resumes after a signature and yields transaction logs", async () => {
+    const { connection, calls } = fakeConnection(history);
+    const seen = [];
+    for await (const tx of backfillTransactions(connection, programId, {
+      afterSignature: "sig22",
+    })) {
+      seen.push(tx);
+    }
+    assert.equal(calls[0].until, "sig22");
+    assert.deepEqual(
+      seen.map((tx) => [tx.signature, tx.slot, tx.logs[0]]),
+      [
+        ["sig23", 330, "Program log: sig23"],
+        ["sig24", 340, "Program log: sig24"],
+      ]
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { assert } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  CheckpointTracker,
+  DedupCache,
+  FileCheckpointStore,
+} from "../scripts/listener/checkpoint";
+
+describe("Event Listener Checkpoints", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "checkpoint-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Persists the newest checkpoint across restarts", async () => {
+    const file = path.join(dir, "nested", "checkpoint.json");
+    const tracker = new CheckpointTracker(new FileCheckpointStore(file));
+    assert.isNull(await tracker.load());
+
+    await tracker.advance(100, "sigA");
+    await tracker.advance(120, "sigB");
+    // Late delivery of an older transaction must not move it back
+    await tracker.advance(110, "sigOld");
+
+    const restarted = new CheckpointTracker(new FileCheckpointStore(file));
+    const checkpoint = await restarted.load();
+    assert.equal(checkpoint!.slot, 120);
+    assert.equal(checkpoint!.signature, "sigB");
+    assert.isFalse(fs.existsSync(`${file}.tmp`));
+  });
+
+  it("Leaves a newer checkpoint alone when backfilling an older range", async () => {
+    const file = path.join(dir, "checkpoint.json");
+    await new FileCheckpointStore(file).save({
+      slot: 500,
+      signature: "sigNew",
+      updatedAt: "t1",
+    });
+
+    // Nothing calls load() first, as with a caller that does not resume
+    const tracker = new CheckpointTracker(new FileCheckpointStore(file));
+    await tracker.advance(100, "sigOld");
+    await tracker.advance(200, "sigOlder");
+    assert.equal(tracker.checkpoint!.signature, "sigNew");
+
+    const saved = await new FileCheckpointStore(file).load();
+    assert.deepEqual(saved, {
+      slot: 500,
+      signature: "sigNew",
+      updatedAt: "t1",
+    });
+
+    await tracker.advance(600, "sigNext");
+    assert.equal((await new FileCheckpointStore(file).load())!.slot, 600);
+  });
+
+  it("Keeps concurrent saves in order", async () => {
+    const file = path.join(dir, "checkpoint.json");
+    const store = new FileCheckpointStore(file);
+    await Promise.all(
+      [1, 2, 3, 4, 5].map((slot) =>
+        store.save({ slot, signature: `sig${slot}`, updatedAt: "" })
+      )
+    );
+    assert.equal((await store.load())!.signature, "sig5");
+  });
+
+  it("Saves again after a failed write", async () => {
+    // The checkpoint's directory is a file at first, so the write fails
+    const blocked = path.join(dir, "blocked");
+    fs.writeFileSync(blocked, "");
+    const store = new FileCheckpointStore(
+      path.join(blocked, "checkpoint.json")
+    );
+
+    let failed = false;
+    await store
+      .save({ slot: 1, signature: "sig1", updatedAt: "" })
+      .catch(() => {
+        failed = true;
+      });
+    assert.isTrue(failed);
+
+    fs.rmSync(blocked);
+    await store.save({ slot: 2, signature: "sig2", updatedAt: "" });
+    assert.equal((await store.load())!.signature, "sig2");
+  });
+
+  it("Bounds the dedup cache, evicting the oldest keys", () => {
+    const cache = new DedupCache(3);
+    ["a", "b", "c", "a", "d"].forEach((key) => cache.add(key));
+    assert.equal(cache.size, 3);
+    assert.isFalse(cache.has("a"));
+    assert.isTrue(cache.has("b"));
+    assert.isTrue(cache.has("d"));
+  });
+});
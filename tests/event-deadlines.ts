@@ -0,0 +1,333 @@
+import { BN } from "@coral-xyz/anchor";
+import { Keypair } from "@solana/web3.js";
+import { assert } from "chai";
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { ARBITRATOR } from "../sdk/constants";
+import { escrowDeadlines } from "../sdk/deadlines";
+import {
+  databaseSource,
+  DeadlineWarning,
+  DeadlineWatcher,
+  describeWarning,
+  FileChannel,
+  parseDuration,
+  parseLeadTimes,
+  WatchedEscrow,
+  WebhookChannel,
+} from "../scripts/listener/deadline-watcher";
+import {
+  decodeProgramEvents,
+  EscrowEventName,
+  EventCommitment,
+} from "../scripts/listener/events";
+import { SqliteEventStore } from "../scripts/listener/sqlite-store";
+import { verifyWebhookSignature } from "../scripts/listener/webhooks";
+import {
+  buyer,
+  CREATED_AT,
+  evidenceHash,
+  makeEscrow,
+  seller,
+} from "./helpers/escrows";
+import { coder, eventBase, PROGRAM_ID, programLogs } from "./helpers/events";
+
+const HOUR = 3600;
+
+describe("Event Deadline Watcher", () => {
+  const disputed = makeEscrow({
+    tradeId: new BN(123),
+    state: { disputed: {} },
+    fiatPaid: true,
+    disputeInitiator: buyer,
+    disputeInitiatedTime: new BN(CREATED_AT),
+    disputeEvidenceHashBuyer: evidenceHash,
+  });
+
+  it("Computes the running deadline for each state", () => {
+    assert.deepEqual(
+      escrowDeadlines(makeEscrow()).map((d) => [d.kind, d.role, d.expiresAt]),
+      [["deposit", "seller", CREATED_AT + 15 * 60]]
+    );
+    const funded = makeEscrow({
+      state: { funded: {} },
+      fiatDeadline: new BN(CREATED_AT + 30 * 60),
+    });
+    assert.deepEqual(
+      escrowDeadlines(funded).map((d) => [d.kind, d.role]),
+      [["fiat", "buyer"]]
+    );
+    assert.isEmpty(escrowDeadlines({ ...funded, fiatPaid: true }));
+
+    const [response] = escrowDeadlines(disputed);
+    assert.equal(response.kind, "disputeResponse");
+    assert.isTrue(response.party.equals(seller));
+    assert.equal(response.expiresAt, CREATED_AT + 72 * HOUR);
+
+    const answered = {
+      ...disputed,
+      disputeEvidenceHashSeller: evidenceHash,
+    };
+    // The account alone does not say when the response came in
+    assert.isEmpty(escrowDeadlines(answered));
+    const [arbitration] = escrowDeadlines({
+      ...answered,
+      disputeResponseTime: new BN(CREATED_AT + HOUR),
+    });
+    assert.equal(arbitration.kind, "arbitration");
+    assert.isTrue(arbitration.party.equals(ARBITRATOR));
+    assert.equal(arbitration.expiresAt, CREATED_AT + 169 * HOUR);
+
+    assert.isEmpty(escrowDeadlines(makeEscrow({ state: { released: {} } })));
+  });
+
+  it("Describes warnings for the party that has to act", () => {
+    assert.equal(
+      describeWarning({
+        kind: "fiat",
+        role: "buyer",
+        tradeId: "123",
+        remaining: 300,
+      }),
+      "fiat deadline for trade 123 in 5 minutes (buyer has to mark fiat paid)"
+    );
+    assert.equal(
+      describeWarning({
+        kind: "disputeResponse",
+        role: "seller",
+        tradeId: "123",
+        remaining: 2 * HOUR,
+      }),
+      "seller has 2 hours left to respond to dispute on trade 123"
+    );
+    assert.equal(
+      describeWarning({
+        kind: "deposit",
+        role: "seller",
+        tradeId: "7",
+        remaining: -60,
+      }),
+      "deposit deadline for trade 7 expired 1 minute ago"
+    );
+  });
+
+  it("Warns once per lead time", async () => {
+    let now = CREATED_AT;
+    const warnings: DeadlineWarning[] = [];
+    let escrows: WatchedEscrow[] = [disputed];
+    const watcher = new DeadlineWatcher(
+      () => escrows,
+      [{ notify: (w) => void warnings.push(w) }],
+      {
+        leadTimes: { disputeResponse: [24 * HOUR, 2 * HOUR, 0] },
+        now: () => now,
+      }
+    );
+
+    assert.isEmpty(await watcher.check());
+    now = CREATED_AT + 50 * HOUR;
+    assert.lengthOf(await watcher.check(), 1);
+    assert.isEmpty(await watcher.check());
+    now = CREATED_AT + 70 * HOUR;
+    await watcher.check();
+    now = CREATED_AT + 73 * HOUR;
+    await watcher.check();
+
+    assert.deepEqual(
+      warnings.map((w) => [w.leadTime, w.remaining]),
+      [
+        [24 * HOUR, 22 * HOUR],
+        [2 * HOUR, 2 * HOUR],
+        [0, -HOUR],
+      ]
+    );
+    assert.equal(
+      warnings[1].message,
+      "seller has 2 hours left to respond to dispute on trade 123"
+    );
+    assert.equal(warnings[0].party, seller.toBase58());
+
+    // Settled escrows stop being watched
+    escrows = [];
+    now = CREATED_AT + 74 * HOUR;
+    assert.isEmpty(await watcher.check());
+  });
+
+  it("Sends only the most urgent warning when starting late", async () => {
+    const watcher = new DeadlineWatcher(() => [disputed], [], {
+      now: () => CREATED_AT + 71 * HOUR,
+    });
+    const [warning] = await watcher.check();
+    assert.equal(warning.leadTime, 2 * HOUR);
+    assert.isEmpty(await watcher.check());
+  });
+
+  it("Appends warnings to a file and posts signed webhooks", async () => {
+    const received: { body: string; signature: string }[] = [];
+    const server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({
+          body,
+          signature: req.headers["x-escrow-signature"] as string,
+        });
+        res.writeHead(204).end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "deadlines-"));
+    const file = new FileChannel(path.join(dir, "warnings.jsonl"));
+
+    try {
+      const watcher = new DeadlineWatcher(
+        () => [disputed],
+        [
+          file,
+          new WebhookChannel(`http://127.0.0.1:${port}/deadlines`, {
+            secret: "s3cret",
+          }),
+        ],
+        { now: () => CREATED_AT + 71 * HOUR }
+      );
+      const [warning] = await watcher.check();
+      await watcher.stop();
+
+      const lines = fs
+        .readFileSync(file.filePath, "utf8")
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+      assert.deepEqual(lines, [warning]);
+      assert.lengthOf(received, 1);
+      assert.deepEqual(JSON.parse(received[0].body), warning);
+      assert.isTrue(
+        verifyWebhookSignature(
+          received[0].body,
+          received[0].signature,
+          "s3cret"
+        )
+      );
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("Keeps writing warnings after a failed append", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "deadlines-"));
+    try {
+      const watcher = new DeadlineWatcher(() => [disputed], [], {
+        now: () => CREATED_AT + 71 * HOUR,
+      });
+      const [warning] = await watcher.check();
+      // The channel's directory is a file at first, so the append fails
+      const blocked = path.join(dir, "blocked");
+      fs.writeFileSync(blocked, "");
+      const file = new FileChannel(path.join(blocked, "warnings.jsonl"));
+
+      let failed = false;
+      await file.notify(warning).catch(() => (failed = true));
+      assert.isTrue(failed);
+
+      fs.rmSync(blocked);
+      await file.notify({ ...warning, id: "next" });
+      await file.close();
+      const ids = fs
+        .readFileSync(file.filePath, "utf8")
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line).id);
+      assert.deepEqual(ids, ["next"]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("Reads open escrows from the database incrementally", () => {
+    const store = new SqliteEventStore(":memory:");
+    const escrow = Keypair.generate().publicKey;
+    const base = (timestamp: number) => eventBase(5, 77, timestamp, escrow);
+    const write = (
+      events: [EscrowEventName, Record<string, any>][],
+      signature: string,
+      slot: number,
+      commitment: EventCommitment = "finalized"
+    ) =>
+      decodeProgramEvents(
+        coder,
+        PROGRAM_ID,
+        programLogs(events)
+      ).events.forEach((event) =>
+        store.handle({ ...event, signature, slot, blockTime: null, commitment })
+      );
+    const created: [EscrowEventName, Record<string, any>] = [
+      "EscrowCreated",
+      {
+        ...base(CREATED_AT),
+        seller,
+        buyer,
+        arbitrator: ARBITRATOR,
+        amount: new BN(1_000_000),
+        fee: new BN(10_000),
+        deposit_deadline: new BN(CREATED_AT + 900),
+        fiat_deadline: new BN(0),
+        sequential: false,
+        sequential_escrow_address: null,
+      },
+    ];
+    const funded: [EscrowEventName, Record<string, any>] = [
+      "FundsDeposited",
+      {
+        ...base(CREATED_AT + 60),
+        amount: new BN(1_000_000),
+        fee: new BN(10_000),
+        counter: new BN(1),
+      },
+    ];
+    const state = (escrows: WatchedEscrow[]) =>
+      escrows.map((e) => Object.keys(e.state)[0]);
+
+    const source = databaseSource(store, coder);
+    assert.isEmpty(source());
+    write([created], "sig1", 10);
+    assert.deepEqual(state(source()), ["created"]);
+    write([funded], "sig2", 11, "confirmed");
+    assert.deepEqual(state(source()), ["funded"]);
+
+    // Retracted after it was read
+    store.commitmentChanged({
+      signature: "sig2",
+      slot: 11,
+      status: "retracted",
+    });
+    assert.deepEqual(state(source()), ["created"]);
+
+    // Only new rows are decoded
+    const replayAfter = store.replayAfter.bind(store);
+    const read: number[] = [];
+    store.replayAfter = function* (c, afterRowId) {
+      read.push(afterRowId);
+      yield* replayAfter(c, afterRowId);
+    };
+    write([funded], "sig3", 12);
+    assert.deepEqual(state(source()), ["funded"]);
+    assert.deepEqual(read, [2]);
+    store.close();
+  });
+
+  it("Parses lead times", () => {
+    assert.equal(parseDuration("90"), 90);
+    assert.equal(parseDuration("5m"), 300);
+    assert.equal(parseDuration("1.5h"), 5400);
+    assert.deepEqual(parseLeadTimes("fiat=10m,5m,0"), ["fiat", [600, 300, 0]]);
+    assert.throws(() => parseLeadTimes("refund=5m"), /Invalid lead time/);
+    assert.throws(() => parseDuration("soon"), /Invalid duration/);
+  });
+});
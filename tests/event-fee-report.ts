@@ -0,0 +1,247 @@
+import { BN } from "@coral-xyz/anchor";
+import { Keypair } from "@solana/web3.js";
+import { assert } from "chai";
+import {
+  decodeProgramEvents,
+  EscrowEventName,
+  EventCommitment,
+  ListenerEvent,
+} from "../scripts/listener/events";
+import {
+  buildFeeReport,
+  feeLedger,
+  feeLedgerCsv,
+  feeReportCsv,
+} from "../scripts/listener/fee-report";
+import { coder, eventBase, PROGRAM_ID, programLogs } from "./helpers/events";
+
+describe("Fee Revenue Report", () => {
+  const seller = Keypair.generate().publicKey;
+  const buyer = Keypair.generate().publicKey;
+  const arbitrator = Keypair.generate().publicKey;
+  const utc = (date: string) => Date.parse(`${date}Z`) / 1000;
+  let events: ListenerEvent[];
+  let slot: number;
+
+  const write = (
+    emitted: [EscrowEventName, Record<string, any>][],
+    commitment: EventCommitment = "finalized"
+  ) => {
+    const signature = `sig${slot}`;
+    const decoded = decodeProgramEvents(
+      coder,
+      PROGRAM_ID,
+      programLogs(emitted)
+    );
+    for (const event of decoded.events) {
+      events.push({ ...event, signature, slot, blockTime: null, commitment });
+    }
+    slot++;
+  };
+
+  /**
+   * Escrow `escrowId` created (and funded) just before `settledAt`, then
+   * settled by `settlement`
+   */
+  const settle = (
+    escrowId: number,
+    settledAt: string,
+    settlement: (
+      base: ReturnType<typeof eventBase>
+    ) => [EscrowEventName, Record<string, any>][],
+    options: { funded?: boolean; commitment?: EventCommitment } = {}
+  ) => {
+    const escrow = Keypair.generate().publicKey;
+    const at = utc(settledAt);
+    const base = (offset = 0) => eventBase(escrowId, 7, at + offset, escrow);
+    write([
+      [
+        "EscrowCreated",
+        {
+          ...base(-600),
+          seller,
+          buyer,
+          arbitrator,
+          amount: new BN(1_000_000),
+          fee: new BN(10_000),
+          deposit_deadline: new BN(at + 300),
+          fiat_deadline: new BN(0),
+          sequential: false,
+          sequential_escrow_address: null,
+        },
+      ],
+    ]);
+    if (options.funded ?? true) {
+      write([
+        [
+          "FundsDeposited",
+          {
+            ...base(-300),
+            amount: new BN(1_000_000),
+            fee: new BN(10_000),
+            counter: new BN(1),
+          },
+        ],
+      ]);
+    }
+    write(settlement(base()), options.commitment);
+  };
+
+  const released = (base: ReturnType<typeof eventBase>) =>
+    [
+      [
+        "EscrowReleased",
+        {
+          ...base,
+          buyer,
+          amount: new BN(1_000_000),
+          fee: new BN(10_000),
+          counter: new BN(2),
+          destination: buyer,
+        },
+      ],
+    ] as [EscrowEventName, Record<string, any>][];
+  const resolved =
+    (buyerWins: boolean) => (base: ReturnType<typeof eventBase>) =>
+      [
+        [
+          "DisputeResolved",
+          {
+            ...base,
+            decision: buyerWins,
+            fee: new BN(10_000),
+            counter: new BN(2),
+            resolution_hash: Array(32).fill(1),
+            winner: buyerWins ? buyer : seller,
+            explanation_reference: "",
+          },
+        ],
+      ] as [EscrowEventName, Record<string, any>][];
+  const cancelled = (base: ReturnType<typeof eventBase>) =>
+    [
+      [
+        "EscrowCancelled",
+        {
+          ...base,
+          seller,
+          amount: new BN(1_000_000),
+          fee: new BN(10_000),
+          counter: new BN(2),
+        },
+      ],
+    ] as [EscrowEventName, Record<string, any>][];
+
+  beforeEach(() => {
+    slot = 500;
+    events = [];
+    settle(1, "2025-01-31T12:00:00", released);
+    settle(2, "2025-02-01T09:00:00", resolved(true));
+    settle(3, "2025-02-01T18:00:00", resolved(false));
+    settle(4, "2025-02-02T08:00:00", (base) => [
+      [
+        "DisputeDefaultJudgment",
+        { ...base, defaulting_party: buyer, decision: false },
+      ],
+    ]);
+    settle(5, "2025-02-02T09:00:00", cancelled, { funded: false });
+    settle(6, "2025-02-02T10:00:00", cancelled);
+    settle(7, "2025-02-02T11:00:00", released, { commitment: "confirmed" });
+  });
+
+  it("Books each settlement where its fee and principal went", () => {
+    const ledger = feeLedger(events);
+    const amounts = ledger.map((entry) => [
+      entry.escrowId,
+      entry.event,
+      entry.feeRevenue,
+      entry.bondRevenue,
+      entry.principalVolume,
+      entry.refundedFees,
+    ]);
+    assert.deepEqual(amounts, [
+      ["1", "EscrowReleased", "10000", "0", "1000000", "0"],
+      ["2", "DisputeResolved", "10000", "50000", "1000000", "0"],
+      ["3", "DisputeResolved", "0", "50000", "0", "10000"],
+      ["4", "DisputeDefaultJudgment", "0", "0", "0", "10000"],
+      ["5", "EscrowCancelled", "0", "0", "0", "0"],
+      ["6", "EscrowCancelled", "0", "0", "0", "10000"],
+    ]);
+    assert.include(ledger[0], {
+      signature: "sig502",
+      timestamp: "2025-01-31T12:00:00.000Z",
+      tradeId: "7",
+      arbitrator: arbitrator.toBase58(),
+    });
+
+    // Not finalized yet: counted only on request
+    assert.lengthOf(feeLedger(events, true), 7);
+  });
+
+  it("Sums revenue per day and per month with audit signatures", () => {
+    const daily = buildFeeReport(events);
+    assert.deepEqual(
+      daily.periods.map((p) => [
+        p.period,
+        p.settlements,
+        p.feeRevenue,
+        p.refundedFees,
+      ]),
+      [
+        ["2025-01-31", 1, "10000", "0"],
+        ["2025-02-01", 2, "10000", "10000"],
+        ["2025-02-02", 3, "0", "20000"],
+      ]
+    );
+    assert.deepEqual(daily.periods[1].signatures, ["sig505", "sig508"]);
+    assert.deepEqual(daily.totals, {
+      settlements: 6,
+      feeRevenue: "20000",
+      bondRevenue: "100000",
+      principalVolume: "2000000",
+      refundedFees: "30000",
+    });
+
+    const monthly = buildFeeReport(events, {
+      period: "month",
+      includeConfirmed: true,
+    });
+    assert.deepEqual(
+      monthly.periods.map((p) => [p.period, p.settlements, p.feeRevenue]),
+      [
+        ["2025-01", 1, "10000"],
+        ["2025-02", 6, "20000"],
+      ]
+    );
+
+    const window = buildFeeReport(events, {
+      from: "2025-02-01",
+      to: "2025-02-01",
+    });
+    assert.deepEqual(
+      window.entries.map((entry) => entry.escrowId),
+      ["2", "3"]
+    );
+    assert.equal(window.totals.bondRevenue, "100000");
+  });
+
+  it("Exports the summary and the ledger as CSV", () => {
+    const report = buildFeeReport(events, { period: "month" });
+    assert.equal(
+      feeReportCsv(report),
+      [
+        "month,settlements,fee_revenue,bond_revenue,principal_volume,refunded_fees,signatures",
+        "2025-01,1,10000,0,1000000,0,sig502",
+        "2025-02,5,10000,100000,1000000,30000,sig505 sig508 sig511 sig513 sig516",
+        "",
+      ].join("\n")
+    );
+
+    const [header, first] = feeLedgerCsv(report.entries).split("\n");
+    assert.equal(
+      header,
+      "timestamp,signature,slot,event,escrow,escrow_id,trade_id,arbitrator,fee_revenue,bond_revenue,principal_volume,refunded_fees"
+    );
+    assert.match(first, /^2025-01-31T12:00:00.000Z,sig502,502,EscrowReleased,/);
+    assert.match(first, /,10000,0,1000000,0$/);
+  });
+});
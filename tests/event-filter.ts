@@ -0,0 +1,80 @@
+import { BN } from "@coral-xyz/anchor";
+import { Keypair } from "@solana/web3.js";
+import { assert } from "chai";
+import { EscrowEventName } from "../scripts/listener/events";
+import { EventFilter } from "../scripts/listener/filter";
+import { eventBase } from "./helpers/events";
+
+describe("Event Listener Filters", () => {
+  const seller = Keypair.generate().publicKey;
+  const buyer = Keypair.generate().publicKey;
+  const escrowA = Keypair.generate().publicKey;
+  const escrowB = Keypair.generate().publicKey;
+
+  const event = (
+    name: EscrowEventName,
+    escrowId: number,
+    tradeId: number,
+    objectId = escrowA,
+    fields: Record<string, any> = {}
+  ) => ({
+    name,
+    data: {
+      ...eventBase(escrowId, tradeId, 1_700_000_000, objectId),
+      ...fields,
+    },
+  });
+
+  const created = event("EscrowCreated", 1, 42, escrowA, { seller, buyer });
+  const deposited = event("FundsDeposited", 1, 42, escrowA, {
+    amount: new BN(1_000_000),
+  });
+  const otherTrade = event("FundsDeposited", 2, 43, escrowB);
+  const opened = event("DisputeOpened", 1, 42, escrowA, {
+    disputing_party: buyer,
+  });
+
+  it("Passes everything without criteria", () => {
+    const filter = new EventFilter();
+    assert.isTrue(filter.isEmpty);
+    assert.isTrue(filter.matches(otherTrade));
+  });
+
+  it("Matches ids and PDAs in any representation", () => {
+    assert.isTrue(new EventFilter({ escrowIds: ["1"] }).matches(deposited));
+    assert.isTrue(new EventFilter({ tradeIds: [42n] }).matches(deposited));
+    assert.isFalse(new EventFilter({ tradeIds: [42] }).matches(otherTrade));
+    assert.isTrue(
+      new EventFilter({ objectIds: [escrowB.toBase58()] }).matches(otherTrade)
+    );
+    assert.isFalse(new EventFilter({ objectIds: [escrowB] }).matches(created));
+  });
+
+  it("ANDs criteria kinds and ORs values of one kind", () => {
+    const filter = new EventFilter({
+      tradeIds: [new BN(42), new BN(43)],
+      events: ["DisputeOpened", "FundsDeposited"],
+    });
+    assert.isFalse(filter.matches(created));
+    assert.isTrue(filter.matches(deposited));
+    assert.isTrue(filter.matches(otherTrade));
+    assert.isTrue(filter.matches(opened));
+  });
+
+  it("Follows a participant's escrows through events that do not name them", () => {
+    const filter = new EventFilter({
+      participants: [seller],
+      events: ["FundsDeposited"],
+    });
+    // Dropped by the event criterion, but records escrow A as the seller's
+    assert.isFalse(filter.matches(created));
+    assert.isTrue(filter.matches(deposited));
+    assert.isFalse(filter.matches(otherTrade));
+  });
+
+  it("Matches dispute parties directly", () => {
+    const filter = new EventFilter({ participants: [buyer.toBase58()] });
+    assert.isTrue(filter.matches(opened));
+    assert.isTrue(filter.matches(deposited));
+  });
+});
@@ -0,0 +1,73 @@
+import { Connection, SignatureStatus } from "@solana/web3.js";
+import { assert } from "chai";
+import { FinalityTracker } from "../scripts/listener/finality";
+
+// In-memory stand-in for the two RPC methods finality tracking uses
+function fakeConnection() {
+  const state = {
+    finalizedSlot: 0,
+    statuses: new Map<string, SignatureStatus>(),
+  };
+  const connection = {
+    async getSlot() {
+      return state.finalizedSlot;
+    },
+    async getSignatureStatuses(signatures: string[]) {
+      return {
+        context: { slot: state.finalizedSlot },
+        value: signatures.map((s) => state.statuses.get(s) ?? null),
+      };
+    },
+  } as unknown as Connection;
+  return { connection, state };
+}
+
+const status = (
+  slot: number,
+  confirmationStatus: SignatureStatus["confirmationStatus"],
+  err: SignatureStatus["err"] = null
+): SignatureStatus => ({ slot, confirmations: null, err, confirmationStatus });
+
+describe("Event Listener Finality", () => {
+  it("Promotes signatures once they finalize", async () => {
+    const { connection, state } = fakeConnection();
+    const tracker = new FinalityTracker(connection);
+    tracker.track("sigA", 100);
+    tracker.track("sigB", 101);
+
+    state.statuses.set("sigA", status(100, "confirmed"));
+    state.finalizedSlot = 90;
+    assert.isEmpty(await tracker.poll());
+
+    // Re-included in a later slot on the fork that won
+    state.statuses.set("sigA", status(103, "finalized"));
+    state.finalizedSlot = 110;
+    assert.deepEqual(await tracker.poll(), [
+      { signature: "sigA", slot: 103, status: "finalized" },
+    ]);
+    assert.equal(tracker.size, 1);
+  });
+
+  it("Retracts signatures that can no longer land", async () => {
+    const { connection, state } = fakeConnection();
+    const tracker = new FinalityTracker(connection, 150);
+    tracker.track("dropped", 100);
+    tracker.track("failed", 100);
+    state.statuses.set(
+      "failed",
+      status(102, "finalized", { InstructionError: [0, { Custom: 6005 }] })
+    );
+
+    // Unknown, but its blockhash may still be valid
+    state.finalizedSlot = 250;
+    assert.deepEqual(await tracker.poll(), [
+      { signature: "failed", slot: 102, status: "retracted" },
+    ]);
+
+    state.finalizedSlot = 251;
+    assert.deepEqual(await tracker.poll(), [
+      { signature: "dropped", slot: 100, status: "retracted" },
+    ]);
+    assert.equal(tracker.size, 0);
+  });
+});
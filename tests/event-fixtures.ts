@@ -0,0 +1,262 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { assert } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { loadNetworkProfile } from "../sdk/networks";
+import { EventListener } from "../scripts/event-listener";
+import {
+  decodeProgramEvents,
+  ESCROW_EVENT_NAMES,
+  EventSink,
+  ListenerEvent,
+} from "../scripts/listener/events";
+import {
+  createFixture,
+  FixtureError,
+  loadFixture,
+  parseFixture,
+  recordTransactions,
+  replayFixture,
+  saveFixture,
+} from "../scripts/listener/fixtures";
+import { coder, PROGRAM_ID, programLogs } from "./helpers/events";
+
+const FIXTURE_FILE = path.join(__dirname, "fixtures", "program-logs.json");
+
+/**
+ * Run `fn` against a listener with the given sinks, with the listener's
+ * console output silenced
+ */
+async function withListener(
+  sinks: EventSink[],
+  fn: (listener: EventListener) => Promise<void>
+): Promise<void> {
+  const listener = new EventListener({
+    network: { ...loadNetworkProfile("localnet"), programId: PROGRAM_ID },
+    sinks,
+    format: "ndjson",
+  });
+  const { log, warn, error } = console;
+  const write = process.stdout.write;
+  console.log = console.warn = console.error = () => {};
+  process.stdout.write = (() => true) as typeof process.stdout.write;
+  try {
+    await fn(listener);
+    await listener.close();
+  } finally {
+    Object.assign(console, { log, warn, error });
+    process.stdout.write = write;
+  }
+}
+
+/**
+ * Replay `file` through a listener and collect what reaches its sinks
+ */
+async function replayThroughListener(file: string): Promise<ListenerEvent[]> {
+  const events: ListenerEvent[] = [];
+  await withListener([{ handle: (event) => void events.push(event) }], (l) =>
+    replayFixture(loadFixture(file), (tx) => l.processTransaction(tx)).then(
+      () => {}
+    )
+  );
+  return events;
+}
+
+describe("Program Log Fixtures", () => {
+  it("Records transactions and reads the fixture back", async () => {
+    const logs = programLogs([]);
+    const connection = {
+      getTransaction: async (signature: string) =>
+        signature === "missing"
+          ? null
+          : { slot: 77, blockTime: 1750000000, meta: { logMessages: logs } },
+    } as unknown as Connection;
+
+    const transactions = await recordTransactions(connection, ["sigA"]);
+    assert.deepEqual(transactions, [
+      {
+        signature: "sigA",
+        slot: 77,
+        blockTime: 1750000000,
+        logs,
+        commitment: "confirmed",
+      },
+    ]);
+    try {
+      await recordTransactions(connection, ["sigA", "missing"]);
+      assert.fail("Expected a FixtureError");
+    } catch (error) {
+      assert.instanceOf(error, FixtureError);
+      assert.equal(error.message, "No logs for transaction missing");
+    }
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "log-fixtures-"));
+    try {
+      const file = path.join(dir, "nested", "fixture.json");
+      const fixture = createFixture(
+        PROGRAM_ID,
+        transactions,
+        "localnet",
+        new Date("2025-06-15T12:00:00Z")
+      );
+      saveFixture(file, fixture);
+      assert.deepEqual(loadFixture(file), fixture);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("Rejects fixture files it cannot replay", () => {
+    const valid = JSON.parse(fs.readFileSync(FIXTURE_FILE, "utf8"));
+    const rejects = (fixture: unknown, message: string) =>
+      assert.throws(
+        () => parseFixture(JSON.stringify(fixture)),
+        FixtureError,
+        message
+      );
+
+    assert.throws(() => parseFixture("{"), FixtureError, "Invalid JSON");
+    rejects({ ...valid, version: 2 }, "Unsupported fixture version: 2");
+    rejects(null, "Unsupported fixture version: undefined");
+    rejects({ ...valid, programId: "nope" }, "Invalid program id: nope");
+    rejects({ ...valid, programId: 7 }, "Invalid program id: 7");
+    rejects({ ...valid, cluster: 1 }, "Invalid cluster: 1");
+    rejects({ ...valid, recordedAt: undefined }, "Invalid recordedAt");
+    rejects({ ...valid, transactions: undefined }, "Missing transactions");
+    rejects(
+      { ...valid, transactions: [{ ...valid.transactions[0], slot: "1" }] },
+      "Invalid transaction at index 0"
+    );
+    rejects(
+      { ...valid, transactions: [valid.transactions[0], null] },
+      "Invalid transaction at index 1"
+    );
+    assert.throws(
+      () => loadFixture(path.join(__dirname, "missing.json")),
+      /ENOENT/
+    );
+  });
+
+  it("Decodes every event type from the recorded fixture", async () => {
+    const events = await replayThroughListener(FIXTURE_FILE);
+
+    assert.sameMembers(
+      [...new Set(events.map((e) => e.name))],
+      [...ESCROW_EVENT_NAMES]
+    );
+    assert.deepEqual(
+      events.map((e) => e.slot),
+      [...events.map((e) => e.slot)].sort((a, b) => a - b)
+    );
+    const created = events[0];
+    assert.equal(created.name, "EscrowCreated");
+    assert.equal(created.blockTime, 1750000000);
+    assert.equal(created.commitment, "finalized");
+    assert.equal(created.data.trade_id.toString(), "42");
+    assert.isTrue(created.data.sequential);
+    assert.isTrue(
+      created.data.sequential_escrow_address.equals(
+        new PublicKey(Buffer.alloc(32, 4))
+      )
+    );
+
+    // Only the valid line survives the damaged transaction, and the line
+    // logged before "Log truncated" still counts
+    const damaged = events.filter((e) => e.slot === 1030);
+    assert.deepEqual(
+      damaged.map((e) => [e.name, e.commitment]),
+      [
+        ["FiatMarkedPaid", "finalized"],
+        ["EscrowBalanceChanged", "confirmed"],
+      ]
+    );
+  });
+
+  it("Reports malformed, truncated and padded Program data lines", () => {
+    const fixture = loadFixture(FIXTURE_FILE);
+    const damaged = fixture.transactions.find((tx) =>
+      tx.note?.startsWith("Malformed")
+    )!;
+    const { events, failures } = decodeProgramEvents(
+      coder,
+      PROGRAM_ID,
+      damaged.logs
+    );
+
+    assert.deepEqual(
+      failures.map((f) => [f.logIndex, f.error.replace(/ \(.*\)$/, "")]),
+      [
+        [4, "Malformed base64 payload"],
+        [5, "Malformed base64 payload"],
+        [6, "Truncated event data"],
+        [7, "4 trailing byte(s) after event data"],
+        [8, "Unknown event discriminator"],
+        [9, "Unknown event discriminator"],
+      ]
+    );
+    assert.deepEqual(
+      events.map((e) => [e.logIndex, e.name]),
+      [[13, "FiatMarkedPaid"]]
+    );
+  });
+
+  it("Retries a transaction whose sink failed", async () => {
+    const [first, second] = loadFixture(FIXTURE_FILE).transactions;
+    const stored: string[] = [];
+    let failNext = true;
+    const sink: EventSink = {
+      handle: (event) => {
+        if (failNext) {
+          failNext = false;
+          throw new Error("Database locked");
+        }
+        stored.push(event.signature);
+      },
+    };
+
+    await withListener([sink], async (listener) => {
+      await listener.processTransaction(first);
+      // The failure stays with its transaction
+      await listener.processTransaction(second);
+      await listener.processTransaction(first);
+      await listener.processTransaction(first);
+    });
+    assert.deepEqual(stored, [
+      second.signature,
+      second.signature,
+      first.signature,
+    ]);
+  });
+
+  it("Replays deterministically", async () => {
+    const runs = [
+      await replayThroughListener(FIXTURE_FILE),
+      await replayThroughListener(FIXTURE_FILE),
+    ].map((events) =>
+      events.map(({ name, signature, slot, logIndex, raw, commitment }) => ({
+        name,
+        signature,
+        slot,
+        logIndex,
+        raw,
+        commitment,
+      }))
+    );
+    assert.lengthOf(runs[0], 18);
+    assert.deepEqual(runs[1], runs[0]);
+
+    // Slot order, keeping the recorded order within a slot
+    const fixture = loadFixture(FIXTURE_FILE);
+    const reversed = { ...fixture, transactions: [...fixture.transactions] };
+    reversed.transactions.reverse();
+    const seen: string[] = [];
+    await replayFixture(reversed, (tx) => void seen.push(tx.signature));
+    const expected = fixture.transactions.slice(0, 12).map((t) => t.signature);
+    assert.deepEqual(seen.slice(0, 12), expected);
+    assert.deepEqual(seen.slice(12), [
+      fixture.transactions[13].signature,
+      fixture.transactions[12].signature,
+    ]);
+  });
+});
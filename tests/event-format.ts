@@ -0,0 +1,143 @@
+import { BN } from "@coral-xyz/anchor";
+import { Keypair } from "@solana/web3.js";
+import { assert } from "chai";
+import { decodeProgramEvents, ListenerEvent } from "../scripts/listener/events";
+import {
+  formatCommitmentUpdate,
+  formatEvent,
+  normalizeEvent,
+  statusLogger,
+} from "../scripts/listener/format";
+import { coder, eventBase, PROGRAM_ID, programLogs } from "./helpers/events";
+
+describe("Event Listener Output Formats", () => {
+  const seller = Keypair.generate().publicKey;
+  const buyer = Keypair.generate().publicKey;
+  const escrow = Keypair.generate().publicKey;
+
+  // Decode real log lines so the coder's field shapes are exercised
+  const { events } = decodeProgramEvents(
+    coder,
+    PROGRAM_ID,
+    programLogs([
+      [
+        "EscrowCreated",
+        {
+          ...eventBase(0, 42, 1_700_000_000, escrow),
+          escrow_id: new BN("18446744073709551615"),
+          seller,
+          buyer,
+          arbitrator: seller,
+          amount: new BN(1_000_000),
+          fee: new BN(10_000),
+          deposit_deadline: new BN(1_700_000_900),
+          fiat_deadline: new BN(0),
+          sequential: false,
+          sequential_escrow_address: null,
+        },
+      ],
+      [
+        "DisputeOpened",
+        {
+          ...eventBase(7, 42, 1_700_000_100, escrow),
+          disputing_party: buyer,
+          evidence_hash: Array(32).fill(0xab),
+          bond_amount: new BN(50_000),
+        },
+      ],
+    ])
+  );
+  const [created, opened]: ListenerEvent[] = events.map((event) => ({
+    ...event,
+    signature: "sig1",
+    slot: 100,
+    blockTime: 1_700_000_000,
+    commitment: "confirmed",
+  }));
+
+  it("Normalizes every event into one canonical shape", () => {
+    const normalized = normalizeEvent(created);
+    assert.equal(normalized.event, "EscrowCreated");
+    assert.equal(normalized.blockTime, "2023-11-14T22:13:20.000Z");
+    assert.equal(normalized.commitment, "confirmed");
+    assert.deepEqual(normalized.data, {
+      objectId: escrow.toBase58(),
+      escrowId: "18446744073709551615",
+      tradeId: "42",
+      seller: seller.toBase58(),
+      buyer: buyer.toBase58(),
+      arbitrator: seller.toBase58(),
+      amount: "1000000",
+      fee: "10000",
+      depositDeadline: "2023-11-14T22:28:20.000Z",
+      // Not set until funding
+      fiatDeadline: null,
+      sequential: false,
+      sequentialEscrowAddress: null,
+      timestamp: "2023-11-14T22:13:20.000Z",
+    });
+
+    const dispute = normalizeEvent(opened).data;
+    assert.equal(dispute.disputingParty, buyer.toBase58());
+    assert.equal(dispute.evidenceHash, "ab".repeat(32));
+    assert.equal(dispute.bondAmount, "50000");
+  });
+
+  it("Prints one JSON document per line in ndjson", () => {
+    const line = formatEvent(created, "ndjson");
+    assert.notInclude(line, "\n");
+    assert.deepEqual(JSON.parse(line), normalizeEvent(created));
+    assert.deepEqual(
+      JSON.parse(formatEvent(created, "json")),
+      normalizeEvent(created)
+    );
+  });
+
+  it("Prints commitment records without an event key", () => {
+    const update = {
+      signature: "sig1",
+      slot: 100,
+      status: "retracted" as const,
+    };
+    assert.deepEqual(JSON.parse(formatCommitmentUpdate(update, "ndjson")), {
+      signature: "sig1",
+      slot: 100,
+      commitment: "retracted",
+    });
+    assert.include(formatCommitmentUpdate(update, "pretty"), "RETRACTED: sig1");
+  });
+
+  it("Renders the pretty view from the same normalized fields", () => {
+    const createdView = formatEvent(created, "pretty");
+    assert.include(createdView, "🆔 Escrow ID: 18446744073709551615");
+    assert.include(createdView, "💰 Amount: 1.00 USDC");
+    assert.include(
+      createdView,
+      "⏳ Deposit Deadline: 2023-11-14T22:28:20.000Z"
+    );
+
+    const openedView = formatEvent(opened, "pretty");
+    assert.include(openedView, "🆔 Escrow ID: 7");
+    assert.include(openedView, `👤 Disputing Party: ${buyer.toBase58()}`);
+    assert.include(openedView, "💰 Bond Amount: 0.05 USDC");
+  });
+
+  it("Sends status messages to stderr for machine formats", () => {
+    const { log, error } = console;
+    const lines: string[] = [];
+    console.log = (...args) => lines.push(`stdout ${args.join(" ")}`);
+    console.error = (...args) => lines.push(`stderr ${args.join(" ")}`);
+    try {
+      statusLogger("pretty").log("backfill", 1);
+      statusLogger("ndjson").log("backfill", 2);
+      statusLogger("json").error("failed");
+    } finally {
+      Object.assign(console, { log, error });
+    }
+    assert.deepEqual(lines, [
+      "stdout backfill 1",
+      "stderr backfill 2",
+      "stderr failed",
+    ]);
+  });
+});
@@ -0,0 +1,294 @@
+import { BN } from "@coral-xyz/anchor";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { assert } from "chai";
+import { EscrowAccount, EscrowClient } from "../sdk/client";
+import { ARBITRATOR } from "../sdk/constants";
+import { TerminalStateError } from "../sdk/errors";
+import { EscrowIds } from "../sdk/pda";
+import {
+  AUTO_CANCEL_TASK,
+  DEFAULT_JUDGMENT_TASK,
+  defaultJudgmentWinner,
+  EscrowKeeper,
+  KeeperTask,
+  outcomeRecord,
+} from "../scripts/listener/keeper";
+import {
+  buyer,
+  CREATED_AT,
+  evidenceHash,
+  makeEscrow,
+  seller,
+} from "./helpers/escrows";
+
+/**
+ * In-memory stand-in for the parts of EscrowClient a keeper uses. Accounts
+ * are keyed by address; `autoCancel` and `defaultJudgment` close the escrow
+ * like the program does.
+ */
+function fakeClient(accounts: Map<string, EscrowAccount>) {
+  const sent: string[] = [];
+  const addressOf = ({ escrowId }: EscrowIds) =>
+    [...accounts.entries()].find(([, a]) => a.escrowId.eq(escrowId))![0];
+  const close = async (ids: EscrowIds) => {
+    const address = addressOf(ids);
+    if (!accounts.has(address)) throw new TerminalStateError();
+    accounts.delete(address);
+    sent.push(address);
+    return `sig-${ids.escrowId}`;
+  };
+  const client = {
+    program: {
+      account: {
+        escrow: {
+          all: async () =>
+            [...accounts.entries()].map(([address, account]) => ({
+              publicKey: new PublicKey(address),
+              account,
+            })),
+          fetchNullable: async (address: PublicKey) =>
+            accounts.get(address.toBase58()) ?? null,
+        },
+      },
+    },
+    autoCancel: close,
+    defaultJudgment: close,
+  } as unknown as EscrowClient;
+  return { client, sent };
+}
+
+describe("Event Keeper", () => {
+  const arbitrator = Keypair.generate();
+  // The fixtures' arbitrator is the program's; this keypair stands in for it
+  const asArbitrator = (base: KeeperTask): KeeperTask => ({
+    ...base,
+    eligible: (escrow, now) => base.eligible(escrow, now, ARBITRATOR),
+  });
+  const task = asArbitrator(AUTO_CANCEL_TASK);
+  const now = async () => CREATED_AT + 3600;
+
+  const escrows = () => {
+    const created = makeEscrow({ escrowId: new BN(1) });
+    const fundedExpired = makeEscrow({
+      escrowId: new BN(2),
+      state: { funded: {} },
+      fiatDeadline: new BN(CREATED_AT + 1800),
+    });
+    const fiatPaid = makeEscrow({
+      escrowId: new BN(3),
+      state: { funded: {} },
+      fiatDeadline: new BN(CREATED_AT + 1800),
+      fiatPaid: true,
+    });
+    const fundedRunning = makeEscrow({
+      escrowId: new BN(4),
+      state: { funded: {} },
+      fiatDeadline: new BN(CREATED_AT + 7200),
+    });
+    const disputed = makeEscrow({
+      escrowId: new BN(5),
+      state: { disputed: {} },
+      fiatPaid: true,
+      disputeInitiator: fiatPaid.buyer,
+      disputeInitiatedTime: new BN(CREATED_AT),
+      disputeEvidenceHashBuyer: evidenceHash,
+    });
+    return new Map<string, EscrowAccount>(
+      [created, fundedExpired, fiatPaid, fundedRunning, disputed].map(
+        ({ address, ...account }) => [address.toBase58(), account]
+      )
+    );
+  };
+
+  it("Only picks escrows the program would let the arbitrator cancel", () => {
+    const at = CREATED_AT + 3600;
+    const eligible = [...escrows().values()].filter((e) =>
+      AUTO_CANCEL_TASK.eligible(e, at, ARBITRATOR)
+    );
+    assert.deepEqual(
+      eligible.map((e) => e.escrowId.toNumber()),
+      [1, 2]
+    );
+    const [created] = eligible;
+    // Not before the deadline, and never for someone else
+    assert.isFalse(
+      AUTO_CANCEL_TASK.eligible(created, CREATED_AT + 15 * 60, ARBITRATOR)
+    );
+    assert.isFalse(
+      AUTO_CANCEL_TASK.eligible(created, at, Keypair.generate().publicKey)
+    );
+  });
+
+  it("Sends auto_cancel to every eligible escrow once", async () => {
+    const accounts = escrows();
+    const { client, sent } = fakeClient(accounts);
+    const keeper = new EscrowKeeper(client, arbitrator, task, { now });
+
+    const outcomes = await keeper.run();
+    assert.deepEqual(
+      outcomes.map((o) => [o.escrowId.toNumber(), o.status, o.signature]),
+      [
+        [1, "sent", "sig-1"],
+        [2, "sent", "sig-2"],
+      ]
+    );
+    assert.lengthOf(sent, 2);
+    assert.isEmpty(await keeper.run());
+  });
+
+  it("Reports without sending in dry-run mode", async () => {
+    const accounts = escrows();
+    const { client, sent } = fakeClient(accounts);
+    const keeper = new EscrowKeeper(client, ARBITRATOR, task, {
+      dryRun: true,
+      now,
+    });
+    const outcomes = await keeper.run();
+    assert.deepEqual(
+      outcomes.map((o) => o.status),
+      ["dry-run", "dry-run"]
+    );
+    assert.isEmpty(sent);
+    assert.throws(
+      () => new EscrowKeeper(client, ARBITRATOR, task),
+      /requires the arbitrator keypair/
+    );
+  });
+
+  it("Treats escrows settled in the meantime as skipped", async () => {
+    const accounts = escrows();
+    const { client } = fakeClient(accounts);
+    const [first, second] = [...accounts.keys()];
+    // The seller cancels the first before the keeper gets to it...
+    const all = client.program.account.escrow.all;
+    (client.program.account.escrow as any).all = async () => {
+      const found = await all();
+      accounts.delete(first);
+      return found;
+    };
+    // ...and the second is closed between the re-check and the send
+    const autoCancel = client.autoCancel.bind(client);
+    (client as any).autoCancel = async (ids: EscrowIds, signer: Keypair) => {
+      if (ids.escrowId.eqn(2)) accounts.delete(second);
+      return autoCancel(ids, signer);
+    };
+
+    const keeper = new EscrowKeeper(client, arbitrator, task, { now });
+    const outcomes = await keeper.run();
+    assert.deepEqual(
+      outcomes.map((o) => [o.status, o.reason]),
+      [
+        ["skipped", "closed"],
+        ["skipped", "closed concurrently"],
+      ]
+    );
+  });
+
+  it("Reports other send errors as failures", async () => {
+    const accounts = escrows();
+    const { client } = fakeClient(accounts);
+    (client as any).autoCancel = async () => {
+      throw new Error("Blockhash not found");
+    };
+    const keeper = new EscrowKeeper(client, arbitrator, task, { now });
+    const [outcome] = await keeper.run();
+    assert.equal(outcome.status, "failed");
+    assert.equal(outcome.reason, "Blockhash not found");
+  });
+
+  describe("Default judgment", () => {
+    const RESPONSE_DEADLINE = CREATED_AT + 72 * 3600;
+    const dispute = (overrides: Partial<EscrowAccount>, escrowId = 1) =>
+      makeEscrow({
+        escrowId: new BN(escrowId),
+        state: { disputed: {} },
+        fiatPaid: true,
+        disputeInitiatedTime: new BN(CREATED_AT),
+        ...overrides,
+      });
+    const byBuyer = dispute({
+      disputeInitiator: buyer,
+      disputeEvidenceHashBuyer: evidenceHash,
+    });
+    const bySeller = dispute(
+      { disputeInitiator: seller, disputeEvidenceHashSeller: evidenceHash },
+      2
+    );
+    const answered = dispute(
+      {
+        disputeInitiator: buyer,
+        disputeEvidenceHashBuyer: evidenceHash,
+        disputeEvidenceHashSeller: evidenceHash,
+      },
+      3
+    );
+
+    it("Finds the side whose evidence hash is missing", () => {
+      assert.equal(defaultJudgmentWinner(byBuyer), "buyer");
+      assert.equal(defaultJudgmentWinner(bySeller), "seller");
+      assert.isNull(defaultJudgmentWinner(answered));
+      assert.isNull(
+        defaultJudgmentWinner(makeEscrow({ state: { funded: {} } }))
+      );
+      assert.equal(
+        DEFAULT_JUDGMENT_TASK.describe!(bySeller),
+        "buyer did not respond; seller wins"
+      );
+    });
+
+    it("Only picks unanswered disputes past the response deadline", () => {
+      const eligible = (escrow: EscrowAccount, now: number) =>
+        DEFAULT_JUDGMENT_TASK.eligible(escrow, now, ARBITRATOR);
+      assert.isFalse(eligible(byBuyer, RESPONSE_DEADLINE));
+      assert.isTrue(eligible(byBuyer, RESPONSE_DEADLINE + 1));
+      assert.isTrue(eligible(bySeller, RESPONSE_DEADLINE + 1));
+      assert.isFalse(eligible(answered, RESPONSE_DEADLINE + 1));
+      assert.isFalse(
+        DEFAULT_JUDGMENT_TASK.eligible(
+          byBuyer,
+          RESPONSE_DEADLINE + 1,
+          Keypair.generate().publicKey
+        )
+      );
+    });
+
+    it("Sends default_judgment and records who won", async () => {
+      const accounts = new Map<string, EscrowAccount>(
+        [byBuyer, bySeller, answered].map(({ address, ...account }) => [
+          address.toBase58(),
+          account,
+        ])
+      );
+      const { client, sent } = fakeClient(accounts);
+      const keeper = new EscrowKeeper(
+        client,
+        arbitrator,
+        asArbitrator(DEFAULT_JUDGMENT_TASK),
+        { now: async () => RESPONSE_DEADLINE + 60 }
+      );
+
+      const outcomes = await keeper.run();
+      assert.deepEqual(
+        outcomes.map((o) => [o.escrowId.toNumber(), o.status, o.detail]),
+        [
+          [1, "sent", "seller did not respond; buyer wins"],
+          [2, "sent", "buyer did not respond; seller wins"],
+        ]
+      );
+      assert.lengthOf(sent, 2);
+      assert.isEmpty(await keeper.run());
+
+      const at = new Date("2024-01-01T00:00:00Z");
+      assert.deepEqual(outcomeRecord(outcomes[0], at), {
+        at: "2024-01-01T00:00:00.000Z",
+        instruction: "defaultJudgment",
+        escrow: byBuyer.address.toBase58(),
+        escrowId: "1",
+        tradeId: byBuyer.tradeId.toString(),
+        status: "sent",
+        signature: "sig-1",
+        detail: "seller did not respond; buyer wins",
+      });
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { BN } from "@coral-xyz/anchor";
+import { Keypair } from "@solana/web3.js";
+import { assert } from "chai";
+import { AddressInfo } from "net";
+import { EscrowEventName } from "../scripts/listener/events";
+import {
+  collectProjectionMetrics,
+  createListenerMetrics,
+  MetricsRegistry,
+  startMetricsServer,
+} from "../scripts/listener/metrics";
+import { EscrowProjection } from "../scripts/listener/projection";
+import { eventBase } from "./helpers/events";
+
+describe("Event Listener Metrics", () => {
+  it("Renders counters and gauges in the exposition format", async () => {
+    const registry = new MetricsRegistry();
+    const metrics = createListenerMetrics(registry);
+    metrics.events.inc({ event: "FundsDeposited" });
+    metrics.events.inc({ event: "FundsDeposited" });
+    metrics.rpcErrors.inc({ operation: 'say "hi"\n' });
+    metrics.lastProcessedSlot.set(1234);
+
+    const text = await registry.render();
+    assert.include(text, "# TYPE escrow_listener_events_total counter");
+    assert.include(
+      text,
+      'escrow_listener_events_total{event="FundsDeposited"} 2'
+    );
+    assert.include(
+      text,
+      'escrow_listener_events_total{event="EscrowReleased"} 0'
+    );
+    assert.include(
+      text,
+      'escrow_listener_rpc_errors_total{operation="say \\"hi\\"\\n"} 1'
+    );
+    assert.include(text, "escrow_listener_last_processed_slot 1234");
+    assert.include(text, "escrow_listener_decode_failures_total 0");
+  });
+
+  it("Reports open escrows by state and their tracked balance", async () => {
+    const projection = new EscrowProjection();
+    const seller = Keypair.generate().publicKey;
+    const buyer = Keypair.generate().publicKey;
+    const feed = (
+      name: EscrowEventName,
+      escrow: number,
+      fields: Record<string, any> = {}
+    ) =>
+      projection.handle({
+        name,
+        data: { ...eventBase(escrow, 1, 1_700_000_000), ...fields },
+        signature: `sig${escrow}${name}`,
+        slot: 1,
+        logIndex: 0,
+        blockTime: null,
+        raw: "",
+        commitment: "finalized",
+      });
+    const created = () => ({
+      object_id: Keypair.generate().publicKey,
+      seller,
+      buyer,
+      arbitrator: seller,
+      amount: new BN(1_000_000),
+      fee: new BN(10_000),
+      deposit_deadline: new BN(1_700_000_900),
+      fiat_deadline: new BN(0),
+      sequential: false,
+      sequential_escrow_address: null,
+    });
+
+    const first = created();
+    const second = created();
+    feed("EscrowCreated", 1, first);
+    feed("EscrowCreated", 2, second);
+    feed("FundsDeposited", 2, {
+      object_id: second.object_id,
+      amount: new BN(1_000_000),
+      fee: new BN(10_000),
+      counter: new BN(1),
+    });
+    feed("EscrowBalanceChanged", 2, {
+      object_id: second.object_id,
+      new_balance: new BN(1_010_000),
+      reason: "Escrow funded",
+    });
+
+    const registry = new MetricsRegistry();
+    const metrics = createListenerMetrics(registry);
+    collectProjectionMetrics(registry, metrics, projection);
+    const text = await registry.render();
+    assert.include(text, 'escrow_open_escrows{state="Created"} 1');
+    assert.include(text, 'escrow_open_escrows{state="Funded"} 1');
+    assert.include(text, 'escrow_open_escrows{state="Disputed"} 0');
+    assert.include(text, "escrow_tracked_balance 1010000");
+  });
+
+  it("Serves GET /metrics", async () => {
+    const registry = new MetricsRegistry();
+    createListenerMetrics(registry).reconnects.inc();
+    const server = await startMetricsServer(registry, 0, "127.0.0.1");
+    const { port } = server.address() as AddressInfo;
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}/metrics`);
+      assert.equal(response.status, 200);
+      assert.include(response.headers.get("content-type")!, "version=0.0.4");
+      assert.include(
+        await response.text(),
+        "escrow_listener_reconnects_total 1"
+      );
+      const missing = await fetch(`http://127.0.0.1:${port}/other`);
+      assert.equal(missing.status, 404);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,241 @@
+import { BN } from "@coral-xyz/anchor";
+import { Keypair } from "@solana/web3.js";
+import { assert } from "chai";
+import { EscrowAccount } from "../sdk/client";
+import { escrowStateName } from "../sdk/state-machine";
+import {
+  decodeProgramEvents,
+  EscrowEventName,
+  EventCommitment,
+  EventSink,
+} from "../scripts/listener/events";
+import { EscrowProjection } from "../scripts/listener/projection";
+import { SqliteEventStore } from "../scripts/listener/sqlite-store";
+import { coder, eventBase, PROGRAM_ID, programLogs } from "./helpers/events";
+
+describe("Escrow Projection", () => {
+  const seller = Keypair.generate().publicKey;
+  const buyer = Keypair.generate().publicKey;
+  const arbitrator = Keypair.generate().publicKey;
+  const escrow = Keypair.generate().publicKey;
+  const t0 = 1_700_000_000;
+  const base = (timestamp: number) => eventBase(7, 9, timestamp, escrow);
+  const buyerHash = Array(32).fill(1);
+  const sellerHash = Array(32).fill(2);
+
+  const history: [EscrowEventName, Record<string, any>][] = [
+    [
+      "EscrowCreated",
+      {
+        ...base(t0),
+        seller,
+        buyer,
+        arbitrator,
+        amount: new BN(1_000_000),
+        fee: new BN(10_000),
+        deposit_deadline: new BN(t0 + 900),
+        fiat_deadline: new BN(0),
+        sequential: false,
+        sequential_escrow_address: null,
+      },
+    ],
+    [
+      "FundsDeposited",
+      {
+        ...base(t0 + 60),
+        amount: new BN(1_000_000),
+        fee: new BN(10_000),
+        counter: new BN(1),
+      },
+    ],
+    [
+      "EscrowBalanceChanged",
+      {
+        ...base(t0 + 60),
+        new_balance: new BN(1_010_000),
+        reason: "Escrow funded",
+      },
+    ],
+    ["FiatMarkedPaid", base(t0 + 120)],
+    [
+      "DisputeOpened",
+      {
+        ...base(t0 + 180),
+        disputing_party: buyer,
+        evidence_hash: buyerHash,
+        bond_amount: new BN(50_000),
+      },
+    ],
+    [
+      "DisputeResponseSubmitted",
+      {
+        ...base(t0 + 240),
+        responding_party: seller,
+        evidence_hash: sellerHash,
+        bond_amount: new BN(50_000),
+      },
+    ],
+  ];
+
+  const feed = (
+    projection: EventSink,
+    events: [EscrowEventName, Record<string, any>][],
+    signature: string,
+    slot: number,
+    commitment: EventCommitment = "finalized"
+  ) =>
+    decodeProgramEvents(coder, PROGRAM_ID, programLogs(events)).events.forEach(
+      (event) =>
+        projection.handle({
+          ...event,
+          signature,
+          slot,
+          blockTime: null,
+          commitment,
+        })
+    );
+
+  const onChain = (): EscrowAccount => ({
+    escrowId: new BN(7),
+    tradeId: new BN(9),
+    seller,
+    buyer,
+    arbitrator,
+    amount: new BN(1_000_000),
+    fee: new BN(10_000),
+    depositDeadline: new BN(t0 + 900),
+    fiatDeadline: new BN(t0 + 60 + 30 * 60),
+    state: { disputed: {} },
+    sequential: false,
+    sequentialEscrowAddress: null,
+    fiatPaid: true,
+    counter: new BN(1),
+    disputeInitiator: buyer,
+    disputeInitiatedTime: new BN(t0 + 180),
+    disputeEvidenceHashBuyer: buyerHash,
+    disputeEvidenceHashSeller: sellerHash,
+    disputeResolutionHash: null,
+    trackedBalance: new BN(1_010_000),
+  });
+
+  it("Folds events into the Escrow account shape", async () => {
+    const projection = new EscrowProjection();
+    feed(projection, history, "sig1", 10);
+
+    const record = projection.findByIds(new BN(7), new BN(9))!;
+    assert.equal(escrowStateName(record.state), "Disputed");
+    assert.isTrue(record.fiatPaid);
+    assert.equal(record.fiatDeadline.toNumber(), t0 + 60 + 30 * 60);
+    assert.isTrue(record.disputeInitiator!.equals(buyer));
+    assert.deepEqual(record.disputeEvidenceHashSeller, sellerHash);
+    assert.equal(record.disputeResponseTime!.toNumber(), t0 + 240);
+    assert.equal(record.trackedBalance.toNumber(), 1_010_000);
+    assert.equal(record.lastSignature, "sig1");
+
+    const divergences = await projection.verify(async () => onChain());
+    assert.isEmpty(divergences);
+  });
+
+  it("Flags fields that disagree with the account", async () => {
+    const projection = new EscrowProjection();
+    feed(projection, history.slice(0, 3), "sig1", 10);
+
+    const divergences = await projection.verify(async () => onChain());
+    assert.includeMembers(
+      divergences.map((d) => d.field),
+      ["state", "fiatPaid", "disputeInitiator", "disputeEvidenceHashBuyer"]
+    );
+    const state = divergences.find((d) => d.field === "state")!;
+    assert.equal(state.projected, "Funded");
+    assert.equal(state.onChain, "Disputed");
+
+    const missing = await projection.verify(async () => null);
+    assert.deepEqual(
+      missing.map((d) => [d.field, d.onChain]),
+      [["account", "closed"]]
+    );
+  });
+
+  it("Records the winner of a default judgment and closes the escrow", () => {
+    const projection = new EscrowProjection();
+    feed(
+      projection,
+      [
+        ...history.slice(0, 5),
+        [
+          "DisputeDefaultJudgment",
+          { ...base(t0 + 400000), defaulting_party: seller, decision: true },
+        ],
+      ],
+      "sig1",
+      10
+    );
+    const record = projection.get(escrow)!;
+    assert.equal(escrowStateName(record.state), "Resolved");
+    assert.isTrue(record.closed);
+    assert.isTrue(record.winner!.equals(buyer));
+    assert.isEmpty(projection.open());
+  });
+
+  it("Undoes the events of a retracted transaction", () => {
+    const projection = new EscrowProjection();
+    feed(projection, history.slice(0, 1), "sig1", 10);
+    feed(projection, history.slice(1, 3), "sig2", 11, "confirmed");
+    feed(projection, history.slice(3, 4), "sig3", 12, "confirmed");
+    assert.equal(escrowStateName(projection.get(escrow)!.state), "Funded");
+
+    projection.commitmentChanged({
+      signature: "sig2",
+      slot: 11,
+      status: "retracted",
+    });
+    let record = projection.get(escrow)!;
+    assert.equal(escrowStateName(record.state), "Created");
+    assert.equal(record.trackedBalance.toNumber(), 0);
+    assert.isTrue(record.fiatPaid);
+    assert.equal(record.lastSignature, "sig3");
+
+    projection.commitmentChanged({
+      signature: "sig3",
+      slot: 13,
+      status: "finalized",
+    });
+    record = projection.get(escrow)!;
+    assert.isTrue(record.fiatPaid);
+    assert.equal(record.lastSlot, 13);
+
+    // An escrow whose creation is retracted disappears
+    const other = new EscrowProjection();
+    feed(other, history.slice(0, 2), "sig1", 10, "confirmed");
+    other.commitmentChanged({
+      signature: "sig1",
+      slot: 10,
+      status: "retracted",
+    });
+    assert.isEmpty(other.all());
+  });
+
+  it("Counts events for escrows it never saw created", () => {
+    const projection = new EscrowProjection();
+    feed(projection, history.slice(1, 2), "sig1", 10);
+    assert.isEmpty(projection.all());
+    assert.equal(projection.orphanedEvents, 1);
+  });
+
+  it("Rebuilds from the SQLite store", () => {
+    const store = new SqliteEventStore(":memory:");
+    feed(store, history.slice(0, 2), "sig1", 10);
+    feed(store, history.slice(2), "sig2", 11);
+
+    const projection = new EscrowProjection();
+    for (const event of store.replay(coder)) {
+      projection.handle(event);
+    }
+    store.close();
+
+    const record = projection.get(escrow.toBase58())!;
+    assert.equal(escrowStateName(record.state), "Disputed");
+    assert.equal(record.lastSignature, "sig2");
+    assert.isTrue(record.address.equals(escrow));
+  });
+});
@@ -0,0 +1,379 @@
+import { BN } from "@coral-xyz/anchor";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { assert } from "chai";
+import * as http from "http";
+import { AddressInfo } from "net";
+import {
+  decodeProgramEvents,
+  EscrowEventName,
+  EventCommitment,
+} from "../scripts/listener/events";
+import {
+  decodeCursor,
+  encodeCursor,
+  EscrowQueries,
+  QueryError,
+} from "../scripts/listener/queries";
+import { startQueryServer } from "../scripts/listener/query-server";
+import { SqliteEventStore } from "../scripts/listener/sqlite-store";
+import { coder, eventBase, PROGRAM_ID, programLogs } from "./helpers/events";
+
+describe("Event Query API", () => {
+  const seller = Keypair.generate().publicKey;
+  const buyer = Keypair.generate().publicKey;
+  const arbitrator = Keypair.generate().publicKey;
+  const other = Keypair.generate().publicKey;
+  const t0 = 1_700_000_000;
+  // Two escrows of trade 42 (a sequential chain) and one of trade 43
+  const first = Keypair.generate().publicKey;
+  const second = Keypair.generate().publicKey;
+  const third = Keypair.generate().publicKey;
+  let store: SqliteEventStore;
+  let queries: EscrowQueries;
+  let slot: number;
+
+  const write = (
+    events: [EscrowEventName, Record<string, any>][],
+    commitment: EventCommitment = "finalized"
+  ) => {
+    const signature = `sig${slot}`;
+    const decoded = decodeProgramEvents(coder, PROGRAM_ID, programLogs(events));
+    for (const event of decoded.events) {
+      store.handle({
+        ...event,
+        signature,
+        slot,
+        blockTime: t0,
+        commitment,
+      });
+    }
+    slot++;
+  };
+  const created = (
+    escrow: PublicKey,
+    escrowId: number,
+    tradeId: number,
+    parties = { seller, buyer }
+  ): [EscrowEventName, Record<string, any>] => [
+    "EscrowCreated",
+    {
+      ...eventBase(escrowId, tradeId, t0, escrow),
+      ...parties,
+      arbitrator,
+      amount: new BN(1_000_000),
+      fee: new BN(10_000),
+      deposit_deadline: new BN(t0 + 900),
+      fiat_deadline: new BN(0),
+      sequential: tradeId === 42,
+      sequential_escrow_address: null,
+    },
+  ];
+
+  beforeEach(() => {
+    slot = 100;
+    store = new SqliteEventStore(":memory:");
+    queries = new EscrowQueries(store, coder);
+    write([created(first, 1, 42)]);
+    write([
+      [
+        "FundsDeposited",
+        {
+          ...eventBase(1, 42, t0 + 60, first),
+          amount: new BN(1_000_000),
+          fee: new BN(10_000),
+          counter: new BN(1),
+        },
+      ],
+      ["FiatMarkedPaid", eventBase(1, 42, t0 + 60, first)],
+    ]);
+    write([
+      [
+        "DisputeOpened",
+        {
+          ...eventBase(1, 42, t0 + 120, first),
+          disputing_party: buyer,
+          evidence_hash: Array(32).fill(0xab),
+          bond_amount: new BN(50_000),
+        },
+      ],
+    ]);
+    write([created(second, 2, 42)]);
+    write([created(third, 3, 43, { seller: other, buyer: seller })]);
+  });
+
+  afterEach(() => store.close());
+
+  it("Looks up escrows by PDA, ids and trade", () => {
+    const escrow = queries.escrow(first.toBase58())!;
+    assert.include(escrow, {
+      escrowId: "1",
+      tradeId: "42",
+      state: "Disputed",
+      fiatPaid: true,
+      disputeInitiator: buyer.toBase58(),
+      disputeEvidenceHashBuyer: "ab".repeat(32),
+      disputeInitiatedAt: "2023-11-14T22:15:20.000Z",
+      amount: "1000000",
+    });
+    assert.deepEqual(
+      queries.escrowByIds("2", "42")?.address,
+      second.toBase58()
+    );
+    assert.isNull(queries.escrowByIds("2", "43"));
+    assert.isNull(queries.escrow(other.toBase58()));
+    assert.deepEqual(
+      queries.escrowsByTrade("42").nodes.map((e) => e.escrowId),
+      ["1", "2"]
+    );
+    assert.throws(() => queries.escrow("not-an-address"), QueryError);
+    assert.throws(() => queries.escrowByIds("-1", "42"), /Invalid escrow id/);
+  });
+
+  it("Finds escrows by participant and open disputes", () => {
+    const ids = (page: { nodes: { escrowId: string }[] }) =>
+      page.nodes.map((e) => e.escrowId);
+    assert.deepEqual(ids(queries.escrowsByParticipant(seller.toBase58())), [
+      "1",
+      "2",
+      "3",
+    ]);
+    assert.deepEqual(
+      ids(queries.escrowsByParticipant(seller.toBase58(), "seller")),
+      ["1", "2"]
+    );
+    assert.deepEqual(
+      ids(queries.escrowsByParticipant(seller.toBase58(), "buyer")),
+      ["3"]
+    );
+    assert.deepEqual(ids(queries.openDisputes()), ["1"]);
+  });
+
+  it("Pages with cursors that survive new rows", () => {
+    const page1 = queries.escrowsByParticipant(seller.toBase58(), null, {
+      first: 2,
+    });
+    assert.deepEqual(
+      page1.nodes.map((e) => e.escrowId),
+      ["1", "2"]
+    );
+    assert.isTrue(page1.pageInfo.hasNextPage);
+
+    // Arrives after the first page was served; picked up on the next call
+    write([created(Keypair.generate().publicKey, 4, 44)]);
+    const page2 = queries.escrowsByParticipant(seller.toBase58(), null, {
+      first: 2,
+      after: page1.pageInfo.endCursor,
+    });
+    assert.deepEqual(
+      page2.nodes.map((e) => e.escrowId),
+      ["3", "4"]
+    );
+    assert.isFalse(page2.pageInfo.hasNextPage);
+
+    const position = { slot: 5, signature: "abc", logIndex: 2 };
+    assert.deepEqual(decodeCursor(encodeCursor(position)), position);
+    assert.throws(() => decodeCursor("nope"), /Invalid cursor/);
+    assert.throws(() => queries.openDisputes({ first: 0 }), /page size/);
+  });
+
+  it("Returns the event history of an escrow", () => {
+    const history = queries.events(first.toBase58())!;
+    assert.deepEqual(
+      history.nodes.map((e) => [e.event, e.slot, e.logIndex]),
+      [
+        ["EscrowCreated", 100, 2],
+        ["FundsDeposited", 101, 2],
+        ["FiatMarkedPaid", 101, 3],
+        ["DisputeOpened", 102, 2],
+      ]
+    );
+    assert.equal(history.nodes[3].data.bondAmount, "50000");
+
+    const page = queries.events(first.toBase58(), { first: 1, after: null })!;
+    const rest = queries.events(first.toBase58(), {
+      after: page.pageInfo.endCursor,
+    })!;
+    assert.equal(rest.nodes[0].event, "FundsDeposited");
+    assert.isNull(queries.events(other.toBase58()));
+  });
+
+  it("Follows commitment changes", () => {
+    write(
+      [
+        [
+          "DisputeResponseSubmitted",
+          {
+            ...eventBase(1, 42, t0 + 180, first),
+            responding_party: seller,
+            evidence_hash: Array(32).fill(0xcd),
+            bond_amount: new BN(50_000),
+          },
+        ],
+      ],
+      "confirmed"
+    );
+    assert.equal(
+      queries.escrow(first.toBase58())?.disputeEvidenceHashSeller,
+      "cd".repeat(32)
+    );
+    assert.equal(
+      queries.events(first.toBase58())!.nodes[4].commitment,
+      "confirmed"
+    );
+
+    store.commitmentChanged({
+      signature: "sig105",
+      slot: 105,
+      status: "retracted",
+    });
+    assert.isNull(queries.escrow(first.toBase58())?.disputeEvidenceHashSeller);
+    assert.lengthOf(queries.events(first.toBase58())!.nodes, 4);
+  });
+
+  describe("HTTP", () => {
+    let server: http.Server;
+    let base: string;
+
+    beforeEach(async () => {
+      server = await startQueryServer(queries, 0, "127.0.0.1", {
+        corsOrigin: "*",
+      });
+      base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    const get = async (path: string) => {
+      const response = await fetch(base + path);
+      return { status: response.status, body: await response.json() };
+    };
+    const graphql = async (
+      query: string,
+      variables?: Record<string, unknown>
+    ) => {
+      const response = await fetch(`${base}/graphql`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query, variables }),
+      });
+      return response.json();
+    };
+
+    it("Serves the REST routes", async () => {
+      const escrow = await get(`/escrows/${first.toBase58()}`);
+      assert.equal(escrow.status, 200);
+      assert.equal(escrow.body.data.state, "Disputed");
+
+      const byIds = await get("/escrows?escrowId=2&tradeId=42");
+      assert.equal(byIds.body.data.address, second.toBase58());
+
+      const events = await get(`/escrows/${first.toBase58()}/events?first=2`);
+      assert.lengthOf(events.body.data, 2);
+      assert.isTrue(events.body.pageInfo.hasNextPage);
+
+      const trade = await get("/trades/42/escrows");
+      assert.lengthOf(trade.body.data, 2);
+      const buyerSide = await get(
+        `/participants/${seller.toBase58()}/escrows?role=buyer`
+      );
+      assert.deepEqual(
+        buyerSide.body.data.map((e: any) => e.escrowId),
+        ["3"]
+      );
+      const disputes = await get("/disputes/open");
+      assert.deepEqual(
+        disputes.body.data.map((e: any) => e.address),
+        [first.toBase58()]
+      );
+    });
+
+    it("Reports bad requests and unknown escrows", async () => {
+      assert.deepEqual(await get(`/escrows/${other.toBase58()}`), {
+        status: 404,
+        body: { error: "Escrow not found" },
+      });
+      assert.deepEqual(await get("/escrows/xyz"), {
+        status: 400,
+        body: { error: "Invalid address: xyz" },
+      });
+      assert.equal((await get("/disputes/open?after=nope")).status, 400);
+      assert.equal((await get("/nowhere")).status, 404);
+    });
+
+    it("Answers GraphQL queries with nested history", async () => {
+      const result = await graphql(
+        `
+          query ($seller: String!) {
+            escrowsByParticipant(address: $seller, role: SELLER, first: 1) {
+              nodes {
+                escrowId
+                state
+                events(first: 2) {
+                  nodes {
+                    event
+                    data
+                  }
+                  pageInfo {
+                    hasNextPage
+                  }
+                }
+              }
+              pageInfo {
+                endCursor
+                hasNextPage
+              }
+            }
+          }
+        `,
+        { seller: seller.toBase58() }
+      );
+      assert.isUndefined(result.errors);
+      const page = result.data.escrowsByParticipant;
+      assert.equal(page.nodes[0].state, "Disputed");
+      assert.deepEqual(
+        page.nodes[0].events.nodes.map((e: any) => e.event),
+        ["EscrowCreated", "FundsDeposited"]
+      );
+      assert.equal(page.nodes[0].events.nodes[0].data.tradeId, "42");
+      assert.isTrue(page.pageInfo.hasNextPage);
+
+      const next = await graphql(
+        `
+          {
+            openDisputes {
+              nodes {
+                address
+              }
+            }
+            escrow(escrowId: "3", tradeId: "43") {
+              seller
+            }
+            events(escrow: "${other.toBase58()}") {
+              nodes {
+                event
+              }
+            }
+          }
+        `
+      );
+      assert.deepEqual(next.data, {
+        openDisputes: { nodes: [{ address: first.toBase58() }] },
+        escrow: { seller: other.toBase58() },
+        events: null,
+      });
+
+      const bad = await graphql(
+        `
+          {
+            escrow(address: "xyz") {
+              state
+            }
+          }
+        `
+      );
+      assert.equal(bad.errors[0].message, "Invalid address: xyz");
+    });
+  });
+});
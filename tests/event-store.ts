@@ -0,0 +1,227 @@
+import { BN } from "@coral-xyz/anchor";
+import { Keypair } from "@solana/web3.js";
+import { assert } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  decodeProgramEvents,
+  EventCommitment,
+  ListenerEvent,
+} from "../scripts/listener/events";
+import {
+  MIGRATIONS,
+  SqliteCheckpointStore,
+  SqliteEventStore,
+} from "../scripts/listener/sqlite-store";
+import { coder, eventBase, PROGRAM_ID, programLogs } from "./helpers/events";
+
+describe("Event Listener SQLite Store", () => {
+  const seller = Keypair.generate().publicKey;
+  const buyer = Keypair.generate().publicKey;
+  const arbitrator = Keypair.generate().publicKey;
+  // Above i64::MAX: must survive as TEXT
+  const escrowId = new BN("18446744073709551615");
+  let dir: string;
+  let store: SqliteEventStore;
+
+  const logs = programLogs([
+    [
+      "EscrowCreated",
+      {
+        ...eventBase(0, 42, 1_700_000_000),
+        escrow_id: escrowId,
+        seller,
+        buyer,
+        arbitrator,
+        amount: new BN(1_000_000),
+        fee: new BN(10_000),
+        deposit_deadline: new BN(1_700_000_900),
+        fiat_deadline: new BN(0),
+        sequential: false,
+        sequential_escrow_address: null,
+      },
+    ],
+    [
+      "DisputeOpened",
+      {
+        ...eventBase(0, 42, 1_700_000_100),
+        escrow_id: escrowId,
+        disputing_party: buyer,
+        evidence_hash: Array(32).fill(0xab),
+        bond_amount: new BN(50_000),
+      },
+    ],
+  ]);
+
+  const toEvents = (
+    signature: string,
+    slot: number,
+    commitment: EventCommitment = "finalized"
+  ): ListenerEvent[] =>
+    decodeProgramEvents(coder, PROGRAM_ID, logs).events.map((event) => ({
+      ...event,
+      signature,
+      slot,
+      blockTime: 1_700_000_200,
+      commitment,
+    }));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "event-store-"));
+    store = new SqliteEventStore(path.join(dir, "events.db"));
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Decodes events with their log index", () => {
+    const { events, failures } = decodeProgramEvents(coder, PROGRAM_ID, logs);
+    assert.deepEqual(
+      events.map((e) => [e.name, e.logIndex]),
+      [
+        ["EscrowCreated", 2],
+        ["DisputeOpened", 3],
+      ]
+    );
+    assert.isEmpty(failures);
+  });
+
+  it("Writes the common row and the per-event row", () => {
+    toEvents("sig1", 500).forEach((event) => store.handle(event));
+
+    const rows = store.db
+      .prepare("SELECT * FROM events ORDER BY log_index")
+      .all() as any[];
+    assert.equal(rows.length, 2);
+    assert.equal(rows[0].name, "EscrowCreated");
+    assert.equal(rows[0].escrow_id, "18446744073709551615");
+    assert.equal(rows[0].slot, 500);
+    assert.equal(JSON.parse(rows[1].data).bond_amount, "50000");
+
+    const created = store.db
+      .prepare("SELECT * FROM escrow_created")
+      .get() as any;
+    assert.equal(created.seller, seller.toBase58());
+    assert.equal(created.amount, 1_000_000);
+    assert.equal(created.sequential, 0);
+    assert.isNull(created.sequential_escrow_address);
+
+    const opened = store.db
+      .prepare("SELECT * FROM dispute_opened")
+      .get() as any;
+    assert.equal(opened.evidence_hash, "ab".repeat(32));
+    assert.equal(opened.log_index, 3);
+  });
+
+  it("Ignores replays of the same event", () => {
+    toEvents("sig1", 500).forEach((event) => store.handle(event));
+    toEvents("sig1", 500).forEach((event) => store.handle(event));
+    const { count } = store.db
+      .prepare("SELECT COUNT(*) AS count FROM dispute_opened")
+      .get() as any;
+    assert.equal(count, 1);
+  });
+
+  it("Only exposes finalized events as settled", () => {
+    toEvents("sig1", 500, "confirmed").forEach((event) => store.handle(event));
+    toEvents("sig2", 501, "confirmed").forEach((event) => store.handle(event));
+    const settled = () =>
+      (
+        store.db
+          .prepare("SELECT DISTINCT signature, slot FROM settled_events")
+          .all() as any[]
+      ).map((row) => [row.signature, row.slot]);
+    assert.isEmpty(settled());
+
+    // Re-included on another fork before finalizing
+    store.commitmentChanged({
+      signature: "sig1",
+      slot: 505,
+      status: "finalized",
+    });
+    store.commitmentChanged({
+      signature: "sig2",
+      slot: 501,
+      status: "retracted",
+    });
+    // A late, contradictory update does not resurrect a settled row
+    store.commitmentChanged({
+      signature: "sig1",
+      slot: 505,
+      status: "retracted",
+    });
+    assert.deepEqual(settled(), [["sig1", 505]]);
+
+    const replayed = [...store.replay(coder)];
+    assert.deepEqual(
+      replayed.map((e) => [e.signature, e.commitment]),
+      [
+        ["sig1", "finalized"],
+        ["sig1", "finalized"],
+      ]
+    );
+  });
+
+  it("Finalizes stored events when a finalized copy is redelivered", () => {
+    toEvents("sig1", 500, "confirmed").forEach((event) => store.handle(event));
+
+    // Restart: the resume backfill fetches the transaction again, now final
+    store.close();
+    store = new SqliteEventStore(path.join(dir, "events.db"));
+    toEvents("sig1", 503, "finalized").forEach((event) => store.handle(event));
+    // A late confirmed copy does not downgrade it
+    toEvents("sig1", 500, "confirmed").forEach((event) => store.handle(event));
+
+    const rows = store.db
+      .prepare("SELECT commitment, slot FROM events")
+      .all() as any[];
+    assert.deepEqual(
+      rows.map((row) => [row.commitment, row.slot]),
+      [
+        ["finalized", 503],
+        ["finalized", 503],
+      ]
+    );
+    const { count } = store.db
+      .prepare("SELECT COUNT(*) AS count FROM settled_events")
+      .get() as any;
+    assert.equal(count, 2);
+  });
+
+  it("Migrates once and keeps the checkpoint in the database", async () => {
+    assert.equal(store.schemaVersion, MIGRATIONS.length);
+    const checkpoints = new SqliteCheckpointStore(store);
+    assert.isNull(await checkpoints.load());
+    await checkpoints.save({ slot: 7, signature: "a", updatedAt: "t1" });
+    await checkpoints.save({ slot: 9, signature: "b", updatedAt: "t2" });
+
+    store.close();
+    store = new SqliteEventStore(path.join(dir, "events.db"));
+    assert.deepEqual(await new SqliteCheckpointStore(store).load(), {
+      slot: 9,
+      signature: "b",
+      updatedAt: "t2",
+    });
+  });
+
+  it("Skips data from other programs and reports undecodable lines", () => {
+    const other = Keypair.generate().publicKey;
+    const mixed = [
+      ...programLogs([], other).slice(0, 1),
+      logs[2],
+      `Program ${other.toBase58()} success`,
+      ...logs.slice(0, 2),
+      "Program data: AAAAAAAAAAAAAAAA",
+      ...logs.slice(2),
+    ];
+    const { events, failures } = decodeProgramEvents(coder, PROGRAM_ID, mixed);
+    assert.equal(events.length, 2);
+    assert.deepEqual(
+      failures.map((f) => f.logIndex),
+      [5]
+    );
+  });
+});
@@ -0,0 +1,265 @@
+import { BN } from "@coral-xyz/anchor";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { assert } from "chai";
+import * as http from "http";
+import { AddressInfo } from "net";
+import {
+  decodeProgramEvents,
+  EscrowEventName,
+  EventCommitment,
+  ListenerEvent,
+} from "../scripts/listener/events";
+import {
+  EventStreamHub,
+  startEventStreamServer,
+} from "../scripts/listener/event-stream";
+import { SqliteEventStore } from "../scripts/listener/sqlite-store";
+import { coder, eventBase, PROGRAM_ID, programLogs } from "./helpers/events";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function waitFor(condition: () => boolean, timeoutMs = 2_000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out");
+    await sleep(5);
+  }
+}
+
+interface SseMessage {
+  id?: string;
+  event?: string;
+  data?: any;
+}
+
+/**
+ * Minimal EventSource: collects the messages of one connection
+ */
+function connect(url: string, headers: http.OutgoingHttpHeaders = {}) {
+  const messages: SseMessage[] = [];
+  let buffer = "";
+  const req = http.get(url, { headers }, (res) => {
+    res.setEncoding("utf8");
+    res.on("data", (chunk: string) => {
+      buffer += chunk;
+      let end: number;
+      while ((end = buffer.indexOf("\n\n")) >= 0) {
+        const message: SseMessage = {};
+        for (const line of buffer.slice(0, end).split("\n")) {
+          const [field, ...rest] = line.split(": ");
+          const value = rest.join(": ");
+          if (field === "id") message.id = value;
+          if (field === "event") message.event = value;
+          if (field === "data") message.data = JSON.parse(value);
+        }
+        buffer = buffer.slice(end + 2);
+        if (message.event) messages.push(message);
+      }
+    });
+  });
+  req.on("error", () => {});
+  return {
+    messages,
+    close: () => req.destroy(),
+  };
+}
+
+describe("Event SSE Stream", () => {
+  const seller = Keypair.generate().publicKey;
+  const buyer = Keypair.generate().publicKey;
+  const escrowA = Keypair.generate().publicKey;
+  const escrowB = Keypair.generate().publicKey;
+  const t0 = 1_700_000_000;
+  let store: SqliteEventStore;
+  let hub: EventStreamHub;
+  let server: http.Server;
+  let base: string;
+  let slot: number;
+  const connections: ReturnType<typeof connect>[] = [];
+
+  const created = (
+    escrow: PublicKey,
+    escrowId: number,
+    tradeId: number
+  ): [EscrowEventName, Record<string, any>] => [
+    "EscrowCreated",
+    {
+      ...eventBase(escrowId, tradeId, t0, escrow),
+      seller,
+      buyer,
+      arbitrator: Keypair.generate().publicKey,
+      amount: new BN(1_000_000),
+      fee: new BN(10_000),
+      deposit_deadline: new BN(t0 + 900),
+      fiat_deadline: new BN(0),
+      sequential: false,
+      sequential_escrow_address: null,
+    },
+  ];
+  const paid = (
+    escrow: PublicKey,
+    escrowId: number,
+    tradeId: number
+  ): [EscrowEventName, Record<string, any>] => [
+    "FiatMarkedPaid",
+    eventBase(escrowId, tradeId, t0 + 60, escrow),
+  ];
+
+  /** Deliver one transaction to the store, then the hub, like the listener */
+  const deliver = (
+    events: [EscrowEventName, Record<string, any>][],
+    commitment: EventCommitment = "confirmed"
+  ): ListenerEvent[] => {
+    const signature = `sig${slot}`;
+    const decoded = decodeProgramEvents(
+      coder,
+      PROGRAM_ID,
+      programLogs(events)
+    ).events.map((event) => ({
+      ...event,
+      signature,
+      slot,
+      blockTime: null,
+      commitment,
+    }));
+    slot++;
+    for (const event of decoded) {
+      store.handle(event);
+      hub.handle(event);
+    }
+    return decoded;
+  };
+  const open = (query: string, headers?: http.OutgoingHttpHeaders) => {
+    const connection = connect(`${base}/events?${query}`, headers);
+    connections.push(connection);
+    return connection;
+  };
+  const connected = (count: number) => waitFor(() => hub.clientCount === count);
+
+  beforeEach(async () => {
+    slot = 200;
+    store = new SqliteEventStore(":memory:");
+    hub = new EventStreamHub({ store, coder });
+    server = await startEventStreamServer(hub, 0, "127.0.0.1");
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    connections.splice(0).forEach((connection) => connection.close());
+    hub.close();
+    await new Promise((resolve) => server.close(resolve));
+    store.close();
+  });
+
+  it("Streams normalized events of the subscribed escrow or trade", async () => {
+    const byEscrow = open(`escrow=${escrowA.toBase58()}`);
+    const byTrade = open("tradeId=8");
+    await connected(2);
+
+    deliver([created(escrowA, 1, 7)]);
+    deliver([created(escrowB, 2, 8)]);
+    deliver([paid(escrowA, 1, 7)]);
+    await waitFor(() => byEscrow.messages.length === 2);
+    await waitFor(() => byTrade.messages.length === 1);
+
+    assert.deepEqual(
+      byEscrow.messages.map((m) => m.event),
+      ["EscrowCreated", "FiatMarkedPaid"]
+    );
+    const [first] = byEscrow.messages;
+    assert.equal(first.data.event, "EscrowCreated");
+    assert.equal(first.data.data.seller, seller.toBase58());
+    assert.equal(first.data.commitment, "confirmed");
+    assert.isString(first.id);
+    assert.equal(byTrade.messages[0].data.data.escrowId, "2");
+  });
+
+  it("Follows a participant across their escrows", async () => {
+    // Created before the client connects: known from the store
+    deliver([created(escrowA, 1, 7)]);
+    const participant = open(`participant=${buyer.toBase58()}`);
+    await connected(1);
+
+    // FiatMarkedPaid names nobody, but escrow A is the buyer's
+    deliver([paid(escrowA, 1, 7)]);
+    await waitFor(() => participant.messages.length === 1);
+    assert.equal(participant.messages[0].event, "FiatMarkedPaid");
+  });
+
+  it("Resumes after Last-Event-ID from the store", async () => {
+    const client = open(`escrow=${escrowA.toBase58()}`);
+    await connected(1);
+    deliver([created(escrowA, 1, 7)]);
+    await waitFor(() => client.messages.length === 1);
+    client.close();
+    await connected(0);
+
+    // Missed while disconnected
+    deliver([paid(escrowA, 1, 7)]);
+    deliver([created(escrowB, 2, 8)]);
+
+    const resumed = open(`escrow=${escrowA.toBase58()}`, {
+      "Last-Event-ID": client.messages[0].id!,
+    });
+    await connected(1);
+    deliver([
+      [
+        "EscrowBalanceChanged",
+        {
+          ...eventBase(1, 7, t0 + 120, escrowA),
+          new_balance: new BN(0),
+          reason: "test",
+        },
+      ],
+    ]);
+    await waitFor(() => resumed.messages.length === 2);
+    await sleep(20);
+    assert.deepEqual(
+      resumed.messages.map((m) => m.event),
+      ["FiatMarkedPaid", "EscrowBalanceChanged"]
+    );
+  });
+
+  it("Sends commitment updates for delivered transactions", async () => {
+    const client = open(`escrow=${escrowA.toBase58()}`);
+    await connected(1);
+    const [event] = deliver([created(escrowA, 1, 7)]);
+    deliver([created(escrowB, 2, 8)]);
+
+    hub.commitmentChanged({
+      signature: "sig201",
+      slot: 201,
+      status: "finalized",
+    });
+    hub.commitmentChanged({
+      signature: event.signature,
+      slot: event.slot,
+      status: "retracted",
+    });
+    await waitFor(() => client.messages.length === 2);
+    assert.deepEqual(client.messages[1], {
+      event: "commitment",
+      data: { signature: "sig200", slot: 200, commitment: "retracted" },
+    });
+  });
+
+  it("Rejects ambiguous or invalid subscriptions", async () => {
+    const response = async (query: string) => {
+      const res = await fetch(`${base}/events?${query}`);
+      return { status: res.status, body: await res.json() };
+    };
+    assert.equal((await response("")).status, 400);
+    assert.equal(
+      (await response(`escrow=${escrowA.toBase58()}&tradeId=1`)).status,
+      400
+    );
+    assert.deepEqual(await response("participant=xyz"), {
+      status: 400,
+      body: { error: "Invalid address: xyz" },
+    });
+    assert.equal(
+      (await response(`tradeId=1&lastEventId=nope`)).body.error,
+      "Invalid cursor: nope"
+    );
+  });
+});
@@ -0,0 +1,271 @@
+import { BN } from "@coral-xyz/anchor";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { assert } from "chai";
+import {
+  decodeProgramEvents,
+  EscrowEventName,
+  EventCommitment,
+} from "../scripts/listener/events";
+import { QueryError } from "../scripts/listener/queries";
+import { SqliteEventStore } from "../scripts/listener/sqlite-store";
+import {
+  buildTradeTimeline,
+  formatTimelineReport,
+} from "../scripts/listener/timeline";
+import { coder, eventBase, PROGRAM_ID, programLogs } from "./helpers/events";
+
+describe("Trade Timeline", () => {
+  const [alice, bob, carol, dave] = Array.from(
+    { length: 4 },
+    () => Keypair.generate().publicKey
+  );
+  const arbitrator = Keypair.generate().publicKey;
+  const t0 = 1_700_000_000;
+  // first (trade 42) releases to bob, who sells in second (trade 42), which
+  // releases straight into third's PDA (trade 43); other shares bob as seller
+  // but belongs to an unrelated trade
+  const first = Keypair.generate().publicKey;
+  const second = Keypair.generate().publicKey;
+  const third = Keypair.generate().publicKey;
+  const other = Keypair.generate().publicKey;
+  let store: SqliteEventStore;
+  let slot: number;
+
+  const write = (
+    events: [EscrowEventName, Record<string, any>][],
+    commitment: EventCommitment = "finalized"
+  ) => {
+    const signature = `sig${slot}`;
+    const decoded = decodeProgramEvents(coder, PROGRAM_ID, programLogs(events));
+    for (const event of decoded.events) {
+      store.handle({ ...event, signature, slot, blockTime: t0, commitment });
+    }
+    slot++;
+  };
+  const created = (
+    escrow: PublicKey,
+    escrowId: number,
+    tradeId: number,
+    seller: PublicKey,
+    buyer: PublicKey,
+    sequentialTo: PublicKey | null,
+    at: number
+  ): [EscrowEventName, Record<string, any>] => [
+    "EscrowCreated",
+    {
+      ...eventBase(escrowId, tradeId, at, escrow),
+      seller,
+      buyer,
+      arbitrator,
+      amount: new BN(1_000_000),
+      fee: new BN(10_000),
+      deposit_deadline: new BN(at + 900),
+      fiat_deadline: new BN(0),
+      sequential: sequentialTo !== null,
+      sequential_escrow_address: sequentialTo,
+    },
+  ];
+  const funded = (
+    escrow: PublicKey,
+    escrowId: number,
+    tradeId: number,
+    at: number
+  ): [EscrowEventName, Record<string, any>] => [
+    "FundsDeposited",
+    {
+      ...eventBase(escrowId, tradeId, at, escrow),
+      amount: new BN(1_000_000),
+      fee: new BN(10_000),
+      counter: new BN(1),
+    },
+  ];
+  const released = (
+    escrow: PublicKey,
+    escrowId: number,
+    tradeId: number,
+    buyer: PublicKey,
+    destination: PublicKey,
+    at: number
+  ): [EscrowEventName, Record<string, any>] => [
+    "EscrowReleased",
+    {
+      ...eventBase(escrowId, tradeId, at, escrow),
+      buyer,
+      amount: new BN(1_000_000),
+      fee: new BN(10_000),
+      counter: new BN(2),
+      destination,
+    },
+  ];
+
+  beforeEach(() => {
+    slot = 300;
+    store = new SqliteEventStore(":memory:");
+    const placeholder = Keypair.generate().publicKey;
+    write([created(first, 1, 42, alice, bob, placeholder, t0)]);
+    write([created(second, 2, 42, bob, carol, third, t0 + 10)]);
+    write([created(third, 3, 43, carol, dave, null, t0 + 20)]);
+    write([created(other, 4, 44, bob, dave, null, t0 + 30)]);
+    write([funded(first, 1, 42, t0 + 60)]);
+    write([
+      [
+        "SequentialAddressUpdated",
+        {
+          ...eventBase(1, 42, t0 + 90, first),
+          old_address: placeholder,
+          new_address: bob,
+        },
+      ],
+    ]);
+    write([["FiatMarkedPaid", eventBase(1, 42, t0 + 120, first)]]);
+    write([released(first, 1, 42, bob, bob, t0 + 180)]);
+    write([funded(second, 2, 42, t0 + 240)]);
+    write([["FiatMarkedPaid", eventBase(2, 42, t0 + 300, second)]]);
+    write([released(second, 2, 42, carol, third, t0 + 360)]);
+  });
+
+  afterEach(() => store.close());
+
+  const iso = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+  it("Orders the escrows of a chain by hop with funding, fiat and release", () => {
+    const timeline = buildTradeTimeline(store.replay(coder), {
+      tradeId: "42",
+    })!;
+    assert.deepEqual(
+      timeline.hops.map((hop) => [hop.hop, hop.escrow.escrowId]),
+      [
+        [1, "1"],
+        [2, "2"],
+        [3, "3"],
+      ]
+    );
+    const [hop1, hop2, hop3] = timeline.hops;
+    assert.include(hop1, {
+      fundedBy: alice.toBase58(),
+      fundedAt: iso(t0 + 60),
+      fiatPaidAt: iso(t0 + 120),
+      releasedAt: iso(t0 + 180),
+      releasedTo: bob.toBase58(),
+    });
+    assert.deepEqual(hop1.next, [second.toBase58()]);
+    assert.deepEqual(hop2.previous, [first.toBase58()]);
+    assert.deepEqual(hop2.next, [third.toBase58()]);
+    assert.equal(hop2.releasedTo, third.toBase58());
+    assert.isNull(hop3.fundedBy);
+    assert.deepEqual(hop3.next, []);
+
+    // The placeholder matched no escrow; the update and release did
+    assert.deepEqual(
+      timeline.links.map(({ from, to, via }) => [from, to, via]),
+      [
+        [first.toBase58(), second.toBase58(), "SequentialAddressUpdated"],
+        [first.toBase58(), second.toBase58(), "EscrowReleased"],
+        [second.toBase58(), third.toBase58(), "EscrowCreated"],
+        [second.toBase58(), third.toBase58(), "EscrowReleased"],
+      ]
+    );
+  });
+
+  it("Merges the chain's events into one chronological history", () => {
+    const timeline = buildTradeTimeline(store.replay(coder), {
+      tradeId: "42",
+    })!;
+    assert.deepEqual(
+      timeline.entries.map((entry) => [entry.hop, entry.event]),
+      [
+        [1, "EscrowCreated"],
+        [2, "EscrowCreated"],
+        [3, "EscrowCreated"],
+        [1, "FundsDeposited"],
+        [1, "SequentialAddressUpdated"],
+        [1, "FiatMarkedPaid"],
+        [1, "EscrowReleased"],
+        [2, "FundsDeposited"],
+        [2, "FiatMarkedPaid"],
+        [2, "EscrowReleased"],
+      ]
+    );
+    const release = timeline.entries[6];
+    assert.equal(release.at, iso(t0 + 180));
+    assert.equal(release.escrow, first.toBase58());
+    assert.equal(
+      release.summary,
+      `Released 1.00 USDC to ${bob.toBase58()} (hop 2), 0.01 USDC fee to the arbitrator`
+    );
+    assert.equal(
+      timeline.entries[3].summary,
+      `Funded by ${alice.toBase58()}: 1.00 USDC + 0.01 USDC fee`
+    );
+  });
+
+  it("Walks back from any escrow of the chain", () => {
+    const fromLast = buildTradeTimeline(store.replay(coder), {
+      escrow: third.toBase58(),
+    })!;
+    assert.deepEqual(
+      fromLast.hops.map((hop) => hop.escrow.address),
+      [first, second, third].map((key) => key.toBase58())
+    );
+
+    // Shares a seller with the chain, but not its trade
+    const unrelated = buildTradeTimeline(store.replay(coder), {
+      escrow: other.toBase58(),
+    })!;
+    assert.deepEqual(
+      unrelated.hops.map((hop) => hop.escrow.escrowId),
+      ["4"]
+    );
+    assert.isEmpty(unrelated.links);
+  });
+
+  it("Leaves out retracted links", () => {
+    const late = Keypair.generate().publicKey;
+    write([created(late, 5, 45, dave, alice, third, t0 + 420)], "confirmed");
+    const hopsOf43 = () =>
+      buildTradeTimeline(store.replay(coder), {
+        tradeId: "43",
+      })!.hops.map((hop) => [hop.hop, hop.escrow.escrowId]);
+    assert.deepEqual(hopsOf43(), [
+      [1, "1"],
+      [1, "5"],
+      [2, "2"],
+      [3, "3"],
+    ]);
+
+    store.commitmentChanged({
+      signature: "sig311",
+      slot: 311,
+      status: "retracted",
+    });
+    assert.deepEqual(hopsOf43(), [
+      [1, "1"],
+      [2, "2"],
+      [3, "3"],
+    ]);
+  });
+
+  it("Renders a readable report and rejects bad starts", () => {
+    const report = formatTimelineReport(
+      buildTradeTimeline(store.replay(coder), { tradeId: "42" })!
+    );
+    assert.include(report, "TRADE TIMELINE: trade 42");
+    assert.include(report, "3 escrow(s) over 3 hop(s)");
+    assert.include(report, "Hop 2 · escrow 2 · trade 42 · Released");
+    assert.include(report, `Funded by ${bob.toBase58()} at ${iso(t0 + 240)}`);
+    assert.include(
+      report,
+      `${iso(t0 + 120)}  [hop 1] Fiat marked paid by ${bob.toBase58()}`
+    );
+
+    assert.isNull(buildTradeTimeline(store.replay(coder), { tradeId: "99" }));
+    assert.throws(
+      () => buildTradeTimeline(store.replay(coder), { escrow: "xyz" }),
+      QueryError
+    );
+    assert.throws(
+      () => buildTradeTimeline(store.replay(coder), { tradeId: "-1" }),
+      /Invalid trade id/
+    );
+  });
+});
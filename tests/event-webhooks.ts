@@ -0,0 +1,285 @@
+import { BN } from "@coral-xyz/anchor";
+import { Keypair } from "@solana/web3.js";
+import { assert } from "chai";
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { EventCommitment, ListenerEvent } from "../scripts/listener/events";
+import {
+  FileDeadLetterQueue,
+  verifyWebhookSignature,
+  WebhookDispatcher,
+} from "../scripts/listener/webhooks";
+import { eventBase } from "./helpers/events";
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local HTTP stand-in for a webhook receiver; `respond` picks the status
+ * code for the n-th request (0-based)
+ */
+async function startReceiver(respond: (n: number) => number) {
+  const received: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const status = respond(received.length);
+      received.push({ headers: req.headers, body });
+      res.writeHead(status).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/hook`,
+    received,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+describe("Event Listener Webhooks", () => {
+  const secret = "test-secret";
+  const retry = { maxAttempts: 3, baseDelayMs: 5, maxDelayMs: 20 };
+  let dir: string;
+  let deadLetters: FileDeadLetterQueue;
+
+  const event = (
+    logIndex: number,
+    commitment: EventCommitment = "finalized",
+    amount = 1_000_000
+  ): ListenerEvent => ({
+    name: "FundsDeposited",
+    data: {
+      ...eventBase(7, 42, 1_700_000_000, Keypair.generate().publicKey),
+      amount: new BN(amount),
+      fee: new BN(amount / 100),
+      counter: new BN(1),
+    },
+    signature: "sig1",
+    slot: 100,
+    logIndex,
+    blockTime: 1_700_000_000,
+    raw: "",
+    commitment,
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "webhooks-"));
+    deadLetters = new FileDeadLetterQueue(path.join(dir, "dead.jsonl"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Signs each delivery and sends an idempotency key", async () => {
+    const receiver = await startReceiver(() => 200);
+    const dispatcher = new WebhookDispatcher([{ url: receiver.url, secret }], {
+      retry,
+      deadLetters,
+    });
+    dispatcher.handle(event(3));
+    dispatcher.handle(event(5));
+    await dispatcher.close();
+    await receiver.close();
+
+    assert.lengthOf(receiver.received, 2);
+    const [first, second] = receiver.received;
+    assert.isTrue(
+      verifyWebhookSignature(
+        first.body,
+        first.headers["x-escrow-signature"],
+        secret
+      )
+    );
+    assert.isFalse(
+      verifyWebhookSignature(
+        first.body,
+        first.headers["x-escrow-signature"],
+        "wrong"
+      )
+    );
+    assert.equal(first.headers["idempotency-key"], "sig1:3");
+    assert.equal(second.headers["idempotency-key"], "sig1:5");
+    assert.equal(first.headers["x-escrow-event"], "FundsDeposited");
+
+    const payload = JSON.parse(first.body);
+    assert.equal(payload.id, "sig1:3");
+    assert.equal(payload.commitment, "finalized");
+    assert.equal(payload.data.amount, "1000000");
+    assert.equal(payload.data.escrow_id, "7");
+    assert.isEmpty(await deadLetters.list());
+  });
+
+  it("Retries server errors with backoff until delivered", async () => {
+    const receiver = await startReceiver((n) => (n < 2 ? 503 : 200));
+    const results: boolean[] = [];
+    const dispatcher = new WebhookDispatcher([{ url: receiver.url, secret }], {
+      retry,
+      deadLetters,
+      onResult: (r) => results.push(r.delivered),
+    });
+    dispatcher.handle(event(3));
+    await dispatcher.close();
+    await receiver.close();
+
+    assert.lengthOf(receiver.received, 3);
+    // Every retry carries the same key so the receiver can deduplicate
+    assert.deepEqual(
+      receiver.received.map((r) => r.headers["idempotency-key"]),
+      ["sig1:3", "sig1:3", "sig1:3"]
+    );
+    assert.deepEqual(results, [true]);
+    assert.isEmpty(await deadLetters.list());
+  });
+
+  it("Dead-letters deliveries that exhaust their attempts", async () => {
+    const receiver = await startReceiver(() => 500);
+    const dispatcher = new WebhookDispatcher([{ url: receiver.url, secret }], {
+      retry,
+      deadLetters,
+    });
+    dispatcher.handle(event(3));
+    await dispatcher.close();
+    await receiver.close();
+
+    assert.lengthOf(receiver.received, 3);
+    const [letter] = await deadLetters.list();
+    assert.equal(letter.url, receiver.url);
+    assert.equal(letter.idempotencyKey, "sig1:3");
+    assert.equal(letter.attempts, 3);
+    assert.equal(letter.lastError, "HTTP 500");
+    assert.equal(letter.body, receiver.received[0].body);
+  });
+
+  it("Keeps delivering after a delivery step throws", async () => {
+    const receiver = await startReceiver((n) => (n === 0 ? 400 : 200));
+    const errors: unknown[] = [];
+    const dispatcher = new WebhookDispatcher([{ url: receiver.url, secret }], {
+      retry,
+      deadLetters: {
+        push: () => Promise.reject(new Error("Disk full")),
+      },
+      onError: (error) => errors.push(error),
+    });
+    dispatcher.handle(event(3));
+    dispatcher.handle(event(5));
+    await dispatcher.close();
+    await receiver.close();
+
+    assert.deepEqual(
+      receiver.received.map((r) => r.headers["idempotency-key"]),
+      ["sig1:3", "sig1:5"]
+    );
+    assert.deepEqual(
+      errors.map((e) => (e as Error).message),
+      ["Disk full"]
+    );
+  });
+
+  it("Appends dead letters after a failed append", async () => {
+    // The queue's directory is a file at first, so the first append fails
+    const blocked = path.join(dir, "blocked");
+    fs.writeFileSync(blocked, "");
+    const queue = new FileDeadLetterQueue(path.join(blocked, "dead.jsonl"));
+    const letter = {
+      url: "http://receiver",
+      idempotencyKey: "sig1:3",
+      event: "FundsDeposited" as const,
+      body: "{}",
+      attempts: 1,
+      lastError: "HTTP 400",
+      failedAt: new Date(0).toISOString(),
+    };
+
+    try {
+      await queue.push(letter);
+      assert.fail("Expected the append to fail");
+    } catch (error) {
+      assert.notEqual((error as Error).message, "Expected the append to fail");
+    }
+    fs.rmSync(blocked);
+    await queue.push({ ...letter, idempotencyKey: "sig1:5" });
+    assert.deepEqual(
+      (await queue.list()).map((l) => l.idempotencyKey),
+      ["sig1:5"]
+    );
+  });
+
+  it("Does not retry client errors", async () => {
+    const receiver = await startReceiver(() => 400);
+    const dispatcher = new WebhookDispatcher([{ url: receiver.url, secret }], {
+      retry,
+      deadLetters,
+    });
+    dispatcher.handle(event(3));
+    await dispatcher.close();
+    await receiver.close();
+
+    assert.lengthOf(receiver.received, 1);
+    assert.equal((await deadLetters.list())[0].attempts, 1);
+  });
+
+  it("Dead-letters unreachable endpoints", async () => {
+    const receiver = await startReceiver(() => 200);
+    await receiver.close();
+    const dispatcher = new WebhookDispatcher([{ url: receiver.url, secret }], {
+      retry,
+      deadLetters,
+    });
+    dispatcher.handle(event(3));
+    await dispatcher.close();
+
+    const [letter] = await deadLetters.list();
+    assert.equal(letter.attempts, 3);
+  });
+
+  it("Holds confirmed events until their transaction finalizes", async () => {
+    const receiver = await startReceiver(() => 200);
+    const dispatcher = new WebhookDispatcher([{ url: receiver.url, secret }], {
+      retry,
+      deadLetters,
+    });
+    dispatcher.handle(event(3, "confirmed"));
+    dispatcher.handle({ ...event(4, "confirmed"), signature: "sig2" });
+    await dispatcher.flush();
+    assert.isEmpty(receiver.received);
+
+    dispatcher.commitmentChanged({
+      signature: "sig2",
+      slot: 100,
+      status: "retracted",
+    });
+    dispatcher.commitmentChanged({
+      signature: "sig1",
+      slot: 104,
+      status: "finalized",
+    });
+    await dispatcher.close();
+    await receiver.close();
+
+    assert.lengthOf(receiver.received, 1);
+    const payload = JSON.parse(receiver.received[0].body);
+    assert.equal(payload.id, "sig1:3");
+    assert.equal(payload.slot, 104);
+  });
+
+  it("Only delivers the events an endpoint subscribes to", async () => {
+    const receiver = await startReceiver(() => 200);
+    const dispatcher = new WebhookDispatcher(
+      [{ url: receiver.url, secret, events: ["EscrowReleased"] }],
+      { retry, deadLetters }
+    );
+    dispatcher.handle(event(3));
+    await dispatcher.close();
+    await receiver.close();
+
+    assert.isEmpty(receiver.received);
+  });
+});
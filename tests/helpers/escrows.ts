@@ -0,0 +1,47 @@
+import { BN } from "@coral-xyz/anchor";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { EscrowAccount } from "../../sdk/client";
+import { ARBITRATOR } from "../../sdk/constants";
+
+// Shared escrow account fixtures for the offline keeper and watcher tests
+
+export const seller = Keypair.generate().publicKey;
+export const buyer = Keypair.generate().publicKey;
+
+/** Creation time of every fixture escrow */
+export const CREATED_AT = 1_700_000_000;
+
+export const evidenceHash = Array(32).fill(1);
+
+/**
+ * A decoded Escrow account in the Created state, plus its address
+ */
+export function makeEscrow(
+  overrides: Partial<EscrowAccount> = {},
+  address: PublicKey = Keypair.generate().publicKey
+): EscrowAccount & { address: PublicKey } {
+  return {
+    address,
+    escrowId: new BN(1),
+    tradeId: new BN(1),
+    seller,
+    buyer,
+    arbitrator: ARBITRATOR,
+    amount: new BN(1_000_000),
+    fee: new BN(10_000),
+    depositDeadline: new BN(CREATED_AT + 15 * 60),
+    fiatDeadline: new BN(0),
+    state: { created: {} },
+    sequential: false,
+    sequentialEscrowAddress: null,
+    fiatPaid: false,
+    counter: new BN(0),
+    disputeInitiator: null,
+    disputeInitiatedTime: null,
+    disputeEvidenceHashBuyer: null,
+    disputeEvidenceHashSeller: null,
+    disputeResolutionHash: null,
+    trackedBalance: new BN(0),
+    ...overrides,
+  };
+}
@@ -0,0 +1,58 @@
+import { BN, BorshCoder } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { EscrowEventName } from "../../scripts/listener/events";
+
+// Shared fixtures for the offline listener tests
+
+export const idl = require("../../target/idl/localsolana_contracts.json");
+export const coder = new BorshCoder(idl);
+export const PROGRAM_ID = new PublicKey(idl.address);
+
+/**
+ * Encode an event the way `emit!` logs it: base64 of discriminator + Borsh
+ */
+export function encodeEvent(
+  name: EscrowEventName,
+  data: Record<string, any>
+): string {
+  const { discriminator, layout } = (coder.events as any).layouts.get(name);
+  const buffer = Buffer.alloc(1000);
+  const length = layout.encode(data, buffer);
+  return Buffer.concat([
+    Buffer.from(discriminator),
+    buffer.subarray(0, length),
+  ]).toString("base64");
+}
+
+/**
+ * Log messages of a successful top-level call that emitted `events`
+ */
+export function programLogs(
+  events: [EscrowEventName, Record<string, any>][],
+  programId: PublicKey = PROGRAM_ID
+): string[] {
+  return [
+    `Program ${programId.toBase58()} invoke [1]`,
+    "Program log: Instruction: Test",
+    ...events.map(([name, data]) => `Program data: ${encodeEvent(name, data)}`),
+    `Program ${programId.toBase58()} consumed 10000 of 200000 compute units`,
+    `Program ${programId.toBase58()} success`,
+  ];
+}
+
+/**
+ * Field values shared by every event
+ */
+export function eventBase(
+  escrowId: number,
+  tradeId: number,
+  timestamp: number,
+  objectId: PublicKey = PublicKey.default
+) {
+  return {
+    object_id: objectId,
+    escrow_id: new BN(escrowId),
+    trade_id: new BN(tradeId),
+    timestamp: new BN(timestamp),
+  };
+}
@@ -0,0 +1,202 @@
+import * as anchor from "@coral-xyz/anchor";
+import { BN, Program } from "@coral-xyz/anchor";
+import * as token from "@solana/spl-token";
+import { Keypair, LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
+import { assert } from "chai";
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import { LocalsolanaContracts } from "../target/types/localsolana_contracts";
+import { EscrowClient } from "../sdk/client";
+import { EscrowIds } from "../sdk/pda";
+import {
+  AUTO_CANCEL_TASK,
+  clusterTime,
+  EscrowKeeper,
+  KeeperOutcome,
+} from "../scripts/listener/keeper";
+
+dotenv.config();
+
+// Integration: needs a local validator with the program deployed (anchor
+// test) and the SELLER_KEYPAIR, BUYER_KEYPAIR and ARBITRATOR_KEYPAIR files.
+// The keeper can only act once the deadlines pass, so the program should be
+// built with the shortened localnet deadlines (1 minute); with the default
+// 15/30 minutes the expiry cases skip instead of waiting.
+const isLocalnet = /127\.0\.0\.1|localhost/.test(
+  process.env.ANCHOR_PROVIDER_URL ?? ""
+);
+const MAX_WAIT_SECONDS = Number(process.env.KEEPER_TEST_MAX_WAIT ?? 180);
+
+const loadKeypair = (filePath: string) =>
+  Keypair.fromSecretKey(
+    new Uint8Array(JSON.parse(fs.readFileSync(filePath, "utf8")))
+  );
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const randomIds = (): EscrowIds => ({
+  escrowId: new BN(Math.floor(Math.random() * 1_000_000_000)),
+  tradeId: new BN(Math.floor(Math.random() * 1_000_000_000)),
+});
+
+describe("Auto-Cancel Keeper (local validator)", function () {
+  this.timeout(MAX_WAIT_SECONDS * 1000 + 120_000);
+
+  let provider: anchor.AnchorProvider;
+  let client: EscrowClient;
+  let seller: Keypair;
+  let buyer: Keypair;
+  let arbitrator: Keypair;
+  let sellerTokenAccount: PublicKey;
+  const unfunded = randomIds();
+  const funded = randomIds();
+  const amount = new BN(1_000_000);
+
+  const ours = (outcomes: KeeperOutcome[]) => {
+    const addresses = [unfunded, funded].map((ids) =>
+      client.escrowAddress(ids).toBase58()
+    );
+    return outcomes.filter((o) => addresses.includes(o.escrow.toBase58()));
+  };
+  const balance = async () =>
+    BigInt(
+      (await provider.connection.getTokenAccountBalance(sellerTokenAccount))
+        .value.amount
+    );
+
+  before(async function () {
+    if (!isLocalnet) this.skip();
+    provider = anchor.AnchorProvider.env();
+    anchor.setProvider(provider);
+    const program = anchor.workspace
+      .LocalsolanaContracts as Program<LocalsolanaContracts>;
+    seller = loadKeypair(process.env.SELLER_KEYPAIR!);
+    buyer = loadKeypair(process.env.BUYER_KEYPAIR!);
+    arbitrator = loadKeypair(process.env.ARBITRATOR_KEYPAIR!);
+
+    for (const key of [seller.publicKey, arbitrator.publicKey]) {
+      if ((await provider.connection.getBalance(key)) < LAMPORTS_PER_SOL) {
+        const sig = await provider.connection.requestAirdrop(
+          key,
+          2 * LAMPORTS_PER_SOL
+        );
+        await provider.connection.confirmTransaction(sig, "confirmed");
+      }
+    }
+    const mint = await token.createMint(
+      provider.connection,
+      seller,
+      seller.publicKey,
+      null,
+      6
+    );
+    sellerTokenAccount = (
+      await token.getOrCreateAssociatedTokenAccount(
+        provider.connection,
+        seller,
+        mint,
+        seller.publicKey
+      )
+    ).address;
+    await token.mintTo(
+      provider.connection,
+      seller,
+      mint,
+      sellerTokenAccount,
+      seller,
+      10_000_000
+    );
+    client = new EscrowClient(program, mint);
+
+    for (const ids of [unfunded, funded]) {
+      await client.createEscrow(
+        { ...ids, amount, buyer: buyer.publicKey },
+        seller
+      );
+    }
+    await client.fundEscrow(funded, seller);
+  });
+
+  it("Leaves escrows alone before their deadlines", async () => {
+    const keeper = new EscrowKeeper(client, arbitrator, AUTO_CANCEL_TASK);
+    assert.isEmpty(ours(await keeper.run()));
+    assert.isNotNull(await client.fetchEscrowNullable(unfunded));
+  });
+
+  it("Reports expired escrows in dry-run mode without sending", async function () {
+    const [a, b] = await Promise.all(
+      [unfunded, funded].map((ids) => client.fetchEscrow(ids))
+    );
+    const expiry = Math.max(
+      a.depositDeadline.toNumber(),
+      b.fiatDeadline.toNumber()
+    );
+    const wait = expiry + 1 - (await clusterTime(provider.connection));
+    if (wait > MAX_WAIT_SECONDS) {
+      console.log(
+        `Skipping: deadlines expire in ${wait}s; build with the localnet deadlines`
+      );
+      this.skip();
+    }
+    while ((await clusterTime(provider.connection)) <= expiry) {
+      await sleep(2_000);
+    }
+
+    const keeper = new EscrowKeeper(
+      client,
+      arbitrator.publicKey,
+      AUTO_CANCEL_TASK,
+      { dryRun: true }
+    );
+    const outcomes = ours(await keeper.run());
+    assert.sameMembers(
+      outcomes.map((o) => o.status),
+      ["dry-run", "dry-run"]
+    );
+    assert.isNotNull(await client.fetchEscrowNullable(unfunded));
+    assert.isNotNull(await client.fetchEscrowNullable(funded));
+  });
+
+  it("Cancels each expired escrow exactly once, even with racing keepers", async function () {
+    if (await client.fetchEscrowNullable(unfunded)) {
+      const escrow = await client.fetchEscrow(unfunded);
+      if (
+        escrow.depositDeadline.toNumber() >=
+        (await clusterTime(provider.connection))
+      ) {
+        this.skip();
+      }
+    }
+    const before = await balance();
+    const keepers = [1, 2].map(
+      () => new EscrowKeeper(client, arbitrator, AUTO_CANCEL_TASK)
+    );
+    const outcomes = ours(
+      (await Promise.all(keepers.map((k) => k.run()))).flat()
+    );
+
+    assert.notInclude(
+      outcomes.map((o) => o.status),
+      "failed",
+      JSON.stringify(outcomes.map((o) => o.reason))
+    );
+    for (const ids of [unfunded, funded]) {
+      const address = client.escrowAddress(ids).toBase58();
+      const sent = outcomes.filter(
+        (o) => o.escrow.toBase58() === address && o.status === "sent"
+      );
+      assert.lengthOf(sent, 1, `one auto_cancel for ${address}`);
+      assert.isNull(await client.fetchEscrowNullable(ids));
+    }
+    // Principal and fee of the funded escrow went back to the seller
+    assert.equal(await balance(), before + 1_010_000n);
+    assert.isNull(
+      await provider.connection.getAccountInfo(
+        client.escrowTokenAddress(funded)
+      )
+    );
+
+    // Nothing left to do
+    assert.isEmpty(ours(await keepers[0].run()));
+  });
+});
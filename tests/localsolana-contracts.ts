@@ -7,6 +7,13 @@ import * as fs from "fs";
 import * as path from "path";
 import * as token from "@solana/spl-token";
 import { LocalsolanaContracts } from "../target/types/localsolana_contracts";
+import * as pda from "../sdk/pda";
+import { calculateFee, formatAmount, USDC_DECIMALS } from "../sdk/amounts";
+import {
+  ExceedsMaximumError,
+  InvalidAmountError,
+  parseEscrowError,
+} from "../sdk/errors";
 
 dotenv.config();
 
@@ -26,7 +33,7 @@ class TransactionLogger {
   }
 
   public formatUsdcAmount(amount: BN): string {
-    return (amount.toNumber() / 1_000_000).toFixed(2);
+    return formatAmount(amount, USDC_DECIMALS);
   }
 
   private createBlockExplorerLink(txSignature: string): string {
@@ -156,32 +163,16 @@ describe("Localsolana Contracts Tests", () => {
 
   // Helper Functions
   const deriveEscrowPDA = (escrowId: BN, tradeId: BN): [PublicKey, number] =>
-    PublicKey.findProgramAddressSync(
-      [
-        Buffer.from("escrow"),
-        escrowId.toArrayLike(Buffer, "le", 8),
-        tradeId.toArrayLike(Buffer, "le", 8),
-      ],
-      program.programId
-    );
+    pda.deriveEscrowPDA(escrowId, tradeId, program.programId);
 
   const deriveEscrowTokenPDA = (escrowKey: PublicKey): [PublicKey, number] =>
-    PublicKey.findProgramAddressSync(
-      [Buffer.from("escrow_token"), escrowKey.toBuffer()],
-      program.programId
-    );
+    pda.deriveEscrowTokenPDA(escrowKey, program.programId);
 
   const deriveBuyerBondPDA = (escrowKey: PublicKey): [PublicKey, number] =>
-    PublicKey.findProgramAddressSync(
-      [Buffer.from("buyer_bond"), escrowKey.toBuffer()],
-      program.programId
-    );
+    pda.deriveBuyerBondPDA(escrowKey, program.programId);
 
   const deriveSellerBondPDA = (escrowKey: PublicKey): [PublicKey, number] =>
-    PublicKey.findProgramAddressSync(
-      [Buffer.from("seller_bond"), escrowKey.toBuffer()],
-      program.programId
-    );
+    pda.deriveSellerBondPDA(escrowKey, program.programId);
 
   async function cleanupEscrow(
       escrowPDA: PublicKey,
@@ -592,7 +583,7 @@ describe("Localsolana Contracts Tests", () => {
       assert.equal(escrowAccount.buyer.toBase58(), buyer.publicKey.toBase58(), "Buyer mismatch");
       assert.equal(escrowAccount.arbitrator.toBase58(), "GGrXhNVxUZXaA2uMopsa5q23aPmoNvQF14uxqo8qENUr", "Arbitrator mismatch");
       assert.equal(escrowAccount.amount.toString(), amount.toString(), "Amount mismatch");
-      assert.equal(escrowAccount.fee.toString(), amount.div(new BN(100)).toString(), "Fee mismatch");
+      assert.equal(escrowAccount.fee.toString(), calculateFee(amount).toString(), "Fee mismatch");
       assert(escrowAccount.depositDeadline.gtn(0), "Deposit deadline not set");
       assert.equal(escrowAccount.fiatDeadline.toString(), "0", "Fiat deadline should be 0");
       assert.deepEqual(escrowAccount.state, { created: {} }, "State should be Created");
@@ -1013,6 +1004,7 @@ describe("Localsolana Contracts Tests", () => {
         assert.fail("Should have thrown an error for zero amount");
       } catch (error: any) {
         assert.include(error.message, "Invalid amount: Zero or negative", "Expected InvalidAmount error");
+        assert.instanceOf(parseEscrowError(error), InvalidAmountError);
       }
     });
 
@@ -2292,6 +2284,7 @@ describe("Localsolana Contracts Tests", () => {
         assert.fail("Should have thrown an error for exceeding maximum amount");
       } catch (error: any) {
         assert.include(error.message, "Amount exceeds maximum (100 USDC)", "Expected ExceedsMaximum error");
+        assert.instanceOf(parseEscrowError(error), ExceedsMaximumError);
       }
     });
 
@@ -2387,7 +2380,7 @@ describe("Localsolana Contracts Tests", () => {
       const destinationAccount = new PublicKey(process.env.BUYER_TOKEN_ADDRESS || "FN7L7W7eiGMveGSiaxHoZ6ySBFV6akY3JtnTPsTNgWrt");
 
       // Transfer USDC to buyer token account instead of burning
-      console.log(`Transferring ${(transferAmount.toNumber() / 1_000_000).toFixed(2)} USDC to BUYER_TOKEN_ADDRESS: ${destinationAccount.toBase58()}`);
+      console.log(`Transferring ${txLogger.formatUsdcAmount(transferAmount)} USDC to BUYER_TOKEN_ADDRESS: ${destinationAccount.toBase58()}`);
       const transferTx = await token.transfer(
         provider.connection,
         seller,
@@ -2397,8 +2390,8 @@ describe("Localsolana Contracts Tests", () => {
         transferAmount.toNumber()
       );
       await provider.connection.confirmTransaction(transferTx, "confirmed");
-      console.log(`Transfer completed. Seller now has ${(500000 / 1_000_000).toFixed(2)} USDC remaining`);
-      console.log(`Buyer received ${(transferAmount.toNumber() / 1_000_000).toFixed(2)} USDC (can be returned later if needed)`);
+      console.log(`Transfer completed. Seller now has ${txLogger.formatUsdcAmount(new BN(500000))} USDC remaining`);
+      console.log(`Buyer received ${txLogger.formatUsdcAmount(transferAmount)} USDC (can be returned later if needed)`);
       await sleep(1000);
 
       try {
@@ -3101,7 +3094,7 @@ describe("Localsolana Contracts Tests", () => {
       const destinationAccount = new PublicKey(process.env.BUYER_TOKEN_ADDRESS || "FN7L7W7eiGMveGSiaxHoZ6ySBFV6akY3JtnTPsTNgWrt");
 
       // Transfer USDC to buyer token account instead of burning
-      console.log(`Transferring ${(transferAmount.toNumber() / 1_000_000).toFixed(2)} USDC to BUYER_TOKEN_ADDRESS: ${destinationAccount.toBase58()}`);
+      console.log(`Transferring ${txLogger.formatUsdcAmount(transferAmount)} USDC to BUYER_TOKEN_ADDRESS: ${destinationAccount.toBase58()}`);
       const transferTx = await token.transfer(
         provider.connection,
         seller,
@@ -3111,8 +3104,8 @@ describe("Localsolana Contracts Tests", () => {
         transferAmount.toNumber()
       );
       await provider.connection.confirmTransaction(transferTx, "confirmed");
-      console.log(`Transfer completed. Seller now has ${(500000 / 1_000_000).toFixed(2)} USDC remaining`);
-      console.log(`Buyer received ${(transferAmount.toNumber() / 1_000_000).toFixed(2)} USDC (can be returned later if needed)`);
+      console.log(`Transfer completed. Seller now has ${txLogger.formatUsdcAmount(new BN(500000))} USDC remaining`);
+      console.log(`Buyer received ${txLogger.formatUsdcAmount(transferAmount)} USDC (can be returned later if needed)`);
       await sleep(1000);
 
       try {